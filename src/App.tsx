@@ -4,6 +4,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AccountProvider } from "@/contexts/AccountContext";
+import { ReportingProvider } from "@/contexts/ReportingContext";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { useAuth } from "@/hooks/useAuth";
 import Index from "./pages/Index";
@@ -27,19 +28,21 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <AccountProvider>
-          <Routes>
-            <Route path="/login" element={
-              <AuthRedirect>
-                <Login />
-              </AuthRedirect>
-            } />
-            <Route path="/" element={
-              <ProtectedRoute>
-                <Index />
-              </ProtectedRoute>
-            } />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
+          <ReportingProvider>
+            <Routes>
+              <Route path="/login" element={
+                <AuthRedirect>
+                  <Login />
+                </AuthRedirect>
+              } />
+              <Route path="/" element={
+                <ProtectedRoute>
+                  <Index />
+                </ProtectedRoute>
+              } />
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </ReportingProvider>
         </AccountProvider>
       </BrowserRouter>
     </TooltipProvider>
@@ -20,6 +20,8 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Plus, Building2, Pencil, Trash2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { formatCNPJ, onlyDigits } from '@/lib/cnpj';
+import { isValidPixKey, normalizePixKey } from '@/lib/pix';
 
 export function AccountSelector() {
   const { accounts, selectedAccount, setSelectedAccount, createAccount, updateAccount, deleteAccount } = useAccounts();
@@ -31,6 +33,9 @@ export function AccountSelector() {
     name: '',
     bank_name: '',
     company_name: '',
+    cnpj: '',
+    pix_key: '',
+    pix_city: '',
     initial_balance: 0,
   });
 
@@ -39,10 +44,51 @@ export function AccountSelector() {
       name: '',
       bank_name: '',
       company_name: '',
+      cnpj: '',
+      pix_key: '',
+      pix_city: '',
       initial_balance: 0,
     });
   };
 
+  // CNPJ and PIX key are optional, but must be valid when given; a PIX charge also needs the city
+  const getAccountData = () => {
+    const cnpj = onlyDigits(formData.cnpj);
+    if (cnpj && cnpj.length !== 14) {
+      toast({
+        title: 'CNPJ inválido',
+        description: 'Informe os 14 dígitos do CNPJ ou deixe o campo em branco.',
+        variant: 'destructive',
+      });
+      return null;
+    }
+
+    const pixKey = formData.pix_key.trim();
+    if (pixKey && !isValidPixKey(pixKey)) {
+      toast({
+        title: 'Chave PIX inválida',
+        description: 'Use CPF, CNPJ, e-mail, telefone com +55 ou chave aleatória.',
+        variant: 'destructive',
+      });
+      return null;
+    }
+    if (pixKey && !formData.pix_city.trim()) {
+      toast({
+        title: 'Cidade obrigatória',
+        description: 'Informe a cidade da conta para gerar cobranças PIX.',
+        variant: 'destructive',
+      });
+      return null;
+    }
+
+    return {
+      ...formData,
+      cnpj: cnpj || null,
+      pix_key: pixKey ? normalizePixKey(pixKey) : null,
+      pix_city: formData.pix_city.trim() || null,
+    };
+  };
+
   const handleCreate = async () => {
     if (!formData.name.trim() || !formData.bank_name.trim() || !formData.company_name.trim()) {
       toast({
@@ -53,7 +99,10 @@ export function AccountSelector() {
       return;
     }
 
-    const account = await createAccount(formData);
+    const data = getAccountData();
+    if (!data) return;
+
+    const account = await createAccount(data);
     if (account) {
       toast({
         title: 'Conta criada',
@@ -74,7 +123,10 @@ export function AccountSelector() {
   const handleEdit = async () => {
     if (!editingAccount) return;
 
-    const success = await updateAccount(editingAccount.id, formData);
+    const data = getAccountData();
+    if (!data) return;
+
+    const success = await updateAccount(editingAccount.id, data);
     if (success) {
       toast({
         title: 'Conta atualizada',
@@ -118,6 +170,9 @@ export function AccountSelector() {
       name: account.name,
       bank_name: account.bank_name,
       company_name: account.company_name,
+      cnpj: account.cnpj ? formatCNPJ(account.cnpj) : '',
+      pix_key: account.pix_key || '',
+      pix_city: account.pix_city || '',
       initial_balance: account.initial_balance,
     });
     setIsEditOpen(true);
@@ -216,6 +271,39 @@ export function AccountSelector() {
                 onChange={(e) => setFormData({ ...formData, company_name: e.target.value })}
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="cnpj">
+                CNPJ <span className="text-xs font-normal text-muted-foreground">(opcional, usado na importação de NF-e)</span>
+              </Label>
+              <Input
+                id="cnpj"
+                placeholder="00.000.000/0000-00"
+                value={formData.cnpj}
+                onChange={(e) => setFormData({ ...formData, cnpj: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-[1fr_140px] gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="pix_key">
+                  Chave PIX <span className="text-xs font-normal text-muted-foreground">(opcional, para cobranças)</span>
+                </Label>
+                <Input
+                  id="pix_key"
+                  placeholder="CNPJ, e-mail, telefone..."
+                  value={formData.pix_key}
+                  onChange={(e) => setFormData({ ...formData, pix_key: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pix_city">Cidade</Label>
+                <Input
+                  id="pix_city"
+                  placeholder="Ex: Curitiba"
+                  value={formData.pix_city}
+                  onChange={(e) => setFormData({ ...formData, pix_city: e.target.value })}
+                />
+              </div>
+            </div>
             <div className="space-y-2">
               <Label htmlFor="bank_name">Banco</Label>
               <Input
@@ -271,6 +359,39 @@ export function AccountSelector() {
                 onChange={(e) => setFormData({ ...formData, company_name: e.target.value })}
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-cnpj">
+                CNPJ <span className="text-xs font-normal text-muted-foreground">(opcional, usado na importação de NF-e)</span>
+              </Label>
+              <Input
+                id="edit-cnpj"
+                placeholder="00.000.000/0000-00"
+                value={formData.cnpj}
+                onChange={(e) => setFormData({ ...formData, cnpj: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-[1fr_140px] gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="edit-pix_key">
+                  Chave PIX <span className="text-xs font-normal text-muted-foreground">(opcional, para cobranças)</span>
+                </Label>
+                <Input
+                  id="edit-pix_key"
+                  placeholder="CNPJ, e-mail, telefone..."
+                  value={formData.pix_key}
+                  onChange={(e) => setFormData({ ...formData, pix_key: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-pix_city">Cidade</Label>
+                <Input
+                  id="edit-pix_city"
+                  placeholder="Ex: Curitiba"
+                  value={formData.pix_city}
+                  onChange={(e) => setFormData({ ...formData, pix_city: e.target.value })}
+                />
+              </div>
+            </div>
             <div className="space-y-2">
               <Label htmlFor="edit-bank_name">Banco</Label>
               <Input
@@ -0,0 +1,276 @@
+import { useEffect, useMemo, useState } from 'react';
+import { addMonths, format, startOfMonth, subMonths } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { AlertTriangle, BookOpen, CheckCircle2, ChevronLeft, ChevronRight, Download, ListTree } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Category, Transaction } from '@/types/finance';
+import {
+  buildAccountingEntries,
+  formatAccountingCsv,
+  formatAccountingFixedWidth,
+  hasValidationIssues,
+  resolveLedgerCode,
+  AccountingLayout,
+  ACCOUNTING_LAYOUTS,
+} from '@/lib/accountingExport';
+import { buildCategoryTree, CategoryNode } from '@/lib/categoryTree';
+import { downloadBlob, encodeCsv } from '@/lib/transactionExport';
+import { useAccounts } from '@/contexts/AccountContext';
+
+interface AccountingExportPanelProps {
+  transactions: Transaction[];
+  categories: Category[];
+  onUpdateCategory: (id: string, updates: Partial<Category>) => Promise<boolean>;
+}
+
+interface LedgerCodeInputProps {
+  value: string | null | undefined;
+  placeholder?: string;
+  onSave: (code: string | null) => Promise<boolean>;
+}
+
+// Saves on blur or Enter, only when the code actually changed
+function LedgerCodeInput({ value, placeholder, onSave }: LedgerCodeInputProps) {
+  const [draft, setDraft] = useState(value || '');
+
+  useEffect(() => {
+    setDraft(value || '');
+  }, [value]);
+
+  const save = () => {
+    const code = draft.trim() || null;
+    if (code !== (value || null)) onSave(code);
+  };
+
+  return (
+    <Input
+      value={draft}
+      placeholder={placeholder}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={save}
+      onKeyDown={(e) => e.key === 'Enter' && save()}
+      className="h-8 w-40 font-mono text-sm"
+    />
+  );
+}
+
+export function AccountingExportPanel({
+  transactions,
+  categories,
+  onUpdateCategory,
+}: AccountingExportPanelProps) {
+  const { accounts, selectedAccount, updateAccount } = useAccounts();
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [layout, setLayout] = useState<AccountingLayout>('csv');
+  const [showChart, setShowChart] = useState(false);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  // Transfers debit the destination account's ledger code
+  const accountCodes = useMemo(
+    () => Object.fromEntries(accounts.map((a) => [a.id, a.ledger_code])),
+    [accounts]
+  );
+
+  const { entries, validation } = useMemo(
+    () => buildAccountingEntries(transactions, categories, selectedAccount?.ledger_code, month, accountCodes),
+    [transactions, categories, selectedAccount?.ledger_code, month, accountCodes]
+  );
+
+  const saveAccountCode = (code: string | null) =>
+    selectedAccount ? updateAccount(selectedAccount.id, { ledger_code: code }) : Promise.resolve(false);
+
+  const saveCategoryCode = (category: Category, code: string | null) =>
+    onUpdateCategory(category.id, { ledgerCode: code });
+
+  const handleExport = () => {
+    const option = ACCOUNTING_LAYOUTS.find((l) => l.value === layout);
+    const content = layout === 'csv' ? formatAccountingCsv(entries) : formatAccountingFixedWidth(entries);
+    // Accounting systems usually read ANSI text
+    downloadBlob(
+      encodeCsv(content, 'windows-1252'),
+      `lancamentos_contabeis_${format(month, 'yyyy-MM')}.${option?.extension || 'txt'}`
+    );
+  };
+
+  const renderChartTree = (nodes: CategoryNode[], depth = 0): JSX.Element[] =>
+    nodes.flatMap((node) => {
+      const { category } = node;
+      const inherited = category.parentId
+        ? resolveLedgerCode(
+            categories.find((c) => c.id === category.parentId)?.name,
+            category.type,
+            categories
+          )
+        : null;
+
+      return [
+        <div key={category.id} className="flex items-center justify-between gap-3" style={{ paddingLeft: depth * 20 }}>
+          <span className="flex items-center gap-2 text-sm min-w-0">
+            <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: category.color }} />
+            <span className="truncate">{category.name}</span>
+          </span>
+          <LedgerCodeInput
+            value={category.ledgerCode}
+            placeholder={inherited || 'Sem conta'}
+            onSave={(code) => saveCategoryCode(category, code)}
+          />
+        </div>,
+        ...renderChartTree(node.children, depth + 1),
+      ];
+    });
+
+  const hasIssues = hasValidationIssues(validation);
+
+  return (
+    <div className="bg-card rounded-xl p-5 shadow-card space-y-4">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+        <h3 className="font-semibold flex items-center gap-2">
+          <BookOpen className="h-5 w-5 text-primary" />
+          Exportação Contábil
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex items-center">
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setMonth(subMonths(month, 1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium capitalize w-32 text-center">
+              {format(month, 'MMMM yyyy', { locale: ptBR })}
+            </span>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setMonth(addMonths(month, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <Select value={layout} onValueChange={(v) => setLayout(v as AccountingLayout)}>
+            <SelectTrigger className="h-8 w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ACCOUNTING_LAYOUTS.map((l) => (
+                <SelectItem key={l.value} value={l.value}>
+                  {l.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Button variant="outline" size="sm" onClick={() => setShowChart(true)}>
+            <ListTree className="h-4 w-4 mr-2" />
+            Plano de contas
+          </Button>
+          <Button size="sm" onClick={handleExport} disabled={entries.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Exportar
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 text-sm">
+        {hasIssues ? (
+          <AlertTriangle className="h-4 w-4 text-warning" />
+        ) : (
+          <CheckCircle2 className="h-4 w-4 text-income" />
+        )}
+        <span>
+          {entries.length} lançamentos contábeis prontos para exportar
+          {hasIssues && '; os itens abaixo ficarão de fora até serem mapeados'}
+        </span>
+      </div>
+
+      {hasIssues && (
+        <div className="space-y-2 rounded-lg border border-warning/40 bg-warning-muted p-3 text-sm">
+          {validation.missingAccountCode && (
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span>
+                A conta <strong>{selectedAccount?.name}</strong> não tem conta contábil. Nenhum lançamento será
+                exportado.
+              </span>
+              <LedgerCodeInput value={selectedAccount?.ledger_code} placeholder="Ex.: 1.1.1.02" onSave={saveAccountCode} />
+            </div>
+          )}
+          {validation.unmappedCategories.map((item) => {
+            const category = categories.find((c) => c.name === item.category && c.type === item.type);
+            return (
+              <div key={`${item.type}:${item.category}`} className="flex flex-wrap items-center justify-between gap-2">
+                <span>
+                  Categoria <strong>{item.category}</strong> sem conta contábil: {item.count} lançamento(s),{' '}
+                  <span className={item.type === 'income' ? 'text-income' : 'text-expense'}>
+                    {formatCurrency(item.total)}
+                  </span>
+                </span>
+                {category && (
+                  <LedgerCodeInput value={category.ledgerCode} onSave={(code) => saveCategoryCode(category, code)} />
+                )}
+              </div>
+            );
+          })}
+          {validation.uncategorized.count > 0 && (
+            <p>
+              {validation.uncategorized.count} lançamento(s) sem categoria ({formatCurrency(validation.uncategorized.total)}).
+              Categorize-os para exportar.
+            </p>
+          )}
+          {validation.unmappedTransfers.count > 0 && (
+            <p>
+              {validation.unmappedTransfers.count} transferência(s) para contas sem conta contábil (
+              {formatCurrency(validation.unmappedTransfers.total)}).
+            </p>
+          )}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Considera os lançamentos liquidados no mês pela data de pagamento. Saídas debitam a conta da categoria e
+        creditam a conta bancária; entradas fazem o contrário. Transferências saem uma única vez, pela conta de
+        origem.
+      </p>
+
+      <Dialog open={showChart} onOpenChange={setShowChart}>
+        <DialogContent className="sm:max-w-xl max-h-[85vh] overflow-hidden flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Plano de contas</DialogTitle>
+            <DialogDescription>
+              Códigos contábeis usados na exportação. Subcategorias sem código usam o da categoria pai.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+            <div className="flex items-center justify-between gap-3">
+              <Label className="text-sm font-semibold">Conta bancária ({selectedAccount?.name})</Label>
+              <LedgerCodeInput value={selectedAccount?.ledger_code} placeholder="Ex.: 1.1.1.02" onSave={saveAccountCode} />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold text-income">Entradas</Label>
+              {renderChartTree(buildCategoryTree(categories.filter((c) => c.type === 'income')))}
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold text-expense">Saídas</Label>
+              {renderChartTree(buildCategoryTree(categories.filter((c) => c.type === 'expense')))}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ import {
   ResponsiveContainer,
   Legend,
   ComposedChart,
+  ReferenceLine,
 } from 'recharts';
 import {
   format,
@@ -28,6 +29,7 @@ import {
   eachWeekOfInterval,
   eachDayOfInterval,
   isWithinInterval,
+  parseISO,
 } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import {
@@ -40,8 +42,18 @@ import {
   Activity,
   Clock,
   CalendarRange,
+  LineChart as LineChartIcon,
+  AlertTriangle,
+  ArrowLeft,
+  ChevronRight,
 } from 'lucide-react';
-import { Transaction, Category } from '@/types/finance';
+import { Transaction, Category, TransactionType } from '@/types/finance';
+import { excludeTransfers, isTransfer } from '@/lib/transfers';
+import { expandSplits, isSplit } from '@/lib/splits';
+import { forecastCashFlow, FORECAST_HORIZONS } from '@/lib/cashFlowForecast';
+import { aggregateByCategoryGroup, CategoryTotal } from '@/lib/categoryTree';
+import { getReportDate, isReported, ReportingRegime } from '@/lib/reporting';
+import { useReporting } from '@/contexts/ReportingContext';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -56,10 +68,13 @@ import { cn } from '@/lib/utils';
 interface AdvancedChartsProps {
   transactions: Transaction[];
   categories: Category[];
+  initialBalance?: number;
 }
 
 type PeriodType = 'month' | 'quarter' | 'semester' | 'year' | 'custom';
 
+type CategoryShare = CategoryTotal & { percentage: number };
+
 const COLORS = [
   'hsl(192, 70%, 35%)',
   'hsl(160, 60%, 45%)',
@@ -71,6 +86,25 @@ const COLORS = [
   'hsl(100, 60%, 45%)',
 ];
 
+// Totals per category group, or per subcategory of the drilled group
+function getCategoryShares(
+  transactions: Transaction[],
+  categories: Category[],
+  type: TransactionType,
+  group: string | null,
+  regime: ReportingRegime
+): CategoryShare[] {
+  const entries = expandSplits(transactions)
+    .filter((t) => t.type === type && t.category && isReported(t, regime))
+    .map((t) => ({ category: t.category as string, value: t.value }));
+  const totals = aggregateByCategoryGroup(entries, categories.filter((c) => c.type === type), group);
+  const total = totals.reduce((sum, item) => sum + item.value, 0);
+
+  return totals
+    .map((item) => ({ ...item, percentage: total > 0 ? (item.value / total) * 100 : 0 }))
+    .sort((a, b) => b.value - a.value);
+}
+
 const periodLabels: Record<PeriodType, string> = {
   month: 'Mês',
   quarter: 'Trimestre',
@@ -79,8 +113,13 @@ const periodLabels: Record<PeriodType, string> = {
   custom: 'Personalizado',
 };
 
-export function AdvancedCharts({ transactions, categories }: AdvancedChartsProps) {
+export function AdvancedCharts({ transactions, categories, initialBalance = 0 }: AdvancedChartsProps) {
+  const { regime } = useReporting();
   const [period, setPeriod] = useState<PeriodType>('month');
+  const [forecastDays, setForecastDays] = useState(30);
+  // Category group currently expanded in each distribution chart
+  const [expenseDrill, setExpenseDrill] = useState<string | null>(null);
+  const [incomeDrill, setIncomeDrill] = useState<string | null>(null);
   const [customRange, setCustomRange] = useState<{ from: Date | undefined; to: Date | undefined }>({
     from: undefined,
     to: undefined,
@@ -122,23 +161,33 @@ export function AdvancedCharts({ transactions, categories }: AdvancedChartsProps
 
   const filteredTransactions = useMemo(() => {
     return transactions.filter((t) =>
-      isWithinInterval(new Date(t.date), dateRange)
+      isWithinInterval(new Date(getReportDate(t, regime)), dateRange)
     );
-  }, [transactions, dateRange]);
+  }, [transactions, dateRange, regime]);
+
+  // Transfers between accounts are neither income nor expense
+  const operationalTransactions = useMemo(
+    () => excludeTransfers(filteredTransactions),
+    [filteredTransactions]
+  );
 
   // Summary metrics
   const metrics = useMemo(() => {
-    const completed = filteredTransactions.filter(t => t.status === 'completed');
-    const pending = filteredTransactions.filter(t => t.status === 'pending');
+    const completed = operationalTransactions.filter(t => t.status === 'completed');
+    const pending = operationalTransactions.filter(t => t.status === 'pending');
+    const reported = operationalTransactions.filter(t => isReported(t, regime));
 
-    const income = completed
+    const income = reported
       .filter((t) => t.type === 'income')
       .reduce((sum, t) => sum + t.value, 0);
 
-    const expense = completed
+    const expense = reported
       .filter((t) => t.type === 'expense')
       .reduce((sum, t) => sum + t.value, 0);
 
+    // The projection starts from what was settled, so accrual mode doesn't count pending twice
+    const settled = completed.reduce((sum, t) => sum + (t.type === 'income' ? t.value : -t.value), 0);
+
     const toReceive = pending
       .filter((t) => t.type === 'income')
       .reduce((sum, t) => sum + t.value, 0);
@@ -158,8 +207,8 @@ export function AdvancedCharts({ transactions, categories }: AdvancedChartsProps
     };
 
     const previousTransactions = transactions.filter((t) =>
-      isWithinInterval(new Date(t.date), previousRange)
-    ).filter(t => t.status === 'completed');
+      isWithinInterval(new Date(getReportDate(t, regime)), previousRange)
+    ).filter(t => isReported(t, regime) && !isTransfer(t));
 
     const prevIncome = previousTransactions
       .filter((t) => t.type === 'income')
@@ -182,14 +231,14 @@ export function AdvancedCharts({ transactions, categories }: AdvancedChartsProps
       balance,
       toReceive,
       toPay,
-      projectedBalance: balance + toReceive - toPay,
+      projectedBalance: settled + toReceive - toPay,
       profitMargin,
       incomeChange,
       expenseChange,
-      transactionCount: filteredTransactions.length,
+      transactionCount: operationalTransactions.length,
       avgTransaction,
     };
-  }, [filteredTransactions, transactions, dateRange]);
+  }, [operationalTransactions, transactions, dateRange, regime]);
 
   // Balance evolution data
   const balanceEvolution = useMemo(() => {
@@ -220,20 +269,26 @@ export function AdvancedCharts({ transactions, categories }: AdvancedChartsProps
 
     return intervals.map((date, index) => {
       const nextDate = intervals[index + 1] || dateRange.end;
-      const periodTx = filteredTransactions.filter((t) => {
-        const txDate = new Date(t.date);
-        return txDate >= date && txDate < nextDate && t.status === 'completed';
-      });
+      const inInterval = (value: string) => {
+        const txDate = new Date(value);
+        return txDate >= date && txDate < nextDate;
+      };
 
-      const income = periodTx
+      // The balance always moves on cash dates; the bars follow the reporting regime
+      const periodTx = transactions.filter((t) => t.status === 'completed' && inInterval(t.date));
+      const operationalTx = excludeTransfers(transactions).filter(
+        (t) => isReported(t, regime) && inInterval(getReportDate(t, regime))
+      );
+      const income = operationalTx
         .filter((t) => t.type === 'income')
         .reduce((sum, t) => sum + t.value, 0);
 
-      const expense = periodTx
+      const expense = operationalTx
         .filter((t) => t.type === 'expense')
         .reduce((sum, t) => sum + t.value, 0);
 
-      runningBalance += income - expense;
+      // Transfer legs still move this account's balance
+      runningBalance += periodTx.reduce((sum, t) => sum + (t.type === 'income' ? t.value : -t.value), 0);
 
       return {
         label: format(date, formatStr, { locale: ptBR }),
@@ -242,50 +297,19 @@ export function AdvancedCharts({ transactions, categories }: AdvancedChartsProps
         saídas: expense,
       };
     });
-  }, [filteredTransactions, transactions, dateRange]);
+  }, [transactions, dateRange, regime]);
 
   // Category breakdown
-  const categoryBreakdown = useMemo(() => {
-    const expensesByCategory = filteredTransactions
-      .filter((t) => t.type === 'expense' && t.category && t.status === 'completed')
-      .reduce((acc, t) => {
-        const cat = t.category || 'Sem categoria';
-        acc[cat] = (acc[cat] || 0) + t.value;
-        return acc;
-      }, {} as Record<string, number>);
-
-    const total = Object.values(expensesByCategory).reduce((a, b) => a + b, 0);
-
-    return Object.entries(expensesByCategory)
-      .map(([name, value]) => ({
-        name,
-        value,
-        percentage: total > 0 ? (value / total) * 100 : 0,
-      }))
-      .sort((a, b) => b.value - a.value)
-      .slice(0, 8);
-  }, [filteredTransactions]);
+  const categoryBreakdown = useMemo(
+    () => getCategoryShares(operationalTransactions, categories, 'expense', expenseDrill, regime).slice(0, 8),
+    [operationalTransactions, categories, expenseDrill, regime]
+  );
 
   // Income by category
-  const incomeByCategory = useMemo(() => {
-    const incomeByCategory = filteredTransactions
-      .filter((t) => t.type === 'income' && t.category && t.status === 'completed')
-      .reduce((acc, t) => {
-        const cat = t.category || 'Sem categoria';
-        acc[cat] = (acc[cat] || 0) + t.value;
-        return acc;
-      }, {} as Record<string, number>);
-
-    const total = Object.values(incomeByCategory).reduce((a, b) => a + b, 0);
-
-    return Object.entries(incomeByCategory)
-      .map(([name, value]) => ({
-        name,
-        value,
-        percentage: total > 0 ? (value / total) * 100 : 0,
-      }))
-      .sort((a, b) => b.value - a.value);
-  }, [filteredTransactions]);
+  const incomeByCategory = useMemo(
+    () => getCategoryShares(operationalTransactions, categories, 'income', incomeDrill, regime),
+    [operationalTransactions, categories, incomeDrill, regime]
+  );
 
   // Monthly comparison for longer periods
   const monthlyComparison = useMemo(() => {
@@ -297,9 +321,9 @@ export function AdvancedCharts({ transactions, categories }: AdvancedChartsProps
       const monthStart = startOfMonth(month);
       const monthEnd = endOfMonth(month);
 
-      const monthTx = filteredTransactions.filter((t) =>
-        isWithinInterval(new Date(t.date), { start: monthStart, end: monthEnd }) &&
-        t.status === 'completed'
+      const monthTx = operationalTransactions.filter((t) =>
+        isWithinInterval(new Date(getReportDate(t, regime)), { start: monthStart, end: monthEnd }) &&
+        isReported(t, regime)
       );
 
       const income = monthTx
@@ -317,15 +341,30 @@ export function AdvancedCharts({ transactions, categories }: AdvancedChartsProps
         resultado: income - expense,
       };
     });
-  }, [filteredTransactions, dateRange]);
+  }, [operationalTransactions, dateRange, regime]);
+
+  // Projected daily balance from today, independent of the selected period
+  const forecast = useMemo(() => {
+    const result = forecastCashFlow(transactions, initialBalance, forecastDays);
+    return {
+      ...result,
+      data: result.points.map((point) => ({
+        label: format(parseISO(point.date), 'dd/MM'),
+        saldo: point.balance,
+      })),
+      firstNegativeLabel: result.firstNegativeDate
+        ? format(parseISO(result.firstNegativeDate), 'dd/MM')
+        : null,
+    };
+  }, [transactions, initialBalance, forecastDays]);
 
   // Top expenses
   const topExpenses = useMemo(() => {
-    return filteredTransactions
-      .filter((t) => t.type === 'expense' && t.status === 'completed')
+    return operationalTransactions
+      .filter((t) => t.type === 'expense' && isReported(t, regime))
       .sort((a, b) => b.value - a.value)
       .slice(0, 5);
-  }, [filteredTransactions]);
+  }, [operationalTransactions, regime]);
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
@@ -347,6 +386,110 @@ export function AdvancedCharts({ transactions, categories }: AdvancedChartsProps
     return null;
   };
 
+  const getParentGroup = (group: string) => {
+    const parentId = categories.find((c) => c.name === group)?.parentId;
+    return categories.find((c) => c.id === parentId)?.name ?? null;
+  };
+
+  const renderDistributionTitle = (
+    title: string,
+    iconClassName: string,
+    group: string | null,
+    onDrill: (group: string | null) => void
+  ) => (
+    <h3 className="font-semibold mb-4 flex items-center gap-2">
+      {group ? (
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onDrill(getParentGroup(group))} title="Voltar">
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+      ) : (
+        <PieChartIcon className={cn('h-5 w-5', iconClassName)} />
+      )}
+      {title}
+      {group && <span className="text-muted-foreground font-normal truncate">› {group}</span>}
+    </h3>
+  );
+
+  // Groups with subcategories can be clicked to expand them
+  const renderDistribution = (
+    data: CategoryShare[],
+    onDrill: (group: string | null) => void,
+    emptyMessage: string
+  ) =>
+    data.length > 0 ? (
+      <div className="flex flex-col gap-4">
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <PieChart>
+              <Pie
+                data={data}
+                dataKey="value"
+                nameKey="name"
+                cx="50%"
+                cy="50%"
+                outerRadius={80}
+                innerRadius={50}
+                paddingAngle={2}
+                onClick={(entry: CategoryShare) => entry.hasChildren && onDrill(entry.name)}
+              >
+                {data.map((item, index) => (
+                  <Cell
+                    key={index}
+                    fill={COLORS[index % COLORS.length]}
+                    className={cn(item.hasChildren && 'cursor-pointer')}
+                  />
+                ))}
+              </Pie>
+              <Tooltip content={<CustomTooltip />} />
+            </PieChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="space-y-2">
+          {data.map((item, index) => (
+            <button
+              key={item.name}
+              type="button"
+              className={cn(
+                'w-full flex items-center gap-3 text-left rounded-md',
+                item.hasChildren ? 'hover:bg-muted/50' : 'cursor-default'
+              )}
+              onClick={() => item.hasChildren && onDrill(item.name)}
+            >
+              <div
+                className="w-3 h-3 rounded-full flex-shrink-0"
+                style={{ backgroundColor: COLORS[index % COLORS.length] }}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="truncate flex items-center gap-1">
+                    {item.name}
+                    {item.hasChildren && <ChevronRight className="h-3 w-3 text-muted-foreground" />}
+                  </span>
+                  <span className="font-medium">{formatCurrency(item.value)}</span>
+                </div>
+                <div className="w-full bg-muted rounded-full h-1.5 mt-1">
+                  <div
+                    className="h-1.5 rounded-full transition-all"
+                    style={{
+                      width: `${item.percentage}%`,
+                      backgroundColor: COLORS[index % COLORS.length],
+                    }}
+                  />
+                </div>
+              </div>
+              <span className="text-xs text-muted-foreground w-12 text-right">
+                {item.percentage.toFixed(0)}%
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+    ) : (
+      <div className="h-48 flex items-center justify-center text-muted-foreground">
+        {emptyMessage}
+      </div>
+    );
+
   const TrendIcon = ({ value }: { value: number }) => {
     if (value > 0) return <TrendingUp className="h-4 w-4 text-income" />;
     if (value < 0) return <TrendingDown className="h-4 w-4 text-expense" />;
@@ -521,6 +664,86 @@ export function AdvancedCharts({ transactions, categories }: AdvancedChartsProps
         </div>
       </Card>
 
+      {/* Cash Flow Forecast */}
+      <Card className="p-5">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+          <h3 className="font-semibold flex items-center gap-2">
+            <LineChartIcon className="h-5 w-5 text-primary" />
+            Projeção de Saldo
+          </h3>
+          <Tabs value={String(forecastDays)} onValueChange={(v) => setForecastDays(Number(v))}>
+            <TabsList>
+              {FORECAST_HORIZONS.map((days) => (
+                <TabsTrigger key={days} value={String(days)}>
+                  {days} dias
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+        {forecast.firstNegativeDate ? (
+          <div className="flex items-center gap-2 p-3 mb-4 rounded-lg bg-expense-muted text-sm text-expense">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            O saldo fica negativo em{' '}
+            {format(parseISO(forecast.firstNegativeDate), "dd 'de' MMMM", { locale: ptBR })}
+            {' '}(mínimo de {formatCurrency(forecast.lowestBalance)})
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground mb-4">
+            Menor saldo previsto: {formatCurrency(forecast.lowestBalance)}
+          </p>
+        )}
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={forecast.data}>
+              <defs>
+                <linearGradient id="colorForecast" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="hsl(192, 70%, 35%)" stopOpacity={0.3} />
+                  <stop offset="95%" stopColor="hsl(192, 70%, 35%)" stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(214, 20%, 90%)" />
+              <XAxis
+                dataKey="label"
+                tick={{ fontSize: 11 }}
+                tickLine={false}
+                axisLine={false}
+                interval="preserveStartEnd"
+              />
+              <YAxis
+                tickFormatter={formatCompact}
+                tick={{ fontSize: 11 }}
+                tickLine={false}
+                axisLine={false}
+              />
+              <Tooltip content={<CustomTooltip />} />
+              <ReferenceLine y={0} stroke="hsl(10, 78%, 54%)" strokeDasharray="4 4" />
+              {forecast.firstNegativeLabel && (
+                <ReferenceLine
+                  x={forecast.firstNegativeLabel}
+                  stroke="hsl(10, 78%, 54%)"
+                  label={{ value: 'Saldo negativo', position: 'top', fontSize: 11, fill: 'hsl(10, 78%, 54%)' }}
+                />
+              )}
+              <Area
+                type="stepAfter"
+                dataKey="saldo"
+                stroke="hsl(192, 70%, 35%)"
+                strokeWidth={2}
+                fill="url(#colorForecast)"
+                name="Saldo previsto"
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+        {forecast.patterns.length > 0 && (
+          <p className="text-xs text-muted-foreground mt-3">
+            Inclui {forecast.patterns.length} lançamento(s) recorrente(s) identificado(s) no histórico, como{' '}
+            {forecast.patterns.slice(0, 3).map((p) => p.description).join(', ')}.
+          </p>
+        )}
+      </Card>
+
       {/* Monthly Comparison (for longer periods) */}
       {monthlyComparison.length > 0 && (
         <Card className="p-5">
@@ -559,132 +782,14 @@ export function AdvancedCharts({ transactions, categories }: AdvancedChartsProps
       <div className="grid gap-6 lg:grid-cols-2">
         {/* Expense Distribution */}
         <Card className="p-5">
-          <h3 className="font-semibold mb-4 flex items-center gap-2">
-            <PieChartIcon className="h-5 w-5 text-expense" />
-            Saídas por Categoria
-          </h3>
-          {categoryBreakdown.length > 0 ? (
-            <div className="flex flex-col gap-4">
-              <div className="h-48">
-                <ResponsiveContainer width="100%" height="100%">
-                  <PieChart>
-                    <Pie
-                      data={categoryBreakdown}
-                      dataKey="value"
-                      nameKey="name"
-                      cx="50%"
-                      cy="50%"
-                      outerRadius={80}
-                      innerRadius={50}
-                      paddingAngle={2}
-                    >
-                      {categoryBreakdown.map((_, index) => (
-                        <Cell key={index} fill={COLORS[index % COLORS.length]} />
-                      ))}
-                    </Pie>
-                    <Tooltip content={<CustomTooltip />} />
-                  </PieChart>
-                </ResponsiveContainer>
-              </div>
-              <div className="space-y-2">
-                {categoryBreakdown.map((item, index) => (
-                  <div key={item.name} className="flex items-center gap-3">
-                    <div
-                      className="w-3 h-3 rounded-full flex-shrink-0"
-                      style={{ backgroundColor: COLORS[index % COLORS.length] }}
-                    />
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center justify-between text-sm">
-                        <span className="truncate">{item.name}</span>
-                        <span className="font-medium">{formatCurrency(item.value)}</span>
-                      </div>
-                      <div className="w-full bg-muted rounded-full h-1.5 mt-1">
-                        <div
-                          className="h-1.5 rounded-full transition-all"
-                          style={{
-                            width: `${item.percentage}%`,
-                            backgroundColor: COLORS[index % COLORS.length],
-                          }}
-                        />
-                      </div>
-                    </div>
-                    <span className="text-xs text-muted-foreground w-12 text-right">
-                      {item.percentage.toFixed(0)}%
-                    </span>
-                  </div>
-                ))}
-              </div>
-            </div>
-          ) : (
-            <div className="h-48 flex items-center justify-center text-muted-foreground">
-              Nenhuma despesa categorizada
-            </div>
-          )}
+          {renderDistributionTitle('Saídas por Categoria', 'text-expense', expenseDrill, setExpenseDrill)}
+          {renderDistribution(categoryBreakdown, setExpenseDrill, 'Nenhuma despesa categorizada')}
         </Card>
 
         {/* Income Distribution */}
         <Card className="p-5">
-          <h3 className="font-semibold mb-4 flex items-center gap-2">
-            <PieChartIcon className="h-5 w-5 text-income" />
-            Entradas por Categoria
-          </h3>
-          {incomeByCategory.length > 0 ? (
-            <div className="flex flex-col gap-4">
-              <div className="h-48">
-                <ResponsiveContainer width="100%" height="100%">
-                  <PieChart>
-                    <Pie
-                      data={incomeByCategory}
-                      dataKey="value"
-                      nameKey="name"
-                      cx="50%"
-                      cy="50%"
-                      outerRadius={80}
-                      innerRadius={50}
-                      paddingAngle={2}
-                    >
-                      {incomeByCategory.map((_, index) => (
-                        <Cell key={index} fill={COLORS[index % COLORS.length]} />
-                      ))}
-                    </Pie>
-                    <Tooltip content={<CustomTooltip />} />
-                  </PieChart>
-                </ResponsiveContainer>
-              </div>
-              <div className="space-y-2">
-                {incomeByCategory.map((item, index) => (
-                  <div key={item.name} className="flex items-center gap-3">
-                    <div
-                      className="w-3 h-3 rounded-full flex-shrink-0"
-                      style={{ backgroundColor: COLORS[index % COLORS.length] }}
-                    />
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center justify-between text-sm">
-                        <span className="truncate">{item.name}</span>
-                        <span className="font-medium">{formatCurrency(item.value)}</span>
-                      </div>
-                      <div className="w-full bg-muted rounded-full h-1.5 mt-1">
-                        <div
-                          className="h-1.5 rounded-full transition-all"
-                          style={{
-                            width: `${item.percentage}%`,
-                            backgroundColor: COLORS[index % COLORS.length],
-                          }}
-                        />
-                      </div>
-                    </div>
-                    <span className="text-xs text-muted-foreground w-12 text-right">
-                      {item.percentage.toFixed(0)}%
-                    </span>
-                  </div>
-                ))}
-              </div>
-            </div>
-          ) : (
-            <div className="h-48 flex items-center justify-center text-muted-foreground">
-              Nenhuma entrada categorizada
-            </div>
-          )}
+          {renderDistributionTitle('Entradas por Categoria', 'text-income', incomeDrill, setIncomeDrill)}
+          {renderDistribution(incomeByCategory, setIncomeDrill, 'Nenhuma entrada categorizada')}
         </Card>
       </div>
 
@@ -704,7 +809,10 @@ export function AdvancedCharts({ transactions, categories }: AdvancedChartsProps
                 <div className="flex-1 min-w-0">
                   <p className="font-medium truncate">{expense.description}</p>
                   <p className="text-xs text-muted-foreground">
-                    {expense.category || 'Sem categoria'} • {format(new Date(expense.date), "dd 'de' MMM", { locale: ptBR })}
+                    {isSplit(expense)
+                      ? `Dividido em ${expense.splits!.length} categorias`
+                      : expense.category || 'Sem categoria'}{' '}
+                    • {format(new Date(getReportDate(expense, regime)), "dd 'de' MMM", { locale: ptBR })}
                   </p>
                 </div>
                 <span className="font-semibold text-expense">
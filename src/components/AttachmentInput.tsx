@@ -0,0 +1,117 @@
+import { useRef } from 'react';
+import { FileText, Image, Paperclip, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ACCEPTED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  formatFileSize,
+  isAcceptedAttachment,
+  isImageAttachment,
+} from '@/lib/attachments';
+import { TransactionAttachment } from '@/types/finance';
+
+interface AttachmentInputProps {
+  files: File[];
+  onFilesChange: (files: File[]) => void;
+  existing?: TransactionAttachment[];
+  onRemoveExisting?: (attachment: TransactionAttachment) => void;
+}
+
+// Files picked here are only uploaded, and existing ones removed, when the form is saved
+export function AttachmentInput({ files, onFilesChange, existing = [], onRemoveExisting }: AttachmentInputProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSelect = (selected: FileList | null) => {
+    if (!selected) return;
+
+    const picked = Array.from(selected);
+    const accepted = picked.filter(isAcceptedAttachment);
+    if (accepted.length < picked.length) {
+      toast({
+        title: 'Arquivo não aceito',
+        description: `Envie imagens ou PDF de até ${formatFileSize(MAX_ATTACHMENT_SIZE)}.`,
+        variant: 'destructive',
+      });
+    }
+
+    onFilesChange([...files, ...accepted]);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>
+          Comprovantes <span className="text-xs font-normal text-muted-foreground">(opcional)</span>
+        </Label>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="text-xs text-primary hover:underline flex items-center gap-1"
+        >
+          <Paperclip className="h-3 w-3" />
+          Anexar arquivo
+        </button>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept={ACCEPTED_ATTACHMENT_TYPES.join(',')}
+        className="hidden"
+        onChange={(e) => handleSelect(e.target.files)}
+      />
+      {existing.length + files.length > 0 && (
+        <div className="space-y-1">
+          {existing.map((attachment) => (
+            <div key={attachment.id} className="flex items-center gap-2 rounded-md bg-muted/50 px-2 py-1 text-sm">
+              {isImageAttachment(attachment) ? (
+                <Image className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+              ) : (
+                <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+              )}
+              <span className="flex-1 truncate">{attachment.fileName}</span>
+              <span className="text-xs text-muted-foreground">{formatFileSize(attachment.sizeBytes)}</span>
+              {onRemoveExisting && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => onRemoveExisting(attachment)}
+                  title="Remover comprovante"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+          {files.map((file, index) => (
+            <div key={`${file.name}-${index}`} className="flex items-center gap-2 rounded-md bg-muted/50 px-2 py-1 text-sm">
+              {file.type.startsWith('image/') ? (
+                <Image className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+              ) : (
+                <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+              )}
+              <span className="flex-1 truncate">{file.name}</span>
+              <span className="text-xs text-muted-foreground">{formatFileSize(file.size)}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => onFilesChange(files.filter((_, i) => i !== index))}
+                title="Remover arquivo"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Download, FileText, Image, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Transaction, TransactionAttachment } from '@/types/finance';
+import { formatFileSize, isImageAttachment, isPdfAttachment } from '@/lib/attachments';
+import { cn } from '@/lib/utils';
+
+interface AttachmentPreviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  transaction: Transaction | null;
+  onGetUrl: (attachment: TransactionAttachment) => Promise<string | null>;
+  onDelete?: (attachment: TransactionAttachment) => void | Promise<void>;
+}
+
+export function AttachmentPreviewDialog({
+  open,
+  onOpenChange,
+  transaction,
+  onGetUrl,
+  onDelete,
+}: AttachmentPreviewDialogProps) {
+  const attachments = transaction?.attachments || [];
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const selected = attachments.find((a) => a.id === selectedId) || attachments[0] || null;
+
+  useEffect(() => {
+    if (!open) setSelectedId(null);
+  }, [open]);
+
+  // Signed URLs expire, so each preview asks for a fresh one
+  useEffect(() => {
+    if (!open || !selected) {
+      setUrl(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    onGetUrl(selected).then((signedUrl) => {
+      if (cancelled) return;
+      setUrl(signedUrl);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, selected, onGetUrl]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Comprovantes</DialogTitle>
+          {transaction && (
+            <DialogDescription>
+              {transaction.description} • {format(new Date(transaction.date), 'dd/MM/yyyy')}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {attachments.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Nenhum comprovante anexado a este lançamento.
+          </p>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-[220px_1fr]">
+            <div className="space-y-1">
+              {attachments.map((attachment) => (
+                <div
+                  key={attachment.id}
+                  className={cn(
+                    'flex items-center gap-2 rounded-md px-2 py-1.5 text-sm cursor-pointer hover:bg-muted',
+                    selected?.id === attachment.id && 'bg-primary/10 text-primary'
+                  )}
+                  onClick={() => setSelectedId(attachment.id)}
+                >
+                  {isImageAttachment(attachment) ? (
+                    <Image className="h-4 w-4 flex-shrink-0" />
+                  ) : (
+                    <FileText className="h-4 w-4 flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate">{attachment.fileName}</p>
+                    <p className="text-xs text-muted-foreground">{formatFileSize(attachment.sizeBytes)}</p>
+                  </div>
+                  {onDelete && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-destructive"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onDelete(attachment);
+                      }}
+                      title="Excluir comprovante"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="min-h-[300px] rounded-lg border border-border bg-muted/30 flex items-center justify-center overflow-hidden">
+              {isLoading ? (
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              ) : !url || !selected ? (
+                <p className="text-sm text-muted-foreground">Não foi possível carregar o arquivo.</p>
+              ) : isImageAttachment(selected) ? (
+                <img src={url} alt={selected.fileName} className="max-h-[60vh] max-w-full object-contain" />
+              ) : isPdfAttachment(selected) ? (
+                <iframe src={url} title={selected.fileName} className="w-full h-[60vh]" />
+              ) : (
+                <p className="text-sm text-muted-foreground">Pré-visualização indisponível.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {url && selected && (
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" asChild>
+              <a href={url} target="_blank" rel="noreferrer" download={selected.fileName}>
+                <Download className="h-4 w-4 mr-1" />
+                Baixar
+              </a>
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
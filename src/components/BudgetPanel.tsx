@@ -0,0 +1,212 @@
+import { useMemo, useState } from 'react';
+import { addMonths, format, parseISO, subMonths } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ChevronLeft, ChevronRight, Copy, Target } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Budget, Category, Transaction } from '@/types/finance';
+import { getBudgetProgress, toBudgetMonth, BudgetStatus } from '@/lib/budgets';
+import { useReporting } from '@/contexts/ReportingContext';
+import { cn } from '@/lib/utils';
+
+interface BudgetPanelProps {
+  budgets: Budget[];
+  categories: Category[];
+  transactions: Transaction[];
+  onSetBudget: (category: string, month: string, amount: number) => Promise<string | null>;
+  onDeleteBudget: (id: string) => Promise<boolean>;
+  onCopyFromPreviousMonth: (month: string) => Promise<number>;
+}
+
+const statusStyles: Record<BudgetStatus, string> = {
+  ok: '[&>div]:bg-income',
+  warning: '[&>div]:bg-warning',
+  over: '[&>div]:bg-expense',
+};
+
+export function BudgetPanel({
+  budgets,
+  categories,
+  transactions,
+  onSetBudget,
+  onDeleteBudget,
+  onCopyFromPreviousMonth,
+}: BudgetPanelProps) {
+  const [month, setMonth] = useState(() => toBudgetMonth(new Date()));
+  const [editingCategory, setEditingCategory] = useState<string | null>(null);
+  const [draftAmount, setDraftAmount] = useState('');
+  const [isCopying, setIsCopying] = useState(false);
+  const { regime } = useReporting();
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  const progress = useMemo(
+    () => getBudgetProgress(budgets, transactions, month, regime),
+    [budgets, transactions, month, regime]
+  );
+
+  const expenseCategories = categories.filter((c) => c.type === 'expense');
+  const unbudgeted = expenseCategories.filter(
+    (c) => !progress.some((p) => p.budget.category === c.name)
+  );
+  const previousMonth = toBudgetMonth(subMonths(parseISO(month), 1));
+  const canCopy = progress.length < expenseCategories.length && budgets.some((b) => b.month === previousMonth);
+
+  const totalBudget = progress.reduce((sum, p) => sum + p.budget.amount, 0);
+  const totalSpent = progress.reduce((sum, p) => sum + p.spent, 0);
+
+  const startEdit = (category: string, amount?: number) => {
+    setEditingCategory(category);
+    setDraftAmount(amount ? amount.toString().replace('.', ',') : '');
+  };
+
+  const saveEdit = async () => {
+    if (!editingCategory) return;
+    const amount = parseFloat(draftAmount.replace(',', '.'));
+    const current = progress.find((p) => p.budget.category === editingCategory);
+
+    if (!draftAmount.trim() && current) {
+      await onDeleteBudget(current.budget.id);
+    } else if (!isNaN(amount) && amount > 0) {
+      await onSetBudget(editingCategory, month, amount);
+    }
+    setEditingCategory(null);
+  };
+
+  const handleCopy = async () => {
+    setIsCopying(true);
+    await onCopyFromPreviousMonth(month);
+    setIsCopying(false);
+  };
+
+  const renderAmountInput = () => (
+    <Input
+      autoFocus
+      value={draftAmount}
+      onChange={(e) => setDraftAmount(e.target.value)}
+      onBlur={saveEdit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') saveEdit();
+        if (e.key === 'Escape') setEditingCategory(null);
+      }}
+      placeholder="0,00"
+      className="h-7 w-28 text-right"
+    />
+  );
+
+  return (
+    <div className="bg-card rounded-xl p-5 shadow-card space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Target className="h-5 w-5 text-primary" />
+          Orçamento
+        </h3>
+        <div className="flex items-center gap-2">
+          {canCopy && (
+            <Button variant="outline" size="sm" onClick={handleCopy} disabled={isCopying}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copiar mês anterior
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setMonth(toBudgetMonth(subMonths(parseISO(month), 1)))}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium capitalize w-32 text-center">
+            {format(parseISO(month), 'MMMM yyyy', { locale: ptBR })}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setMonth(toBudgetMonth(addMonths(parseISO(month), 1)))}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {progress.length > 0 && (
+        <div className="flex items-center justify-between text-sm p-3 rounded-lg bg-muted">
+          <span className="text-muted-foreground">Total orçado</span>
+          <span className={cn('font-semibold', totalSpent > totalBudget && 'text-expense')}>
+            {formatCurrency(totalSpent)} de {formatCurrency(totalBudget)}
+          </span>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {progress.map(({ budget, spent, remaining, ratio, status }) => (
+          <div key={budget.id} className="space-y-1">
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="font-medium truncate">{budget.category}</span>
+              {editingCategory === budget.category ? (
+                renderAmountInput()
+              ) : (
+                <button
+                  className="text-muted-foreground hover:text-foreground whitespace-nowrap"
+                  onClick={() => startEdit(budget.category, budget.amount)}
+                  title="Alterar orçamento"
+                >
+                  {formatCurrency(spent)} / {formatCurrency(budget.amount)}
+                </button>
+              )}
+            </div>
+            <Progress value={Math.min(ratio * 100, 100)} className={cn('h-2', statusStyles[status])} />
+            <p className={cn(
+              'text-xs',
+              status === 'over' ? 'text-expense font-medium' : status === 'warning' ? 'text-warning' : 'text-muted-foreground'
+            )}>
+              {status === 'over'
+                ? `Estourado em ${formatCurrency(-remaining)} (${Math.round(ratio * 100)}%)`
+                : `${Math.round(ratio * 100)}% usado · restam ${formatCurrency(remaining)}`}
+            </p>
+          </div>
+        ))}
+
+        {progress.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-2">
+            Nenhum orçamento definido para este mês
+          </p>
+        )}
+      </div>
+
+      {unbudgeted.length > 0 && (
+        <div className="pt-3 border-t border-border space-y-2">
+          <p className="text-xs text-muted-foreground">Sem orçamento</p>
+          <div className="flex flex-wrap gap-2">
+            {unbudgeted.map((category) =>
+              editingCategory === category.name ? (
+                <div key={category.id} className="flex items-center gap-2">
+                  <span className="text-sm">{category.name}</span>
+                  {renderAmountInput()}
+                </div>
+              ) : (
+                <Button
+                  key={category.id}
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => startEdit(category.name)}
+                >
+                  <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: category.color }} />
+                  {category.name}
+                </Button>
+              )
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import { useState, useMemo } from 'react';
+import { Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  CSVMapping,
+  CSVDelimiter,
+  CSVEncoding,
+  CSVDateFormat,
+  CSVDecimalStyle,
+  CSV_DELIMITERS,
+  CSV_DATE_FORMATS,
+  decodeCSV,
+  splitCSVRows,
+  parseCSV,
+} from '@/lib/csvParser';
+
+interface CSVMappingStepProps {
+  buffer: ArrayBuffer;
+  fileName: string;
+  initialMapping: CSVMapping;
+  initialProfileName?: string;
+  onCancel: () => void;
+  onConfirm: (mapping: CSVMapping, saveAsProfile: string | null) => void | Promise<void>;
+}
+
+const NONE = 'none';
+
+export function CSVMappingStep({
+  buffer,
+  fileName,
+  initialMapping,
+  initialProfileName,
+  onCancel,
+  onConfirm,
+}: CSVMappingStepProps) {
+  const [mapping, setMapping] = useState<CSVMapping>(initialMapping);
+  const [saveProfile, setSaveProfile] = useState(!!initialProfileName);
+  const [profileName, setProfileName] = useState(initialProfileName || '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const content = useMemo(() => decodeCSV(buffer, mapping.encoding), [buffer, mapping.encoding]);
+  const rows = useMemo(() => splitCSVRows(content, mapping.delimiter), [content, mapping.delimiter]);
+  const recognizedCount = useMemo(() => parseCSV(content, mapping).length, [content, mapping]);
+
+  const columnCount = Math.max(0, ...rows.slice(0, 20).map(r => r.length));
+  const header = mapping.hasHeader ? rows[0] || [] : [];
+  const sampleRows = rows.slice(mapping.hasHeader ? 1 : 0, (mapping.hasHeader ? 1 : 0) + 5);
+
+  const columnOptions = Array.from({ length: columnCount }, (_, i) => ({
+    value: String(i),
+    label: header[i] ? `${i + 1}. ${header[i]}` : `Coluna ${i + 1}`,
+  }));
+
+  const update = (changes: Partial<CSVMapping>) => setMapping(prev => ({ ...prev, ...changes }));
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    try {
+      await onConfirm(mapping, saveProfile && profileName.trim() ? profileName.trim() : null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderColumnSelect = (
+    label: string,
+    value: number | null,
+    onChange: (value: number | null) => void,
+    optional = false
+  ) => (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Select
+        value={value === null ? NONE : String(value)}
+        onValueChange={(v) => onChange(v === NONE ? null : Number(v))}
+      >
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value={NONE}>Não usar</SelectItem>}
+          {columnOptions.map(opt => (
+            <SelectItem key={opt.value} value={opt.value}>
+              {opt.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground truncate">
+        Configure como ler <span className="font-medium text-foreground">{fileName}</span>
+      </p>
+
+      {/* File format */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Delimitador</Label>
+          <Select value={mapping.delimiter} onValueChange={(v) => update({ delimiter: v as CSVDelimiter })}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CSV_DELIMITERS.map(d => (
+                <SelectItem key={d.label} value={d.value}>
+                  {d.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Codificação</Label>
+          <Select value={mapping.encoding} onValueChange={(v) => update({ encoding: v as CSVEncoding })}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="utf-8">UTF-8</SelectItem>
+              <SelectItem value="latin1">Latin-1 (ISO-8859-1)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Formato de data</Label>
+          <Select value={mapping.dateFormat} onValueChange={(v) => update({ dateFormat: v as CSVDateFormat })}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CSV_DATE_FORMATS.map(f => (
+                <SelectItem key={f} value={f}>
+                  {f}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Decimal</Label>
+          <Select value={mapping.decimalStyle} onValueChange={(v) => update({ decimalStyle: v as CSVDecimalStyle })}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="comma">1.234,56</SelectItem>
+              <SelectItem value="dot">1,234.56</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <Checkbox
+          checked={mapping.hasHeader}
+          onCheckedChange={(checked) => update({ hasHeader: checked === true })}
+        />
+        Primeira linha é cabeçalho
+      </label>
+
+      {/* Column mapping */}
+      <div className="grid grid-cols-2 gap-3">
+        {renderColumnSelect('Data', mapping.dateColumn, (v) => update({ dateColumn: v ?? 0 }))}
+        {renderColumnSelect('Descrição', mapping.descriptionColumn, (v) => update({ descriptionColumn: v ?? 0 }))}
+        {renderColumnSelect('Valor', mapping.valueColumn, (v) => update({ valueColumn: v ?? 0 }))}
+        {renderColumnSelect('Débito/Crédito', mapping.indicatorColumn, (v) => update({ indicatorColumn: v }), true)}
+        {renderColumnSelect('Saldo', mapping.balanceColumn, (v) => update({ balanceColumn: v }), true)}
+      </div>
+
+      {/* Sample */}
+      <div className="max-h-36 overflow-auto rounded-lg border text-xs">
+        <table className="w-full">
+          <tbody>
+            {sampleRows.map((row, i) => (
+              <tr key={i} className="border-b last:border-0">
+                {Array.from({ length: columnCount }, (_, c) => (
+                  <td key={c} className="px-2 py-1 whitespace-nowrap">
+                    {row[c] ?? ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {recognizedCount} lançamento{recognizedCount !== 1 ? 's' : ''} reconhecido{recognizedCount !== 1 ? 's' : ''} com este mapeamento
+      </p>
+
+      {/* Profile */}
+      <div className="space-y-2 p-3 bg-muted rounded-lg">
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox checked={saveProfile} onCheckedChange={(checked) => setSaveProfile(checked === true)} />
+          <Save className="h-4 w-4" />
+          Salvar como perfil desta conta
+        </label>
+        {saveProfile && (
+          <Input
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder="Ex: Sicoob, Inter"
+            className="h-8"
+          />
+        )}
+      </div>
+
+      <div className="flex gap-3">
+        <Button variant="outline" className="flex-1" onClick={onCancel} disabled={isSaving}>
+          Voltar
+        </Button>
+        <Button
+          className="flex-1"
+          onClick={handleConfirm}
+          disabled={isSaving || recognizedCount === 0 || (saveProfile && !profileName.trim())}
+        >
+          Continuar
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+import { useState } from 'react';
+import { Pencil, Trash2, Plus, X, Check, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Category,
+  CategorizationRule,
+  PaymentMethod,
+  RuleOperator,
+  Transaction,
+  TransactionType,
+  PAYMENT_METHODS,
+  RULE_OPERATORS,
+} from '@/types/finance';
+import { ruleMatches, hasConditions } from '@/lib/categorizationRules';
+import { excludeTransfers } from '@/lib/transfers';
+
+interface CategorizationRulesPanelProps {
+  rules: CategorizationRule[];
+  categories: Category[];
+  transactions: Transaction[];
+  onAddRule: (rule: Omit<CategorizationRule, 'id'>) => Promise<CategorizationRule | null>;
+  onUpdateRule: (id: string, rule: Omit<CategorizationRule, 'id'>) => Promise<boolean>;
+  onDeleteRule: (id: string) => Promise<boolean>;
+  onApplyToUncategorized: () => Promise<number>;
+}
+
+const ANY = 'any';
+
+const EMPTY_RULE: Omit<CategorizationRule, 'id'> = {
+  name: '',
+  priority: 10,
+  descriptionOperator: 'contains',
+  descriptionPattern: '',
+  minValue: null,
+  maxValue: null,
+  matchType: null,
+  setCategory: null,
+  setPaymentMethod: null,
+  setType: null,
+  isActive: true,
+};
+
+export function CategorizationRulesPanel({
+  rules,
+  categories,
+  transactions,
+  onAddRule,
+  onUpdateRule,
+  onDeleteRule,
+  onApplyToUncategorized,
+}: CategorizationRulesPanelProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Omit<CategorizationRule, 'id'>>(EMPTY_RULE);
+  const [minValue, setMinValue] = useState('');
+  const [maxValue, setMaxValue] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const isEditing = editingId !== null;
+
+  const parseValue = (value: string) => {
+    const parsed = parseFloat(value.replace(/\./g, '').replace(',', '.'));
+    return Number.isFinite(parsed) ? parsed : null;
+  };
+
+  const draftRule: Omit<CategorizationRule, 'id'> = {
+    ...draft,
+    minValue: parseValue(minValue),
+    maxValue: parseValue(maxValue),
+  };
+
+  // How many uncategorized transactions the draft would touch
+  const draftMatchCount = isEditing && hasConditions(draftRule)
+    ? excludeTransfers(transactions).filter(t => !t.category && ruleMatches({ ...draftRule, id: '' }, t)).length
+    : 0;
+
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+  const startEdit = (rule?: CategorizationRule) => {
+    setEditingId(rule?.id ?? 'new');
+    setDraft(rule ? { ...rule } : { ...EMPTY_RULE, priority: (rules[rules.length - 1]?.priority ?? 0) + 10 });
+    setMinValue(rule?.minValue != null ? String(rule.minValue).replace('.', ',') : '');
+    setMaxValue(rule?.maxValue != null ? String(rule.maxValue).replace('.', ',') : '');
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setDraft(EMPTY_RULE);
+  };
+
+  const saveRule = async () => {
+    if (!draftRule.name.trim() || !hasConditions(draftRule)) return;
+    setIsLoading(true);
+    const rule = { ...draftRule, name: draftRule.name.trim() };
+    if (editingId === 'new') {
+      await onAddRule(rule);
+    } else if (editingId) {
+      await onUpdateRule(editingId, rule);
+    }
+    setIsLoading(false);
+    cancelEdit();
+  };
+
+  const handleApply = async () => {
+    setIsLoading(true);
+    await onApplyToUncategorized();
+    setIsLoading(false);
+  };
+
+  const describeRule = (rule: CategorizationRule) => {
+    const conditions: string[] = [];
+    if (rule.descriptionPattern) {
+      const operator = RULE_OPERATORS.find(o => o.value === rule.descriptionOperator)?.label ?? 'Contém';
+      conditions.push(`${operator.toLowerCase()} "${rule.descriptionPattern}"`);
+    }
+    if (rule.minValue !== null && rule.maxValue !== null) {
+      conditions.push(`entre ${formatCurrency(rule.minValue)} e ${formatCurrency(rule.maxValue)}`);
+    } else if (rule.minValue !== null) {
+      conditions.push(`a partir de ${formatCurrency(rule.minValue)}`);
+    } else if (rule.maxValue !== null) {
+      conditions.push(`até ${formatCurrency(rule.maxValue)}`);
+    }
+    if (rule.matchType) conditions.push(rule.matchType === 'income' ? 'entradas' : 'saídas');
+
+    const actions: string[] = [];
+    if (rule.setCategory) actions.push(rule.setCategory);
+    if (rule.setPaymentMethod) {
+      actions.push(PAYMENT_METHODS.find(m => m.value === rule.setPaymentMethod)?.label ?? rule.setPaymentMethod);
+    }
+    if (rule.setType) actions.push(rule.setType === 'income' ? 'Entrada' : 'Saída');
+
+    return `${conditions.join(', ')} → ${actions.join(', ') || 'nenhuma ação'}`;
+  };
+
+  const renderForm = () => (
+    <div className="p-4 bg-primary/5 rounded-lg border border-primary/20 space-y-3">
+      <div className="flex gap-2">
+        <Input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="Nome da regra"
+          className="flex-1"
+          autoFocus
+        />
+        <Input
+          type="number"
+          value={draft.priority}
+          onChange={(e) => setDraft({ ...draft, priority: Number(e.target.value) || 0 })}
+          className="w-20"
+          title="Prioridade (menor aplica primeiro)"
+        />
+      </div>
+
+      <Label className="text-xs text-muted-foreground">Quando a descrição</Label>
+      <div className="flex gap-2">
+        <Select
+          value={draft.descriptionOperator ?? 'contains'}
+          onValueChange={(v) => setDraft({ ...draft, descriptionOperator: v as RuleOperator })}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RULE_OPERATORS.map(op => (
+              <SelectItem key={op.value} value={op.value}>
+                {op.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={draft.descriptionPattern ?? ''}
+          onChange={(e) => setDraft({ ...draft, descriptionPattern: e.target.value })}
+          placeholder="Ex: TARIFA"
+          className="flex-1"
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Valor mínimo</Label>
+          <Input value={minValue} onChange={(e) => setMinValue(e.target.value)} placeholder="0,00" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Valor máximo</Label>
+          <Input value={maxValue} onChange={(e) => setMaxValue(e.target.value)} placeholder="0,00" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Tipo</Label>
+          <Select
+            value={draft.matchType ?? ANY}
+            onValueChange={(v) => setDraft({ ...draft, matchType: v === ANY ? null : (v as TransactionType) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Qualquer</SelectItem>
+              <SelectItem value="income">Entrada</SelectItem>
+              <SelectItem value="expense">Saída</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Label className="text-xs text-muted-foreground">Então definir</Label>
+      <div className="grid grid-cols-3 gap-2">
+        <Select
+          value={draft.setCategory ?? ANY}
+          onValueChange={(v) => setDraft({ ...draft, setCategory: v === ANY ? null : v })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Categoria" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Sem categoria</SelectItem>
+            {categories.map(cat => (
+              <SelectItem key={cat.id} value={cat.name}>
+                {cat.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={draft.setPaymentMethod ?? ANY}
+          onValueChange={(v) => setDraft({ ...draft, setPaymentMethod: v === ANY ? null : (v as PaymentMethod) })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Manter pagamento</SelectItem>
+            {PAYMENT_METHODS.map(method => (
+              <SelectItem key={method.value} value={method.value}>
+                {method.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={draft.setType ?? ANY}
+          onValueChange={(v) => setDraft({ ...draft, setType: v === ANY ? null : (v as TransactionType) })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Manter tipo</SelectItem>
+            <SelectItem value="income">Entrada</SelectItem>
+            <SelectItem value="expense">Saída</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-sm">
+          <Switch checked={draft.isActive} onCheckedChange={(checked) => setDraft({ ...draft, isActive: checked })} />
+          Ativa
+        </label>
+        <span className="text-xs text-muted-foreground">
+          {draftMatchCount} lançamento{draftMatchCount !== 1 ? 's' : ''} sem categoria correspondem
+        </span>
+      </div>
+
+      <div className="flex gap-2 justify-end">
+        <Button variant="ghost" size="sm" onClick={cancelEdit} disabled={isLoading}>
+          <X className="h-4 w-4 mr-1" />
+          Cancelar
+        </Button>
+        <Button
+          size="sm"
+          onClick={saveRule}
+          disabled={isLoading || !draft.name.trim() || !hasConditions(draftRule)}
+        >
+          <Check className="h-4 w-4 mr-1" />
+          Salvar
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {editingId === 'new' ? (
+        renderForm()
+      ) : (
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" onClick={() => startEdit()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Nova Regra
+          </Button>
+          <Button
+            variant="outline"
+            className="flex-1"
+            onClick={handleApply}
+            disabled={isLoading || rules.length === 0}
+          >
+            <Wand2 className="h-4 w-4 mr-2" />
+            Aplicar aos sem categoria
+          </Button>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        As regras são aplicadas automaticamente nas importações, em ordem de prioridade. A primeira regra que
+        corresponder define cada campo.
+      </p>
+
+      <div className="space-y-2">
+        {rules.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            Nenhuma regra cadastrada
+          </p>
+        )}
+        {rules.map(rule =>
+          editingId === rule.id ? (
+            <div key={rule.id}>{renderForm()}</div>
+          ) : (
+            <div
+              key={rule.id}
+              className="flex items-center justify-between gap-2 p-3 bg-card rounded-lg border border-border hover:border-primary/30 transition-colors"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className="text-[10px]">
+                    {rule.priority}
+                  </Badge>
+                  <span className={`font-medium truncate ${rule.isActive ? '' : 'text-muted-foreground line-through'}`}>
+                    {rule.name}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground truncate">{describeRule(rule)}</p>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEdit(rule)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive hover:text-destructive"
+                  onClick={() => onDeleteRule(rule.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 import { useState } from 'react';
-import { Pencil, Trash2, Plus, X, Check, Tag } from 'lucide-react';
+import { Pencil, Trash2, Plus, X, Check, Tag, CornerDownRight } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import {
   Dialog,
   DialogContent,
@@ -27,7 +28,16 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { Category, TransactionType } from '@/types/finance';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Category,
+  CategoryChildStrategy,
+  CategorizationRule,
+  Transaction,
+  TransactionType,
+} from '@/types/finance';
+import { CategorizationRulesPanel } from '@/components/CategorizationRulesPanel';
+import { buildCategoryTree, getCategoryPath, getDescendantIds, CategoryNode } from '@/lib/categoryTree';
 import { cn } from '@/lib/utils';
 
 interface CategoryManagerProps {
@@ -36,9 +46,18 @@ interface CategoryManagerProps {
   categories: Category[];
   onAddCategory: (category: Omit<Category, 'id'>) => Promise<Category | null>;
   onUpdateCategory: (id: string, updates: Partial<Category>) => Promise<boolean>;
-  onDeleteCategory: (id: string) => Promise<boolean>;
+  onDeleteCategory: (id: string, childStrategy: CategoryChildStrategy) => Promise<boolean>;
+  rules: CategorizationRule[];
+  transactions: Transaction[];
+  onAddRule: (rule: Omit<CategorizationRule, 'id'>) => Promise<CategorizationRule | null>;
+  onUpdateRule: (id: string, rule: Omit<CategorizationRule, 'id'>) => Promise<boolean>;
+  onDeleteRule: (id: string) => Promise<boolean>;
+  onApplyRules: () => Promise<number>;
 }
 
+// Radix Select doesn't accept an empty value
+const NO_PARENT = 'none';
+
 const COLORS = [
   '#10B981', '#06B6D4', '#8B5CF6', '#F97316', '#EC4899', 
   '#EF4444', '#F59E0B', '#84CC16', '#14B8A6', '#6366F1',
@@ -51,28 +70,55 @@ export function CategoryManager({
   onAddCategory,
   onUpdateCategory,
   onDeleteCategory,
+  rules,
+  transactions,
+  onAddRule,
+  onUpdateRule,
+  onDeleteRule,
+  onApplyRules,
 }: CategoryManagerProps) {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
   const [editColor, setEditColor] = useState('');
   const [editType, setEditType] = useState<TransactionType>('expense');
+  const [editParentId, setEditParentId] = useState(NO_PARENT);
   
   const [showNewForm, setShowNewForm] = useState(false);
   const [newName, setNewName] = useState('');
   const [newColor, setNewColor] = useState(COLORS[0]);
   const [newType, setNewType] = useState<TransactionType>('expense');
+  const [newParentId, setNewParentId] = useState(NO_PARENT);
   
   const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [childStrategy, setChildStrategy] = useState<CategoryChildStrategy>('reparent');
   const [isLoading, setIsLoading] = useState(false);
 
   const incomeCategories = categories.filter(c => c.type === 'income');
   const expenseCategories = categories.filter(c => c.type === 'expense');
+  const incomeTree = buildCategoryTree(incomeCategories);
+  const expenseTree = buildCategoryTree(expenseCategories);
+
+  const deleteCategory = categories.find(c => c.id === deleteId);
+  const deleteChildren = deleteId ? categories.filter(c => c.parentId === deleteId) : [];
+  const deleteParent = categories.find(c => c.id === deleteCategory?.parentId);
+
+  // A category can't be moved under itself or one of its subcategories
+  const getParentOptions = (type: TransactionType, categoryId?: string) => {
+    const excluded = categoryId ? [categoryId, ...getDescendantIds(categories, categoryId)] : [];
+    return categories
+      .filter(c => c.type === type && !excluded.includes(c.id))
+      .map(c => ({ id: c.id, label: getCategoryPath(categories, c.id).map(p => p.name).join(' › ') }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  };
+
+  const toParentId = (value: string) => (value === NO_PARENT ? null : value);
 
   const startEdit = (category: Category) => {
     setEditingId(category.id);
     setEditName(category.name);
     setEditColor(category.color);
     setEditType(category.type);
+    setEditParentId(category.parentId || NO_PARENT);
   };
 
   const cancelEdit = () => {
@@ -88,6 +134,7 @@ export function CategoryManager({
       name: editName.trim(),
       color: editColor,
       type: editType,
+      parentId: toParentId(editParentId),
     });
     setIsLoading(false);
     cancelEdit();
@@ -100,27 +147,60 @@ export function CategoryManager({
       name: newName.trim(),
       color: newColor,
       type: newType,
+      parentId: toParentId(newParentId),
     });
     setIsLoading(false);
     setNewName('');
     setNewColor(COLORS[0]);
+    setNewParentId(NO_PARENT);
     setShowNewForm(false);
   };
 
   const confirmDelete = async () => {
     if (!deleteId) return;
     setIsLoading(true);
-    await onDeleteCategory(deleteId);
+    await onDeleteCategory(deleteId, childStrategy);
     setIsLoading(false);
     setDeleteId(null);
   };
 
-  const renderCategory = (category: Category) => {
+  const renderParentSelect = (
+    value: string,
+    onChange: (value: string) => void,
+    type: TransactionType,
+    categoryId?: string
+  ) => (
+    <div className="flex items-center gap-2">
+      <Label className="text-xs text-muted-foreground whitespace-nowrap">Categoria pai:</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="h-8 flex-1">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_PARENT}>Nenhuma (categoria principal)</SelectItem>
+          {getParentOptions(type, categoryId).map(option => (
+            <SelectItem key={option.id} value={option.id}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const renderTree = (nodes: CategoryNode[], depth = 0): JSX.Element[] =>
+    nodes.flatMap(node => [
+      renderCategory(node.category, depth, node.children.length),
+      ...renderTree(node.children, depth + 1),
+    ]);
+
+  const renderCategory = (category: Category, depth: number, childCount: number) => {
     const isEditing = editingId === category.id;
+    const indent = { marginLeft: depth * 20 };
 
     if (isEditing) {
       return (
-        <div key={category.id} className="p-3 bg-muted rounded-lg space-y-3">
+        <div key={category.id} className="p-3 bg-muted rounded-lg space-y-3" style={indent}>
           <div className="flex gap-2">
             <Input
               value={editName}
@@ -129,7 +209,13 @@ export function CategoryManager({
               className="flex-1"
               autoFocus
             />
-            <Select value={editType} onValueChange={(v) => setEditType(v as TransactionType)}>
+            <Select
+              value={editType}
+              onValueChange={(v) => {
+                setEditType(v as TransactionType);
+                setEditParentId(NO_PARENT);
+              }}
+            >
               <SelectTrigger className="w-32">
                 <SelectValue />
               </SelectTrigger>
@@ -156,6 +242,7 @@ export function CategoryManager({
               ))}
             </div>
           </div>
+          {renderParentSelect(editParentId, setEditParentId, editType, category.id)}
           <div className="flex gap-2 justify-end">
             <Button variant="ghost" size="sm" onClick={cancelEdit} disabled={isLoading}>
               <X className="h-4 w-4 mr-1" />
@@ -174,13 +261,20 @@ export function CategoryManager({
       <div
         key={category.id}
         className="flex items-center justify-between p-3 bg-card rounded-lg border border-border hover:border-primary/30 transition-colors"
+        style={indent}
       >
         <div className="flex items-center gap-3">
+          {depth > 0 && <CornerDownRight className="h-4 w-4 text-muted-foreground" />}
           <div
             className="w-4 h-4 rounded-full"
             style={{ backgroundColor: category.color }}
           />
           <span className="font-medium">{category.name}</span>
+          {childCount > 0 && (
+            <span className="text-xs text-muted-foreground">
+              {childCount} {childCount === 1 ? 'subcategoria' : 'subcategorias'}
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-1">
           <Button
@@ -195,7 +289,10 @@ export function CategoryManager({
             variant="ghost"
             size="icon"
             className="h-8 w-8 text-destructive hover:text-destructive"
-            onClick={() => setDeleteId(category.id)}
+            onClick={() => {
+              setDeleteId(category.id);
+              setChildStrategy('reparent');
+            }}
           >
             <Trash2 className="h-4 w-4" />
           </Button>
@@ -214,103 +311,129 @@ export function CategoryManager({
               Gerenciar Categorias
             </DialogTitle>
             <DialogDescription>
-              Crie, edite ou exclua categorias para organizar seus lançamentos.
+              Crie, edite ou exclua categorias e regras de categorização automática.
             </DialogDescription>
           </DialogHeader>
 
-          <div className="flex-1 overflow-y-auto space-y-6">
-            {/* Add New Category */}
-            {showNewForm ? (
-              <div className="p-4 bg-primary/5 rounded-lg border border-primary/20 space-y-3">
-                <Label className="font-semibold">Nova Categoria</Label>
-                <div className="flex gap-2">
-                  <Input
-                    value={newName}
-                    onChange={(e) => setNewName(e.target.value)}
-                    placeholder="Nome da categoria"
-                    className="flex-1"
-                    autoFocus
-                  />
-                  <Select value={newType} onValueChange={(v) => setNewType(v as TransactionType)}>
-                    <SelectTrigger className="w-32">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="income">Entrada</SelectItem>
-                      <SelectItem value="expense">Saída</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="flex items-center gap-2">
-                  <Label className="text-xs text-muted-foreground">Cor:</Label>
-                  <div className="flex gap-1 flex-wrap">
-                    {COLORS.map(color => (
-                      <button
-                        key={color}
-                        type="button"
-                        className={cn(
-                          "w-6 h-6 rounded-full transition-all",
-                          newColor === color && "ring-2 ring-offset-2 ring-primary"
-                        )}
-                        style={{ backgroundColor: color }}
-                        onClick={() => setNewColor(color)}
-                      />
-                    ))}
+          <Tabs defaultValue="categories" className="flex-1 overflow-hidden flex flex-col">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="categories">Categorias</TabsTrigger>
+              <TabsTrigger value="rules">Regras ({rules.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="categories" className="flex-1 overflow-y-auto space-y-6">
+              {/* Add New Category */}
+              {showNewForm ? (
+                <div className="p-4 bg-primary/5 rounded-lg border border-primary/20 space-y-3">
+                  <Label className="font-semibold">Nova Categoria</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      value={newName}
+                      onChange={(e) => setNewName(e.target.value)}
+                      placeholder="Nome da categoria"
+                      className="flex-1"
+                      autoFocus
+                    />
+                    <Select
+                      value={newType}
+                      onValueChange={(v) => {
+                        setNewType(v as TransactionType);
+                        setNewParentId(NO_PARENT);
+                      }}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="income">Entrada</SelectItem>
+                        <SelectItem value="expense">Saída</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Label className="text-xs text-muted-foreground">Cor:</Label>
+                    <div className="flex gap-1 flex-wrap">
+                      {COLORS.map(color => (
+                        <button
+                          key={color}
+                          type="button"
+                          className={cn(
+                            "w-6 h-6 rounded-full transition-all",
+                            newColor === color && "ring-2 ring-offset-2 ring-primary"
+                          )}
+                          style={{ backgroundColor: color }}
+                          onClick={() => setNewColor(color)}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                  {renderParentSelect(newParentId, setNewParentId, newType)}
+                  <div className="flex gap-2 justify-end">
+                    <Button variant="ghost" size="sm" onClick={() => setShowNewForm(false)} disabled={isLoading}>
+                      Cancelar
+                    </Button>
+                    <Button size="sm" onClick={handleAddNew} disabled={isLoading || !newName.trim()}>
+                      <Plus className="h-4 w-4 mr-1" />
+                      Criar Categoria
+                    </Button>
                   </div>
                 </div>
-                <div className="flex gap-2 justify-end">
-                  <Button variant="ghost" size="sm" onClick={() => setShowNewForm(false)} disabled={isLoading}>
-                    Cancelar
-                  </Button>
-                  <Button size="sm" onClick={handleAddNew} disabled={isLoading || !newName.trim()}>
-                    <Plus className="h-4 w-4 mr-1" />
-                    Criar Categoria
-                  </Button>
-                </div>
-              </div>
-            ) : (
-              <Button
-                variant="outline"
-                className="w-full"
-                onClick={() => setShowNewForm(true)}
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Nova Categoria
-              </Button>
-            )}
+              ) : (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => setShowNewForm(true)}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Nova Categoria
+                </Button>
+              )}
 
-            {/* Income Categories */}
-            <div className="space-y-2">
-              <Label className="text-sm font-semibold text-income flex items-center gap-2">
-                Entradas ({incomeCategories.length})
-              </Label>
+              {/* Income Categories */}
               <div className="space-y-2">
-                {incomeCategories.length > 0 ? (
-                  incomeCategories.map(renderCategory)
-                ) : (
-                  <p className="text-sm text-muted-foreground text-center py-4">
-                    Nenhuma categoria de entrada
-                  </p>
-                )}
+                <Label className="text-sm font-semibold text-income flex items-center gap-2">
+                  Entradas ({incomeCategories.length})
+                </Label>
+                <div className="space-y-2">
+                  {incomeCategories.length > 0 ? (
+                    renderTree(incomeTree)
+                  ) : (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                      Nenhuma categoria de entrada
+                    </p>
+                  )}
+                </div>
               </div>
-            </div>
 
-            {/* Expense Categories */}
-            <div className="space-y-2">
-              <Label className="text-sm font-semibold text-expense flex items-center gap-2">
-                Saídas ({expenseCategories.length})
-              </Label>
+              {/* Expense Categories */}
               <div className="space-y-2">
-                {expenseCategories.length > 0 ? (
-                  expenseCategories.map(renderCategory)
-                ) : (
-                  <p className="text-sm text-muted-foreground text-center py-4">
-                    Nenhuma categoria de saída
-                  </p>
-                )}
+                <Label className="text-sm font-semibold text-expense flex items-center gap-2">
+                  Saídas ({expenseCategories.length})
+                </Label>
+                <div className="space-y-2">
+                  {expenseCategories.length > 0 ? (
+                    renderTree(expenseTree)
+                  ) : (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                      Nenhuma categoria de saída
+                    </p>
+                  )}
+                </div>
               </div>
-            </div>
-          </div>
+            </TabsContent>
+
+            <TabsContent value="rules" className="flex-1 overflow-y-auto">
+              <CategorizationRulesPanel
+                rules={rules}
+                categories={categories}
+                transactions={transactions}
+                onAddRule={onAddRule}
+                onUpdateRule={onUpdateRule}
+                onDeleteRule={onDeleteRule}
+                onApplyToUncategorized={onApplyRules}
+              />
+            </TabsContent>
+          </Tabs>
         </DialogContent>
       </Dialog>
 
@@ -323,6 +446,33 @@ export function CategoryManager({
               Esta ação não pode ser desfeita. Os lançamentos que usam esta categoria ficarão sem categoria.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {deleteChildren.length > 0 && (
+            <div className="space-y-3">
+              <p className="text-sm">
+                <span className="font-medium">{deleteCategory?.name}</span> possui {deleteChildren.length}{' '}
+                {deleteChildren.length === 1 ? 'subcategoria' : 'subcategorias'}: {deleteChildren.map(c => c.name).join(', ')}.
+              </p>
+              <RadioGroup
+                value={childStrategy}
+                onValueChange={(v) => setChildStrategy(v as CategoryChildStrategy)}
+              >
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="reparent" id="child-reparent" className="mt-0.5" />
+                  <Label htmlFor="child-reparent" className="font-normal leading-snug">
+                    {deleteParent
+                      ? `Mover subcategorias para "${deleteParent.name}"`
+                      : 'Manter subcategorias como categorias principais'}
+                  </Label>
+                </div>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="uncategorize" id="child-uncategorize" className="mt-0.5" />
+                  <Label htmlFor="child-uncategorize" className="font-normal leading-snug">
+                    Excluir subcategorias também e deixar seus lançamentos sem categoria
+                  </Label>
+                </div>
+              </RadioGroup>
+            </div>
+          )}
           <AlertDialogFooter>
             <AlertDialogCancel disabled={isLoading}>Cancelar</AlertDialogCancel>
             <AlertDialogAction
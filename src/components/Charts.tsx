@@ -17,6 +17,10 @@ import {
 import { format, startOfMonth, endOfMonth, eachDayOfInterval } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { Transaction, Category } from '@/types/finance';
+import { excludeTransfers } from '@/lib/transfers';
+import { expandSplits } from '@/lib/splits';
+import { getReportDate, isReported } from '@/lib/reporting';
+import { useReporting } from '@/contexts/ReportingContext';
 
 interface ChartsProps {
   transactions: Transaction[];
@@ -26,6 +30,7 @@ interface ChartsProps {
 const COLORS = ['#0ea5a0', '#10B981', '#EF4444', '#F59E0B', '#8B5CF6', '#EC4899', '#06B6D4'];
 
 export function Charts({ transactions, categories }: ChartsProps) {
+  const { regime } = useReporting();
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
       style: 'currency',
@@ -64,6 +69,12 @@ export function Charts({ transactions, categories }: ChartsProps) {
     });
   }, [transactions]);
 
+  // Transfers move the balance above but are neither income nor expense
+  const operationalTransactions = useMemo(() => excludeTransfers(transactions), [transactions]);
+
+  // Split transactions count once per line in the category distributions
+  const categoryLines = useMemo(() => expandSplits(operationalTransactions), [operationalTransactions]);
+
   const incomeVsExpense = useMemo(() => {
     const now = new Date();
     const last6Months = Array.from({ length: 6 }, (_, i) => {
@@ -76,9 +87,9 @@ export function Charts({ transactions, categories }: ChartsProps) {
     });
 
     return last6Months.map(({ month, monthNum, year }) => {
-      const monthTransactions = transactions.filter(t => {
-        const date = new Date(t.date);
-        return date.getMonth() === monthNum && date.getFullYear() === year && t.status === 'completed';
+      const monthTransactions = operationalTransactions.filter(t => {
+        const date = new Date(getReportDate(t, regime));
+        return date.getMonth() === monthNum && date.getFullYear() === year && isReported(t, regime);
       });
 
       const income = monthTransactions
@@ -91,7 +102,7 @@ export function Charts({ transactions, categories }: ChartsProps) {
 
       return { month, entradas: income, saídas: expense };
     });
-  }, [transactions]);
+  }, [operationalTransactions, regime]);
 
   // Expense distribution
   const expenseDistribution = useMemo(() => {
@@ -99,11 +110,11 @@ export function Charts({ transactions, categories }: ChartsProps) {
     const currentMonth = now.getMonth();
     const currentYear = now.getFullYear();
 
-    const monthlyExpenses = transactions.filter(t => {
-      const date = new Date(t.date);
+    const monthlyExpenses = categoryLines.filter(t => {
+      const date = new Date(getReportDate(t, regime));
       return (
         t.type === 'expense' &&
-        t.status === 'completed' &&
+        isReported(t, regime) &&
         date.getMonth() === currentMonth &&
         date.getFullYear() === currentYear &&
         t.category
@@ -122,7 +133,7 @@ export function Charts({ transactions, categories }: ChartsProps) {
       .map(([name, value]) => ({ name, value, percentage: total > 0 ? (value / total) * 100 : 0 }))
       .sort((a, b) => b.value - a.value)
       .slice(0, 6);
-  }, [transactions]);
+  }, [categoryLines, regime]);
 
   // Income distribution
   const incomeDistribution = useMemo(() => {
@@ -130,11 +141,11 @@ export function Charts({ transactions, categories }: ChartsProps) {
     const currentMonth = now.getMonth();
     const currentYear = now.getFullYear();
 
-    const monthlyIncome = transactions.filter(t => {
-      const date = new Date(t.date);
+    const monthlyIncome = categoryLines.filter(t => {
+      const date = new Date(getReportDate(t, regime));
       return (
         t.type === 'income' &&
-        t.status === 'completed' &&
+        isReported(t, regime) &&
         date.getMonth() === currentMonth &&
         date.getFullYear() === currentYear &&
         t.category
@@ -153,7 +164,7 @@ export function Charts({ transactions, categories }: ChartsProps) {
       .map(([name, value]) => ({ name, value, percentage: total > 0 ? (value / total) * 100 : 0 }))
       .sort((a, b) => b.value - a.value)
       .slice(0, 6);
-  }, [transactions]);
+  }, [categoryLines, regime]);
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
@@ -0,0 +1,245 @@
+import { Fragment, useMemo, useState } from 'react';
+import { Wallet, Clock, Building2, ChevronDown, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { StatCard } from '@/components/StatCard';
+import { AdvancedCharts } from '@/components/AdvancedCharts';
+import { useAccounts, Account } from '@/contexts/AccountContext';
+import { useConsolidatedData } from '@/hooks/useConsolidatedData';
+import { summarizeBalances, sumBalances, BalanceSummary } from '@/lib/financeStats';
+import { cn } from '@/lib/utils';
+
+interface CompanyGroup {
+  company: string;
+  accounts: { account: Account; summary: BalanceSummary }[];
+  summary: BalanceSummary;
+}
+
+export function ConsolidatedDashboard() {
+  const { accounts } = useAccounts();
+  // null = every account, including ones created later
+  const [selectedIds, setSelectedIds] = useState<string[] | null>(null);
+
+  const activeIds = useMemo(() => selectedIds ?? accounts.map((a) => a.id), [selectedIds, accounts]);
+  const activeAccounts = useMemo(
+    () => accounts.filter((a) => activeIds.includes(a.id)),
+    [accounts, activeIds]
+  );
+  const { transactions, categories, isLoading } = useConsolidatedData(activeIds);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  // One company can own several bank accounts
+  const companyGroups = useMemo(() => {
+    const groups = new Map<string, CompanyGroup['accounts']>();
+    activeAccounts.forEach((account) => {
+      const summary = summarizeBalances(
+        transactions.filter((t) => t.accountId === account.id),
+        Number(account.initial_balance) || 0
+      );
+      const company = account.company_name || 'Sem empresa';
+      groups.set(company, [...(groups.get(company) || []), { account, summary }]);
+    });
+
+    return Array.from(groups.entries())
+      .map(([company, items]): CompanyGroup => ({
+        company,
+        accounts: items,
+        summary: sumBalances(items.map((i) => i.summary)),
+      }))
+      .sort((a, b) => a.company.localeCompare(b.company));
+  }, [activeAccounts, transactions]);
+
+  const total = sumBalances(companyGroups.map((g) => g.summary));
+
+  const toggleAccount = (id: string) => {
+    const next = activeIds.includes(id)
+      ? activeIds.filter((a) => a !== id)
+      : [...activeIds, id];
+    setSelectedIds(next.length === accounts.length ? null : next);
+  };
+
+  const toggleCompany = (company: string) => {
+    const ids = accounts.filter((a) => (a.company_name || 'Sem empresa') === company).map((a) => a.id);
+    const allSelected = ids.every((id) => activeIds.includes(id));
+    const next = allSelected
+      ? activeIds.filter((id) => !ids.includes(id))
+      : Array.from(new Set([...activeIds, ...ids]));
+    setSelectedIds(next.length === accounts.length ? null : next);
+  };
+
+  const companies = Array.from(new Set(accounts.map((a) => a.company_name || 'Sem empresa'))).sort();
+
+  const renderRow = (label: string, summary: BalanceSummary, className?: string) => (
+    <>
+      <TableCell className={className}>{label}</TableCell>
+      <TableCell className={cn('text-right', summary.currentBalance < 0 && 'text-expense')}>
+        {formatCurrency(summary.currentBalance)}
+      </TableCell>
+      <TableCell className="text-right text-income">{formatCurrency(summary.toReceive)}</TableCell>
+      <TableCell className="text-right text-expense">{formatCurrency(summary.toPay)}</TableCell>
+      <TableCell className={cn('text-right font-medium', summary.projectedBalance < 0 && 'text-expense')}>
+        {formatCurrency(summary.projectedBalance)}
+      </TableCell>
+    </>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            Visão Consolidada
+            {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            {selectedIds === null
+              ? `Todas as contas (${accounts.length})`
+              : `${activeIds.length} de ${accounts.length} contas`}
+          </p>
+        </div>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Building2 className="h-4 w-4 mr-2" />
+              Contas
+              <ChevronDown className="h-4 w-4 ml-2" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72 p-3 max-h-80 overflow-y-auto" align="end">
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <Checkbox
+                  checked={selectedIds === null}
+                  onCheckedChange={(checked) => setSelectedIds(checked ? null : [])}
+                />
+                Todas as contas
+              </label>
+              {companies.map((company) => {
+                const companyAccounts = accounts.filter((a) => (a.company_name || 'Sem empresa') === company);
+                return (
+                  <div key={company} className="space-y-1">
+                    <label className="flex items-center gap-2 text-sm font-medium">
+                      <Checkbox
+                        checked={companyAccounts.every((a) => activeIds.includes(a.id))}
+                        onCheckedChange={() => toggleCompany(company)}
+                      />
+                      {company}
+                    </label>
+                    {companyAccounts.map((account) => (
+                      <label key={account.id} className="flex items-center gap-2 text-sm pl-6">
+                        <Checkbox
+                          checked={activeIds.includes(account.id)}
+                          onCheckedChange={() => toggleAccount(account.id)}
+                        />
+                        {account.name}
+                        <span className="text-xs text-muted-foreground">{account.bank_name}</span>
+                      </label>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-2 gap-2 sm:gap-4 lg:grid-cols-4">
+        <StatCard
+          title="Saldo Atual"
+          value={formatCurrency(total.currentBalance)}
+          icon={Wallet}
+          variant={total.currentBalance >= 0 ? 'income' : 'expense'}
+        />
+        <StatCard
+          title="A Receber"
+          value={formatCurrency(total.toReceive)}
+          icon={Clock}
+          variant="income"
+        />
+        <StatCard
+          title="A Pagar"
+          value={formatCurrency(total.toPay)}
+          icon={Clock}
+          variant="expense"
+        />
+        <StatCard
+          title="Projeção"
+          value={formatCurrency(total.projectedBalance)}
+          icon={Wallet}
+          variant={total.projectedBalance >= 0 ? 'default' : 'expense'}
+        />
+      </div>
+
+      {/* Per-account breakdown */}
+      <div className="bg-card rounded-xl shadow-card overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Empresa / Conta</TableHead>
+              <TableHead className="text-right">Saldo Atual</TableHead>
+              <TableHead className="text-right">A Receber</TableHead>
+              <TableHead className="text-right">A Pagar</TableHead>
+              <TableHead className="text-right">Projeção</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {companyGroups.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                  Selecione ao menos uma conta
+                </TableCell>
+              </TableRow>
+            )}
+            {companyGroups.map((group) => (
+              <Fragment key={group.company}>
+                <TableRow className="bg-muted/50 font-semibold">
+                  {renderRow(group.company, group.summary)}
+                </TableRow>
+                {group.accounts.map(({ account, summary }) => (
+                  <TableRow key={account.id}>
+                    {renderRow(`${account.name} · ${account.bank_name}`, summary, 'pl-8 text-muted-foreground')}
+                  </TableRow>
+                ))}
+              </Fragment>
+            ))}
+          </TableBody>
+          {companyGroups.length > 1 && (
+            <TableFooter>
+              <TableRow className="font-bold">
+                {renderRow('Total', total)}
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+      </div>
+
+      <AdvancedCharts
+        transactions={transactions}
+        categories={categories}
+        initialBalance={activeAccounts.reduce((sum, a) => sum + (Number(a.initial_balance) || 0), 0)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+import { Fragment, useMemo, useState } from 'react';
+import { addMonths, endOfMonth, format, parseISO, startOfMonth, subMonths } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ChevronDown, ChevronLeft, ChevronRight, FileText, Settings2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Category, DreLine, DreMapping, DRE_LINES, Transaction } from '@/types/finance';
+import {
+  buildDreStatement,
+  getDrePeriods,
+  resolveDreLine,
+  DreComparison,
+  DreStatement,
+  DreStatementLine,
+  DRE_STATEMENT_LINES,
+} from '@/lib/dre';
+import { buildCategoryTree, CategoryNode } from '@/lib/categoryTree';
+import { useReporting } from '@/contexts/ReportingContext';
+import { cn } from '@/lib/utils';
+
+interface DREReportProps {
+  transactions: Transaction[];
+  categories: Category[];
+  mappings: DreMapping[];
+  onSetMapping: (category: string, line: DreLine | null) => Promise<boolean>;
+}
+
+type PeriodMode = 'month' | 'range';
+
+// Radix Select doesn't accept an empty value
+const AUTO_LINE = 'auto';
+
+const COMPARISONS: { value: DreComparison; label: string }[] = [
+  { value: 'none', label: 'Sem comparação' },
+  { value: 'previous', label: 'Período anterior' },
+  { value: 'previous_year', label: 'Mesmo período do ano anterior' },
+  { value: 'monthly', label: 'Mês a mês' },
+];
+
+const lineLabels = Object.fromEntries(DRE_LINES.map((l) => [l.value, l.label])) as Record<DreLine, string>;
+
+// Subtotals printed after the line with the same key
+const SUBTOTALS: Partial<Record<DreStatementLine, { label: string; value: (s: DreStatement) => number }>> = {
+  deductions: { label: '= Receita Líquida', value: (s) => s.netRevenue },
+  costs: { label: '= Lucro Bruto', value: (s) => s.grossProfit },
+  operating_expenses: { label: '= Resultado Operacional', value: (s) => s.operatingResult },
+  financial_result: { label: '= Resultado Líquido', value: (s) => s.netResult },
+};
+
+export function DREReport({ transactions, categories, mappings, onSetMapping }: DREReportProps) {
+  const { regime } = useReporting();
+  const [mode, setMode] = useState<PeriodMode>('month');
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [rangeStart, setRangeStart] = useState(() => format(startOfMonth(subMonths(new Date(), 2)), 'yyyy-MM-dd'));
+  const [rangeEnd, setRangeEnd] = useState(() => format(endOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [comparison, setComparison] = useState<DreComparison>('previous');
+  const [expanded, setExpanded] = useState<DreStatementLine[]>([]);
+  const [showMappings, setShowMappings] = useState(false);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  const periods = useMemo(() => {
+    if (mode === 'month') return getDrePeriods(month, endOfMonth(month), comparison);
+    if (!rangeStart || !rangeEnd || rangeStart > rangeEnd) return [];
+    return getDrePeriods(parseISO(rangeStart), parseISO(rangeEnd), comparison);
+  }, [mode, month, rangeStart, rangeEnd, comparison]);
+
+  const statements = useMemo(
+    () => periods.map((period) => buildDreStatement(transactions, categories, mappings, period, regime)),
+    [periods, transactions, categories, mappings, regime]
+  );
+
+  // Variation is only shown when comparing exactly two columns
+  const showVariation = statements.length === 2;
+
+  const toggleLine = (line: DreStatementLine) => {
+    setExpanded((prev) => (prev.includes(line) ? prev.filter((l) => l !== line) : [...prev, line]));
+  };
+
+  const renderVariation = (values: number[]) => {
+    if (!showVariation) return null;
+    const [previous, current] = values;
+    const variation = previous !== 0 ? ((current - previous) / Math.abs(previous)) * 100 : null;
+    return (
+      <TableCell
+        className={cn(
+          'text-right text-xs',
+          variation === null ? 'text-muted-foreground' : variation >= 0 ? 'text-income' : 'text-expense'
+        )}
+      >
+        {variation === null ? '—' : `${variation > 0 ? '+' : ''}${variation.toFixed(1)}%`}
+      </TableCell>
+    );
+  };
+
+  const renderValues = (values: number[], className?: string) => (
+    <>
+      {values.map((value, i) => (
+        <TableCell key={i} className={cn('text-right whitespace-nowrap', value < 0 && 'text-expense', className)}>
+          {formatCurrency(value)}
+        </TableCell>
+      ))}
+      {renderVariation(values)}
+    </>
+  );
+
+  const renderLine = (line: DreStatementLine) => {
+    const isExpanded = expanded.includes(line);
+    const categoryNames = Array.from(
+      new Set(statements.flatMap((s) => s.lines[line].categories.map((c) => c.category)))
+    );
+    const subtotal = SUBTOTALS[line];
+
+    return (
+      <Fragment key={line}>
+        <TableRow className="cursor-pointer" onClick={() => toggleLine(line)}>
+          <TableCell className="font-medium">
+            <span className="flex items-center gap-1">
+              {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              {lineLabels[line]}
+            </span>
+          </TableCell>
+          {renderValues(statements.map((s) => s.lines[line].total))}
+        </TableRow>
+        {isExpanded &&
+          categoryNames.map((category) => (
+            <TableRow key={`${line}:${category}`} className="text-sm">
+              <TableCell className="pl-10 text-muted-foreground">{category}</TableCell>
+              {renderValues(
+                statements.map((s) => s.lines[line].categories.find((c) => c.category === category)?.amount || 0),
+                'text-muted-foreground'
+              )}
+            </TableRow>
+          ))}
+        {isExpanded && categoryNames.length === 0 && (
+          <TableRow>
+            <TableCell colSpan={statements.length + (showVariation ? 2 : 1)} className="pl-10 text-sm text-muted-foreground">
+              Nenhum lançamento
+            </TableCell>
+          </TableRow>
+        )}
+        {subtotal && (
+          <TableRow className="bg-muted/50 font-semibold">
+            <TableCell>{subtotal.label}</TableCell>
+            {renderValues(statements.map(subtotal.value))}
+          </TableRow>
+        )}
+      </Fragment>
+    );
+  };
+
+  const renderMappingTree = (nodes: CategoryNode[], depth = 0): JSX.Element[] =>
+    nodes.flatMap((node) => {
+      const { category } = node;
+      const own = mappings.find((m) => m.category === category.name);
+      // What the category would use without its own mapping
+      const inherited = resolveDreLine(
+        category.name,
+        category.type,
+        categories,
+        mappings.filter((m) => m !== own)
+      );
+
+      return [
+        <div key={category.id} className="flex items-center justify-between gap-3" style={{ paddingLeft: depth * 20 }}>
+          <span className="flex items-center gap-2 text-sm min-w-0">
+            <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: category.color }} />
+            <span className="truncate">{category.name}</span>
+          </span>
+          <Select
+            value={own?.line || AUTO_LINE}
+            onValueChange={(v) => onSetMapping(category.name, v === AUTO_LINE ? null : (v as DreLine))}
+          >
+            <SelectTrigger className="h-8 w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO_LINE}>Automático ({lineLabels[inherited]})</SelectItem>
+              {DRE_LINES.map((line) => (
+                <SelectItem key={line.value} value={line.value}>
+                  {line.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>,
+        ...renderMappingTree(node.children, depth + 1),
+      ];
+    });
+
+  return (
+    <div className="bg-card rounded-xl p-5 shadow-card space-y-4">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+        <h3 className="font-semibold flex items-center gap-2">
+          <FileText className="h-5 w-5 text-primary" />
+          Demonstração do Resultado (DRE)
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <Tabs value={mode} onValueChange={(v) => setMode(v as PeriodMode)}>
+            <TabsList className="h-8">
+              <TabsTrigger value="month" className="text-xs px-3">Mês</TabsTrigger>
+              <TabsTrigger value="range" className="text-xs px-3">Período</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {mode === 'month' ? (
+            <div className="flex items-center">
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setMonth(subMonths(month, 1))}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm font-medium capitalize w-32 text-center">
+                {format(month, 'MMMM yyyy', { locale: ptBR })}
+              </span>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setMonth(addMonths(month, 1))}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              <Input type="date" value={rangeStart} onChange={(e) => setRangeStart(e.target.value)} className="h-8 w-36" />
+              <span className="text-sm text-muted-foreground">até</span>
+              <Input type="date" value={rangeEnd} onChange={(e) => setRangeEnd(e.target.value)} className="h-8 w-36" />
+            </div>
+          )}
+
+          <Select value={comparison} onValueChange={(v) => setComparison(v as DreComparison)}>
+            <SelectTrigger className="h-8 w-52">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COMPARISONS.map((c) => (
+                <SelectItem key={c.value} value={c.value}>
+                  {c.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Button variant="outline" size="sm" onClick={() => setShowMappings(true)}>
+            <Settings2 className="h-4 w-4 mr-2" />
+            Mapeamento
+          </Button>
+        </div>
+      </div>
+
+      {statements.length > 0 ? (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Conta</TableHead>
+                {statements.map((s) => (
+                  <TableHead key={s.period.start} className="text-right capitalize whitespace-nowrap">
+                    {s.period.label}
+                  </TableHead>
+                ))}
+                {showVariation && <TableHead className="text-right">Var.</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>{DRE_STATEMENT_LINES.map(renderLine)}</TableBody>
+          </Table>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground text-center py-6">Informe um período válido</p>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        {regime === 'accrual'
+          ? 'Regime de competência: considera lançamentos pagos, recebidos e pendentes pela data de competência (ou a data, quando não informada).'
+          : 'Regime de caixa: considera lançamentos pagos/recebidos no período.'}{' '}
+        Transferências entre contas não entram na DRE.
+      </p>
+
+      <Dialog open={showMappings} onOpenChange={setShowMappings}>
+        <DialogContent className="sm:max-w-xl max-h-[85vh] overflow-hidden flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Mapeamento da DRE</DialogTitle>
+            <DialogDescription>
+              Escolha a linha da DRE de cada categoria. Subcategorias sem linha própria seguem a categoria pai.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold text-income">Entradas</Label>
+              {renderMappingTree(buildCategoryTree(categories.filter((c) => c.type === 'income')))}
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold text-expense">Saídas</Label>
+              {renderMappingTree(buildCategoryTree(categories.filter((c) => c.type === 'expense')))}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { format } from 'date-fns';
-import { CalendarIcon, Plus } from 'lucide-react';
+import { CalendarIcon, Plus, Split, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -24,20 +24,38 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { cn } from '@/lib/utils';
+import { getSplitRemainder, isSplitBalanced } from '@/lib/splits';
+import { AttachmentInput } from '@/components/AttachmentInput';
 import {
   Transaction,
   TransactionType,
   TransactionStatus,
   PaymentMethod,
+  TransactionSplit,
+  TransactionAttachment,
   Category,
   PAYMENT_METHODS,
 } from '@/types/finance';
 
+interface SplitLineInput {
+  category: string;
+  value: string;
+  memo: string;
+}
+
+const parseAmount = (value: string) => parseFloat(value.replace(',', '.'));
+
+const formatAmount = (value: number) => value.toFixed(2).replace('.', ',');
+
 interface EditTransactionFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   transaction: Transaction | null;
-  onSubmit: (id: string, updates: Partial<Transaction>) => void | Promise<void>;
+  onSubmit: (
+    id: string,
+    updates: Partial<Transaction>,
+    attachments: { added: File[]; removed: TransactionAttachment[] }
+  ) => void | Promise<void>;
   categories: Category[];
   onAddCategory?: (category: Omit<Category, 'id'>) => void | Promise<Category | null>;
 }
@@ -52,6 +70,7 @@ export function EditTransactionForm({
 }: EditTransactionFormProps) {
   const [date, setDate] = useState<Date>(new Date());
   const [dueDate, setDueDate] = useState<Date | undefined>(undefined);
+  const [competenceDate, setCompetenceDate] = useState<Date | undefined>(undefined);
   const [description, setDescription] = useState('');
   const [type, setType] = useState<TransactionType>('expense');
   const [status, setStatus] = useState<TransactionStatus>('completed');
@@ -60,41 +79,101 @@ export function EditTransactionForm({
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('pix');
   const [showNewCategory, setShowNewCategory] = useState(false);
   const [newCategoryName, setNewCategoryName] = useState('');
+  const [splitLines, setSplitLines] = useState<SplitLineInput[]>([]);
+  const [newAttachments, setNewAttachments] = useState<File[]>([]);
+  const [removedAttachmentIds, setRemovedAttachmentIds] = useState<string[]>([]);
 
   // Load transaction data when opened
   useEffect(() => {
     if (transaction && open) {
       setDate(new Date(transaction.date));
       setDueDate(transaction.dueDate ? new Date(transaction.dueDate) : undefined);
+      setCompetenceDate(transaction.competenceDate ? new Date(transaction.competenceDate) : undefined);
       setDescription(transaction.description);
       setType(transaction.type);
       setStatus(transaction.status);
       setCategory(transaction.category || '');
       setValue(transaction.value.toString().replace('.', ','));
       setPaymentMethod(transaction.paymentMethod || 'pix');
+      setSplitLines(
+        (transaction.splits || []).map((s) => ({
+          category: s.category || '',
+          value: formatAmount(s.value),
+          memo: s.memo || '',
+        }))
+      );
+      setNewAttachments([]);
+      setRemovedAttachmentIds([]);
     }
   }, [transaction, open]);
 
   const filteredCategories = categories.filter((c) => c.type === type);
   const isPending = status === 'pending';
+  const isSplitting = splitLines.length > 0;
+  const numericTotal = parseAmount(value);
+
+  const parsedSplits: TransactionSplit[] = splitLines.map((line) => ({
+    category: line.category || null,
+    value: Math.round((parseAmount(line.value) || 0) * 100) / 100,
+    memo: line.memo.trim() || undefined,
+  }));
+  const splitRemainder = isNaN(numericTotal) ? 0 : getSplitRemainder(parsedSplits, numericTotal);
+  const splitsValid = !isSplitting || isSplitBalanced(parsedSplits, numericTotal);
+
+  // Start with the current category holding the full value and an empty line to move part of it
+  const startSplit = () => {
+    setSplitLines([
+      { category, value: isNaN(numericTotal) ? '' : formatAmount(numericTotal), memo: '' },
+      { category: '', value: '', memo: '' },
+    ]);
+  };
+
+  const updateSplitLine = (index: number, changes: Partial<SplitLineInput>) => {
+    setSplitLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  // Removing down to a single line undoes the split, keeping that line's category
+  const removeSplitLine = (index: number) => {
+    const remaining = splitLines.filter((_, i) => i !== index);
+    if (remaining.length < 2) {
+      setCategory(remaining[0]?.category || '');
+      setSplitLines([]);
+      return;
+    }
+    setSplitLines(remaining);
+  };
+
+  const changeType = (newType: TransactionType) => {
+    setType(newType);
+    setCategory('');
+    setSplitLines((prev) => prev.map((line) => ({ ...line, category: '' })));
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!transaction) return;
     
-    const numericValue = parseFloat(value.replace(',', '.'));
-    if (isNaN(numericValue) || numericValue <= 0) return;
+    const numericValue = parseAmount(value);
+    if (isNaN(numericValue) || numericValue <= 0 || !splitsValid) return;
+
+    // An empty list clears the lines of a transaction that was split before
+    const splits = isSplitting ? parsedSplits : transaction.splits?.length ? [] : undefined;
 
     onSubmit(transaction.id, {
       date: format(date, 'yyyy-MM-dd'),
       dueDate: isPending && dueDate ? format(dueDate, 'yyyy-MM-dd') : undefined,
+      competenceDate: competenceDate ? format(competenceDate, 'yyyy-MM-dd') : null,
       description,
-      category: category || null,
+      ...(isSplitting ? {} : { category: category || null }),
       value: numericValue,
       type,
       status,
       paymentMethod: isPending ? null : paymentMethod,
       isReconciled: !isPending,
+      splits,
+    }, {
+      added: newAttachments,
+      removed: (transaction.attachments || []).filter((a) => removedAttachmentIds.includes(a.id)),
     });
 
     onOpenChange(false);
@@ -119,6 +198,21 @@ export function EditTransactionForm({
 
   if (!transaction) return null;
 
+  // Removals only apply when the form is saved
+  const keptAttachments = (transaction.attachments || []).filter((a) => !removedAttachmentIds.includes(a.id));
+
+  const categoryItems = filteredCategories.map((cat) => (
+    <SelectItem key={cat.id} value={cat.name}>
+      <div className="flex items-center gap-2">
+        <div 
+          className="w-2 h-2 rounded-full" 
+          style={{ backgroundColor: cat.color }}
+        />
+        {cat.name}
+      </div>
+    </SelectItem>
+  ));
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
@@ -135,10 +229,7 @@ export function EditTransactionForm({
                 'w-full',
                 type === 'income' && 'bg-income hover:bg-income/90'
               )}
-              onClick={() => {
-                setType('income');
-                setCategory('');
-              }}
+              onClick={() => changeType('income')}
             >
               Entrada
             </Button>
@@ -149,10 +240,7 @@ export function EditTransactionForm({
                 'w-full',
                 type === 'expense' && 'bg-expense hover:bg-expense/90'
               )}
-              onClick={() => {
-                setType('expense');
-                setCategory('');
-              }}
+              onClick={() => changeType('expense')}
             >
               Saída
             </Button>
@@ -240,6 +328,46 @@ export function EditTransactionForm({
             )}
           </div>
 
+          {/* Competence */}
+          <div className="space-y-2">
+            <Label>
+              Competência <span className="text-xs font-normal text-muted-foreground">(opcional)</span>
+            </Label>
+            <div className="flex gap-2">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="flex-1 justify-start text-left font-normal"
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {competenceDate ? format(competenceDate, 'dd/MM/yyyy') : 'Mesma da data'}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0 z-50" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={competenceDate}
+                    onSelect={setCompetenceDate}
+                    initialFocus
+                    className="pointer-events-auto"
+                  />
+                </PopoverContent>
+              </Popover>
+              {competenceDate && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setCompetenceDate(undefined)}
+                  title="Usar a data do lançamento"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+
           <div className="space-y-2">
             <Label>Descrição</Label>
             <Input
@@ -264,19 +392,95 @@ export function EditTransactionForm({
           <div className="space-y-2">
             <div className="flex items-center justify-between">
               <Label>Categoria</Label>
-              {onAddCategory && (
-                <button
-                  type="button"
-                  onClick={() => setShowNewCategory(!showNewCategory)}
-                  className="text-xs text-primary hover:underline flex items-center gap-1"
-                >
-                  <Plus className="h-3 w-3" />
-                  Nova categoria
-                </button>
+              {!isSplitting && (
+                <div className="flex items-center gap-3">
+                  {!transaction.transferId && (
+                    <button
+                      type="button"
+                      onClick={startSplit}
+                      className="text-xs text-primary hover:underline flex items-center gap-1"
+                    >
+                      <Split className="h-3 w-3" />
+                      Dividir
+                    </button>
+                  )}
+                  {onAddCategory && (
+                    <button
+                      type="button"
+                      onClick={() => setShowNewCategory(!showNewCategory)}
+                      className="text-xs text-primary hover:underline flex items-center gap-1"
+                    >
+                      <Plus className="h-3 w-3" />
+                      Nova categoria
+                    </button>
+                  )}
+                </div>
               )}
             </div>
             
-            {showNewCategory ? (
+            {isSplitting ? (
+              <div className="space-y-2">
+                {splitLines.map((line, index) => (
+                  <div key={index} className="space-y-2 rounded-lg border border-border p-2">
+                    <div className="flex gap-2">
+                      <Select
+                        value={line.category}
+                        onValueChange={(v) => updateSplitLine(index, { category: v })}
+                      >
+                        <SelectTrigger className="flex-1">
+                          <SelectValue placeholder="Categoria" />
+                        </SelectTrigger>
+                        <SelectContent className="z-50">
+                          {categoryItems}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        value={line.value}
+                        onChange={(e) => updateSplitLine(index, { value: e.target.value })}
+                        placeholder="0,00"
+                        className="w-28"
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeSplitLine(index)}
+                        title="Remover linha"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <Input
+                      value={line.memo}
+                      onChange={(e) => updateSplitLine(index, { memo: e.target.value })}
+                      placeholder="Observação (opcional)"
+                    />
+                  </div>
+                ))}
+                <div className="flex items-center justify-between">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setSplitLines((prev) => [
+                        ...prev,
+                        { category: '', value: splitRemainder > 0 ? formatAmount(splitRemainder) : '', memo: '' },
+                      ])
+                    }
+                    className="text-xs text-primary hover:underline flex items-center gap-1"
+                  >
+                    <Plus className="h-3 w-3" />
+                    Adicionar linha
+                  </button>
+                  <span className={cn('text-xs', splitRemainder === 0 ? 'text-income' : 'text-expense')}>
+                    {splitRemainder === 0
+                      ? 'Linhas somam o valor total'
+                      : splitRemainder > 0
+                        ? `Faltam R$ ${formatAmount(splitRemainder)}`
+                        : `Excede em R$ ${formatAmount(-splitRemainder)}`}
+                  </span>
+                </div>
+              </div>
+            ) : showNewCategory ? (
               <div className="flex gap-2">
                 <Input
                   value={newCategoryName}
@@ -311,17 +515,7 @@ export function EditTransactionForm({
                   <SelectValue placeholder="Selecione uma categoria" />
                 </SelectTrigger>
                 <SelectContent className="z-50">
-                  {filteredCategories.map((cat) => (
-                    <SelectItem key={cat.id} value={cat.name}>
-                      <div className="flex items-center gap-2">
-                        <div 
-                          className="w-2 h-2 rounded-full" 
-                          style={{ backgroundColor: cat.color }}
-                        />
-                        {cat.name}
-                      </div>
-                    </SelectItem>
-                  ))}
+                  {categoryItems}
                 </SelectContent>
               </Select>
             )}
@@ -348,7 +542,14 @@ export function EditTransactionForm({
             </div>
           )}
 
-          <Button type="submit" className="w-full">
+          <AttachmentInput
+            files={newAttachments}
+            onFilesChange={setNewAttachments}
+            existing={keptAttachments}
+            onRemoveExisting={(attachment) => setRemovedAttachmentIds((prev) => [...prev, attachment.id])}
+          />
+
+          <Button type="submit" className="w-full" disabled={!splitsValid}>
             Salvar Alterações
           </Button>
         </form>
@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Download, FileSpreadsheet, FileText, Loader2 } from 'lucide-react';
+import writeXlsxFile from 'write-excel-file/browser';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Category, Transaction } from '@/types/finance';
+import {
+  buildCsv,
+  buildXlsxSheet,
+  downloadBlob,
+  encodeCsv,
+  getExportTotals,
+  sortForExport,
+  CsvDelimiter,
+  CsvEncoding,
+  CSV_DELIMITERS,
+  CSV_ENCODINGS,
+  ExportColumn,
+  EXPORT_COLUMNS,
+} from '@/lib/transactionExport';
+import { useReporting } from '@/contexts/ReportingContext';
+import { useToast } from '@/hooks/use-toast';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  transactions: Transaction[];
+  categories: Category[];
+}
+
+type ExportFormat = 'xlsx' | 'csv';
+
+const DEFAULT_COLUMNS: ExportColumn[] = ['date', 'description', 'category', 'type', 'status', 'value'];
+
+export function ExportDialog({ open, onOpenChange, transactions, categories }: ExportDialogProps) {
+  const { regime } = useReporting();
+  const { toast } = useToast();
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('xlsx');
+  const [columns, setColumns] = useState<ExportColumn[]>(DEFAULT_COLUMNS);
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(';');
+  const [encoding, setEncoding] = useState<CsvEncoding>('utf-8-bom');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  const totals = getExportTotals(transactions);
+
+  // Keeps the order of EXPORT_COLUMNS regardless of click order
+  const toggleColumn = (column: ExportColumn) => {
+    const next = columns.includes(column) ? columns.filter((c) => c !== column) : [...columns, column];
+    setColumns(EXPORT_COLUMNS.map((c) => c.value).filter((c) => next.includes(c)));
+  };
+
+  const handleExport = async () => {
+    const rows = sortForExport(transactions, regime);
+    const fileName = `lancamentos_${format(new Date(), 'yyyy-MM-dd')}.${exportFormat}`;
+    setIsExporting(true);
+
+    try {
+      if (exportFormat === 'xlsx') {
+        await writeXlsxFile(buildXlsxSheet(rows, columns, categories), {
+          sheet: 'Lançamentos',
+          stickyRowsCount: 1,
+          columns: columns.map((column) => ({ width: EXPORT_COLUMNS.find((c) => c.value === column)?.width })),
+        }).toFile(fileName);
+      } else {
+        downloadBlob(encodeCsv(buildCsv(rows, columns, categories, delimiter), encoding), fileName);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error exporting transactions:', error);
+      toast({
+        title: 'Erro ao exportar',
+        description: 'Não foi possível gerar o arquivo.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Download className="h-5 w-5" />
+            Exportar Lançamentos
+          </DialogTitle>
+          <DialogDescription>
+            {transactions.length} lançamentos com os filtros atuais, ordenados pela data{' '}
+            {regime === 'accrual' ? 'de competência' : 'de caixa'}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <Tabs value={exportFormat} onValueChange={(v) => setExportFormat(v as ExportFormat)}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="xlsx" className="gap-2">
+                <FileSpreadsheet className="h-4 w-4" />
+                Excel (XLSX)
+              </TabsTrigger>
+              <TabsTrigger value="csv" className="gap-2">
+                <FileText className="h-4 w-4" />
+                CSV
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <div className="space-y-2">
+            <Label>Colunas</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {EXPORT_COLUMNS.map((column) => (
+                <label key={column.value} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={columns.includes(column.value)}
+                    onCheckedChange={() => toggleColumn(column.value)}
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {exportFormat === 'csv' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Separador</Label>
+                <Select value={delimiter} onValueChange={(v) => setDelimiter(v as CsvDelimiter)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CSV_DELIMITERS.map((d) => (
+                      <SelectItem key={d.label} value={d.value}>
+                        {d.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Codificação</Label>
+                <Select value={encoding} onValueChange={(v) => setEncoding(v as CsvEncoding)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CSV_ENCODINGS.map((e) => (
+                      <SelectItem key={e.value} value={e.value}>
+                        {e.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-2 text-center text-sm p-3 rounded-lg bg-muted">
+            <div>
+              <p className="text-xs text-muted-foreground">Entradas</p>
+              <p className="font-medium text-income">{formatCurrency(totals.income)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Saídas</p>
+              <p className="font-medium text-expense">{formatCurrency(totals.expense)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Saldo</p>
+              <p className="font-medium">{formatCurrency(totals.balance)}</p>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={isExporting || columns.length === 0 || transactions.length === 0}
+          >
+            {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Exportar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
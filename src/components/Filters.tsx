@@ -1,7 +1,9 @@
 import { useState } from 'react';
 import { format, subDays, startOfMonth, endOfMonth } from 'date-fns';
-import { CalendarIcon, Filter, X, Tag } from 'lucide-react';
+import { CalendarIcon, Filter, X, Tag, Paperclip } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Calendar } from '@/components/ui/calendar';
 import {
   Select,
@@ -26,8 +28,11 @@ export interface FilterState {
   status: TransactionStatus | 'all';
   category: string | 'all';
   onlyUncategorized: boolean;
+  missingReceiptAbove: number | null; // Saídas acima do valor sem comprovante anexado
 }
 
+export const DEFAULT_RECEIPT_THRESHOLD = 100;
+
 interface FiltersProps {
   filters: FilterState;
   onFiltersChange: (filters: FilterState) => void;
@@ -52,6 +57,14 @@ const quickFilters = [
 
 export function Filters({ filters, onFiltersChange, categories, onManageCategories }: FiltersProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [receiptThreshold, setReceiptThreshold] = useState(
+    String(filters.missingReceiptAbove ?? DEFAULT_RECEIPT_THRESHOLD).replace('.', ',')
+  );
+
+  const applyReceiptFilter = () => {
+    const value = parseFloat(receiptThreshold.replace(/\./g, '').replace(',', '.'));
+    onFiltersChange({ ...filters, missingReceiptAbove: isNaN(value) || value < 0 ? 0 : value });
+  };
 
   const activeFiltersCount = [
     filters.startDate || filters.endDate,
@@ -59,6 +72,7 @@ export function Filters({ filters, onFiltersChange, categories, onManageCategori
     filters.status !== 'all',
     filters.category !== 'all',
     filters.onlyUncategorized,
+    filters.missingReceiptAbove !== null,
   ].filter(Boolean).length;
 
   const clearFilters = () => {
@@ -69,6 +83,7 @@ export function Filters({ filters, onFiltersChange, categories, onManageCategori
       status: 'all',
       category: 'all',
       onlyUncategorized: false,
+      missingReceiptAbove: null,
     });
   };
 
@@ -204,6 +219,47 @@ export function Filters({ filters, onFiltersChange, categories, onManageCategori
           <span className="hidden sm:inline">Pendentes Cat.</span>
         </Button>
 
+        {/* Missing receipt filter */}
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              variant={filters.missingReceiptAbove !== null ? 'default' : 'outline'}
+              size="sm"
+              className="h-8 text-xs sm:text-sm flex-shrink-0 whitespace-nowrap gap-1.5"
+            >
+              <Paperclip className="h-3 w-3 sm:h-4 sm:w-4" />
+              <span className="sm:hidden">Sem comp.</span>
+              <span className="hidden sm:inline">Sem comprovante</span>
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 space-y-3" align="start">
+            <div className="space-y-2">
+              <Label htmlFor="receipt-threshold">Saídas acima de (R$)</Label>
+              <Input
+                id="receipt-threshold"
+                value={receiptThreshold}
+                onChange={(e) => setReceiptThreshold(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && applyReceiptFilter()}
+                placeholder="0,00"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" className="flex-1" onClick={applyReceiptFilter}>
+                Aplicar
+              </Button>
+              {filters.missingReceiptAbove !== null && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onFiltersChange({ ...filters, missingReceiptAbove: null })}
+                >
+                  Remover
+                </Button>
+              )}
+            </div>
+          </PopoverContent>
+        </Popover>
+
         {/* Manage Categories */}
         {onManageCategories && (
           <Button variant="outline" size="sm" onClick={onManageCategories} className="h-8 text-xs sm:text-sm flex-shrink-0">
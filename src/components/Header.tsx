@@ -4,6 +4,8 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
 import { AccountSelector } from '@/components/AccountSelector';
+import { useReporting } from '@/contexts/ReportingContext';
+import { REPORTING_REGIMES } from '@/lib/reporting';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 
@@ -19,6 +21,8 @@ const tabs = [
   { id: 'dashboard', label: 'Dashboard' },
   { id: 'transactions', label: 'Lançamentos' },
   { id: 'analytics', label: 'Análise' },
+  { id: 'reports', label: 'Relatórios' },
+  { id: 'consolidated', label: 'Consolidado' },
 ];
 
 export function Header({
@@ -30,6 +34,7 @@ export function Header({
 }: HeaderProps) {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const { signOut } = useAuth();
+  const { regime, setRegime } = useReporting();
   const { toast } = useToast();
 
   const handleLogout = async () => {
@@ -43,6 +48,28 @@ export function Header({
     }
   };
 
+  const renderRegimeSwitch = (className?: string) => (
+    <div
+      className={cn('items-center rounded-lg bg-muted p-0.5 text-xs', className)}
+      title="Data usada nos relatórios e gráficos"
+    >
+      {REPORTING_REGIMES.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => setRegime(option.value)}
+          className={cn(
+            'px-2 py-1 rounded-md font-medium transition-colors',
+            regime === option.value
+              ? 'bg-card text-foreground shadow-sm'
+              : 'text-muted-foreground hover:text-foreground'
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+
   return (
     <header className="sticky top-0 z-50 bg-card/80 backdrop-blur-lg border-b border-border">
       <div className="container mx-auto px-4">
@@ -91,6 +118,7 @@ export function Header({
 
           {/* Actions */}
           <div className="flex items-center gap-2">
+            {renderRegimeSwitch('hidden xl:flex')}
             <Button
               variant="outline"
               size="sm"
@@ -135,6 +163,11 @@ export function Header({
             <div className="mb-4 lg:hidden">
               <AccountSelector />
             </div>
+
+            <div className="mb-4 flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Regime</span>
+              {renderRegimeSwitch('flex')}
+            </div>
             
             <nav className="flex flex-col gap-1">
               {tabs.map((tab) => (
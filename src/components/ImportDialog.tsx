@@ -1,7 +1,16 @@
-import { useState, useRef } from 'react';
-import { Upload, FileText, AlertCircle, FileSpreadsheet } from 'lucide-react';
+import { useState, useRef, useMemo } from 'react';
+import { Upload, FileText, AlertCircle, FileSpreadsheet, Landmark, CheckCircle2, Trash2, Copy, Receipt } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Dialog,
   DialogContent,
@@ -9,48 +18,166 @@ import {
   DialogTitle,
   DialogDescription,
 } from '@/components/ui/dialog';
-import { parseCSV, convertToTransactions } from '@/lib/csvParser';
+import {
+  CSVMapping,
+  parseCSV,
+  decodeCSV,
+  guessCSVMapping,
+  getClosingBalance,
+  convertToTransactions,
+} from '@/lib/csvParser';
 import { parsePDF, convertPDFToTransactions } from '@/lib/pdfParser';
-import { Transaction } from '@/types/finance';
+import { readOFXFile, parseOFX, convertOFXToTransactions, OFXLedgerBalance } from '@/lib/ofxParser';
+import {
+  readNFeFile,
+  parseNFe,
+  getNFeDirection,
+  convertNFeToTransactions,
+  ParsedNFe,
+} from '@/lib/nfeParser';
+import { formatCNPJ } from '@/lib/cnpj';
+import { findDuplicates } from '@/lib/duplicateDetection';
+import { useImportProfiles } from '@/hooks/useImportProfiles';
+import { useAccounts } from '@/contexts/AccountContext';
+import { CSVMappingStep } from '@/components/CSVMappingStep';
+import { Transaction, ImportFormat, CategorizationRule } from '@/types/finance';
+
+export interface ImportSummary {
+  fileName: string;
+  format: ImportFormat;
+  duplicatesFound: number;
+  duplicatesSkipped: boolean;
+}
+
+const MANUAL_MAPPING = 'manual';
+
+// NF-e files are XML; every other format uses its own name as the extension
+const FILE_EXTENSIONS: Record<ImportFormat, string> = {
+  csv: 'csv',
+  pdf: 'pdf',
+  ofx: 'ofx',
+  nfe: 'xml',
+};
 
 interface ImportDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onImport: (transactions: Omit<Transaction, 'id' | 'createdAt'>[]) => Promise<number> | number;
+  onImport: (
+    transactions: Omit<Transaction, 'id' | 'createdAt'>[],
+    summary: ImportSummary
+  ) => Promise<number> | number;
+  currentBalance?: number;
+  existingTransactions?: Transaction[];
+  rules?: CategorizationRule[];
 }
 
-export function ImportDialog({ open, onOpenChange, onImport }: ImportDialogProps) {
+export function ImportDialog({
+  open,
+  onOpenChange,
+  onImport,
+  currentBalance,
+  existingTransactions = [],
+  rules = [],
+}: ImportDialogProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [preview, setPreview] = useState<Omit<Transaction, 'id' | 'createdAt'>[]>([]);
+  const [statementBalance, setStatementBalance] = useState<OFXLedgerBalance | null>(null);
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [importType, setImportType] = useState<'csv' | 'pdf'>('csv');
+  const [importType, setImportFormat] = useState<ImportFormat>('csv');
+  const [source, setSource] = useState<{ fileName: string; format: ImportFormat } | null>(null);
+  const [csvFile, setCsvFile] = useState<{ name: string; buffer: ArrayBuffer } | null>(null);
+  const [csvMapping, setCsvMapping] = useState<CSVMapping | null>(null);
+  const [selectedProfileId, setSelectedProfileId] = useState(MANUAL_MAPPING);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [nfe, setNfe] = useState<ParsedNFe | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { profiles, saveProfile, deleteProfile } = useImportProfiles();
+  const { selectedAccount } = useAccounts();
+
+  const selectedProfile = profiles.find(p => p.id === selectedProfileId);
+
+  const duplicates = useMemo(
+    () => findDuplicates(preview, existingTransactions),
+    [preview, existingTransactions]
+  );
+  const categorizedCount = preview.filter(t => t.category).length;
+  const toImport = skipDuplicates ? preview.filter((_, i) => !duplicates.has(i)) : preview;
+
+  const applyCSVMapping = (buffer: ArrayBuffer, mapping: CSVMapping) => {
+    const parsed = parseCSV(decodeCSV(buffer, mapping.encoding), mapping);
+    if (parsed.length === 0) return false;
+
+    const closing = getClosingBalance(parsed);
+    setStatementBalance(closing);
+    setPreview(convertToTransactions(parsed, rules));
+    return true;
+  };
 
   const handleFile = async (file: File) => {
     setError('');
+    setStatementBalance(null);
+    setNfe(null);
     setIsLoading(true);
 
+    const fileName = file.name.toLowerCase();
+    const format = (Object.keys(FILE_EXTENSIONS) as ImportFormat[]).find(f => fileName.endsWith(`.${FILE_EXTENSIONS[f]}`));
+    setSource(format ? { fileName: file.name, format } : null);
+
     try {
-      if (file.name.endsWith('.csv')) {
-        const content = await file.text();
-        const parsed = parseCSV(content);
-        if (parsed.length === 0) {
-          setError('Não foi possível ler o arquivo. Verifique o formato.');
-          return;
+      if (fileName.endsWith('.csv')) {
+        const buffer = await file.arrayBuffer();
+
+        // A saved profile imports in one click; fall back to the mapping step if it no longer fits
+        if (selectedProfile && applyCSVMapping(buffer, selectedProfile.mapping)) return;
+
+        const utf8 = decodeCSV(buffer, 'utf-8');
+        const guessed: CSVMapping = selectedProfile?.mapping ?? {
+          ...guessCSVMapping(utf8),
+          // Invalid UTF-8 sequences usually mean a Latin-1 export
+          encoding: utf8.includes('\uFFFD') ? 'latin1' : 'utf-8',
+        };
+        if (selectedProfile) {
+          setError('O perfil selecionado não reconheceu nenhum lançamento. Ajuste o mapeamento.');
         }
-        const transactions = convertToTransactions(parsed);
-        setPreview(transactions);
-      } else if (file.name.endsWith('.pdf')) {
+        setCsvFile({ name: file.name, buffer });
+        setCsvMapping(guessed);
+      } else if (fileName.endsWith('.pdf')) {
         const parsed = await parsePDF(file);
         if (parsed.length === 0) {
           setError('Não foi possível extrair transações do PDF. Tente um formato CSV.');
           return;
         }
-        const transactions = convertPDFToTransactions(parsed);
+        const transactions = convertPDFToTransactions(parsed, rules);
         setPreview(transactions);
+      } else if (fileName.endsWith('.ofx')) {
+        const content = await readOFXFile(file);
+        const parsed = parseOFX(content);
+        if (parsed.transactions.length === 0) {
+          setError('Nenhum lançamento encontrado no arquivo OFX.');
+          return;
+        }
+        setStatementBalance(parsed.ledgerBalance);
+        setPreview(convertOFXToTransactions(parsed.transactions, rules));
+      } else if (fileName.endsWith('.xml')) {
+        const parsed = parseNFe(await readNFeFile(file));
+        if (!parsed) {
+          setError('O arquivo não é uma NF-e válida.');
+          return;
+        }
+        if (!selectedAccount?.cnpj) {
+          setError('Informe o CNPJ da empresa na conta para importar NF-e.');
+          return;
+        }
+        const direction = getNFeDirection(parsed, selectedAccount.cnpj);
+        if (!direction) {
+          setError(`A NF-e não foi emitida nem destinada ao CNPJ ${formatCNPJ(selectedAccount.cnpj)}.`);
+          return;
+        }
+        setNfe(parsed);
+        setPreview(convertNFeToTransactions(parsed, direction, rules));
       } else {
-        setError('Formato não suportado. Use CSV ou PDF.');
+        setError('Formato não suportado. Use CSV, PDF, OFX ou XML de NF-e.');
       }
     } catch (err) {
       console.error('Error parsing file:', err);
@@ -67,10 +194,48 @@ export function ImportDialog({ open, onOpenChange, onImport }: ImportDialogProps
     if (file) handleFile(file);
   };
 
+  const handleConfirmMapping = async (mapping: CSVMapping, profileName: string | null) => {
+    if (!csvFile) return;
+
+    if (profileName) {
+      const profile = await saveProfile(profileName, mapping);
+      if (profile) setSelectedProfileId(profile.id);
+    }
+
+    if (applyCSVMapping(csvFile.buffer, mapping)) {
+      setError('');
+      setCsvFile(null);
+      setCsvMapping(null);
+    } else {
+      setError('Nenhum lançamento reconhecido com este mapeamento. Confira as colunas e o formato de data.');
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!selectedProfile) return;
+    if (await deleteProfile(selectedProfile.id)) {
+      setSelectedProfileId(MANUAL_MAPPING);
+    }
+  };
+
+  const resetState = () => {
+    setPreview([]);
+    setStatementBalance(null);
+    setNfe(null);
+    setCsvFile(null);
+    setCsvMapping(null);
+    setSkipDuplicates(true);
+  };
+
   const handleConfirmImport = async () => {
     setIsLoading(true);
     try {
-      await onImport(preview);
+      await onImport(toImport, {
+        fileName: source?.fileName ?? '',
+        format: source?.format ?? importType,
+        duplicatesFound: duplicates.size,
+        duplicatesSkipped: skipDuplicates,
+      });
       setPreview([]);
       onOpenChange(false);
     } finally {
@@ -85,12 +250,22 @@ export function ImportDialog({ open, onOpenChange, onImport }: ImportDialogProps
     }).format(value);
   };
 
-  const acceptedFormats = importType === 'csv' ? '.csv' : '.pdf';
+  const acceptedFormats = `.${FILE_EXTENSIONS[importType]}`;
+
+  // Balance the account would have after importing the completed rows
+  const balanceAfterImport = currentBalance !== undefined
+    ? toImport
+        .filter((t) => t.status === 'completed')
+        .reduce((sum, t) => sum + (t.type === 'income' ? t.value : -t.value), currentBalance)
+    : null;
+  const balanceDifference = statementBalance && balanceAfterImport !== null
+    ? statementBalance.amount - balanceAfterImport
+    : null;
 
   return (
     <Dialog open={open} onOpenChange={(o) => {
       if (!o) {
-        setPreview([]);
+        resetState();
         setError('');
       }
       onOpenChange(o);
@@ -99,14 +274,34 @@ export function ImportDialog({ open, onOpenChange, onImport }: ImportDialogProps
         <DialogHeader>
           <DialogTitle>Importar Extrato Bancário</DialogTitle>
           <DialogDescription>
-            Importe um arquivo CSV ou PDF com seus lançamentos. O sistema irá criar as transações automaticamente.
+            Importe um arquivo CSV, PDF ou OFX com seus lançamentos, ou o XML de uma NF-e para gerar contas a pagar e a receber.
           </DialogDescription>
         </DialogHeader>
 
-        {preview.length === 0 ? (
+        {csvFile && csvMapping && preview.length === 0 ? (
           <div className="space-y-4">
-            <Tabs value={importType} onValueChange={(v) => setImportType(v as 'csv' | 'pdf')}>
-              <TabsList className="grid w-full grid-cols-2">
+            {error && (
+              <div className="flex items-center gap-2 text-expense text-sm">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+            <CSVMappingStep
+              buffer={csvFile.buffer}
+              fileName={csvFile.name}
+              initialMapping={csvMapping}
+              initialProfileName={selectedProfile?.name}
+              onCancel={() => {
+                resetState();
+                setError('');
+              }}
+              onConfirm={handleConfirmMapping}
+            />
+          </div>
+        ) : preview.length === 0 ? (
+          <div className="space-y-4">
+            <Tabs value={importType} onValueChange={(v) => setImportFormat(v as ImportFormat)}>
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="csv" className="gap-2">
                   <FileSpreadsheet className="h-4 w-4" />
                   CSV
@@ -115,9 +310,48 @@ export function ImportDialog({ open, onOpenChange, onImport }: ImportDialogProps
                   <FileText className="h-4 w-4" />
                   PDF
                 </TabsTrigger>
+                <TabsTrigger value="ofx" className="gap-2">
+                  <Landmark className="h-4 w-4" />
+                  OFX
+                </TabsTrigger>
+                <TabsTrigger value="nfe" className="gap-2">
+                  <Receipt className="h-4 w-4" />
+                  NF-e
+                </TabsTrigger>
               </TabsList>
             </Tabs>
 
+            {importType === 'csv' && (
+              <div className="space-y-1">
+                <Label className="text-xs">Perfil de importação</Label>
+                <div className="flex gap-2">
+                  <Select value={selectedProfileId} onValueChange={setSelectedProfileId}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={MANUAL_MAPPING}>Configurar colunas manualmente</SelectItem>
+                      {profiles.map(profile => (
+                        <SelectItem key={profile.id} value={profile.id}>
+                          {profile.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedProfile && (
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={handleDeleteProfile}
+                      title="Excluir perfil"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+
             <div
               className={`border-2 border-dashed rounded-xl p-8 text-center transition-colors ${
                 isDragging ? 'border-primary bg-primary/5' : 'border-border'
@@ -149,7 +383,7 @@ export function ImportDialog({ open, onOpenChange, onImport }: ImportDialogProps
                 <>
                   <Upload className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
                   <p className="text-sm text-muted-foreground mb-2">
-                    Arraste seu arquivo {importType.toUpperCase()} aqui ou
+                    Arraste seu arquivo {importType === 'nfe' ? 'XML da NF-e' : importType.toUpperCase()} aqui ou
                   </p>
                   <Button
                     variant="outline"
@@ -170,16 +404,32 @@ export function ImportDialog({ open, onOpenChange, onImport }: ImportDialogProps
               <div className="mt-6 text-xs text-muted-foreground">
                 {importType === 'csv' ? (
                   <>
-                    <p className="font-medium mb-1">Formato CSV esperado:</p>
-                    <code className="bg-muted px-2 py-1 rounded">
-                      Data;Descrição;Valor
-                    </code>
+                    <p className="font-medium mb-1">CSV de qualquer banco:</p>
+                    <p>
+                      {selectedProfile
+                        ? `As colunas serão lidas com o perfil "${selectedProfile.name}"`
+                        : 'Você escolhe as colunas de data, descrição, valor, D/C e saldo após enviar o arquivo'}
+                    </p>
                   </>
-                ) : (
+                ) : importType === 'pdf' ? (
                   <>
                     <p className="font-medium mb-1">PDFs suportados:</p>
                     <p>Extratos bancários em formato PDF (texto selecionável)</p>
                   </>
+                ) : importType === 'ofx' ? (
+                  <>
+                    <p className="font-medium mb-1">OFX suportados:</p>
+                    <p>OFX 1.x (SGML) e 2.x (XML) — Sicoob, Inter, Itaú, BB e outros</p>
+                  </>
+                ) : (
+                  <>
+                    <p className="font-medium mb-1">NF-e de compra ou venda:</p>
+                    <p>
+                      {selectedAccount?.cnpj
+                        ? `Notas emitidas pelo CNPJ ${formatCNPJ(selectedAccount.cnpj)} viram contas a receber; as destinadas a ele, contas a pagar — uma por duplicata`
+                        : 'Cadastre o CNPJ da empresa na conta para identificar compras e vendas'}
+                    </p>
+                  </>
                 )}
               </div>
             </div>
@@ -190,15 +440,37 @@ export function ImportDialog({ open, onOpenChange, onImport }: ImportDialogProps
               <FileText className="h-4 w-4" />
               {preview.length} lançamentos encontrados
             </div>
+            {nfe && (
+              <div className="p-3 bg-muted rounded-lg text-sm space-y-1">
+                <p className="font-medium">
+                  NF-e {nfe.number}{nfe.series && ` · série ${nfe.series}`} ·{' '}
+                  {preview[0]?.type === 'income' ? 'Venda (a receber)' : 'Compra (a pagar)'}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Total {formatCurrency(nfe.total)} · {nfe.duplicatas.length > 0
+                    ? `${nfe.duplicatas.length} duplicata(s)`
+                    : 'sem duplicatas, vencimento na emissão'}
+                </p>
+                <p className="text-xs text-muted-foreground font-mono break-all">{nfe.accessKey}</p>
+              </div>
+            )}
             <div className="max-h-64 overflow-y-auto space-y-2">
               {preview.slice(0, 10).map((t, i) => (
                 <div
                   key={i}
-                  className="flex items-center justify-between p-3 bg-muted rounded-lg text-sm"
+                  className={`flex items-center justify-between p-3 bg-muted rounded-lg text-sm ${
+                    duplicates.has(i) && skipDuplicates ? 'opacity-50' : ''
+                  }`}
                 >
                   <div className="flex-1 min-w-0">
                     <p className="font-medium truncate">{t.description}</p>
-                    <p className="text-xs text-muted-foreground">{t.date}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {t.dueDate ? `Venc. ${t.dueDate}` : t.date}
+                      {t.category && ` · ${t.category}`}
+                      {duplicates.has(i) && (
+                        <span className="ml-2 text-warning font-medium">Possível duplicata</span>
+                      )}
+                    </p>
                   </div>
                   <span
                     className={`font-semibold ${
@@ -216,22 +488,81 @@ export function ImportDialog({ open, onOpenChange, onImport }: ImportDialogProps
                 </p>
               )}
             </div>
-            <div className="p-3 bg-warning-muted rounded-lg text-sm">
-              <p className="font-medium text-warning">Atenção:</p>
-              <p className="text-muted-foreground">
-                Os lançamentos serão importados sem categoria. Você precisará categorizá-los manualmente.
-              </p>
-            </div>
+            {duplicates.size > 0 && (
+              <div className="p-3 bg-warning-muted rounded-lg text-sm space-y-2">
+                <p className="flex items-center gap-2 font-medium text-warning">
+                  <Copy className="h-4 w-4" />
+                  {duplicates.size} lançamento{duplicates.size !== 1 ? 's' : ''} já existe{duplicates.size !== 1 ? 'm' : ''} nesta conta
+                </p>
+                <label className="flex items-center gap-2 text-muted-foreground">
+                  <Checkbox
+                    checked={skipDuplicates}
+                    onCheckedChange={(checked) => setSkipDuplicates(checked === true)}
+                  />
+                  Ignorar possíveis duplicatas
+                </label>
+              </div>
+            )}
+            {statementBalance && (
+              <div
+                className={`p-3 rounded-lg text-sm ${
+                  balanceDifference !== null && Math.abs(balanceDifference) >= 0.01
+                    ? 'bg-expense-muted'
+                    : 'bg-income-muted'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">
+                    Saldo do extrato
+                    {statementBalance.date && ` em ${statementBalance.date.split('-').reverse().join('/')}`}
+                  </span>
+                  <span className="font-semibold">{formatCurrency(statementBalance.amount)}</span>
+                </div>
+                {balanceAfterImport !== null && balanceDifference !== null && (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <span className="text-muted-foreground">Saldo da conta após importar</span>
+                      <span className="font-semibold">{formatCurrency(balanceAfterImport)}</span>
+                    </div>
+                    {Math.abs(balanceDifference) < 0.01 ? (
+                      <p className="flex items-center gap-1 mt-1 text-income font-medium">
+                        <CheckCircle2 className="h-4 w-4" />
+                        Saldos conferem
+                      </p>
+                    ) : (
+                      <p className="flex items-center gap-1 mt-1 text-expense font-medium">
+                        <AlertCircle className="h-4 w-4" />
+                        Diferença de {formatCurrency(balanceDifference)}
+                      </p>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+            {categorizedCount < preview.length && (
+              <div className="p-3 bg-warning-muted rounded-lg text-sm">
+                <p className="font-medium text-warning">Atenção:</p>
+                <p className="text-muted-foreground">
+                  {categorizedCount > 0
+                    ? `${categorizedCount} lançamento(s) categorizados pelas regras. Os demais precisarão ser categorizados manualmente.`
+                    : 'Os lançamentos serão importados sem categoria. Você precisará categorizá-los manualmente.'}
+                </p>
+              </div>
+            )}
             <div className="flex gap-3">
               <Button
                 variant="outline"
                 className="flex-1"
-                onClick={() => setPreview([])}
+                onClick={resetState}
               >
                 Cancelar
               </Button>
-              <Button className="flex-1" onClick={handleConfirmImport}>
-                Importar {preview.length} Lançamentos
+              <Button
+                className="flex-1"
+                onClick={handleConfirmImport}
+                disabled={isLoading || toImport.length === 0}
+              >
+                Importar {toImport.length} Lançamentos
               </Button>
             </div>
           </div>
@@ -0,0 +1,158 @@
+import { useState, useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { History, Undo2, FileText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ImportBatch, Transaction } from '@/types/finance';
+
+interface ImportHistoryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  batches: ImportBatch[];
+  transactions: Transaction[];
+  onDeleteBatch: (id: string) => Promise<boolean>;
+}
+
+export function ImportHistory({
+  open,
+  onOpenChange,
+  batches,
+  transactions,
+  onDeleteBatch,
+}: ImportHistoryProps) {
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Rows still present per batch (some may have been deleted by hand since)
+  const remainingByBatch = useMemo(() => {
+    const counts = new Map<string, number>();
+    transactions.forEach(t => {
+      if (t.importBatchId) counts.set(t.importBatchId, (counts.get(t.importBatchId) || 0) + 1);
+    });
+    return counts;
+  }, [transactions]);
+
+  const formatDate = (date: string) => format(parseISO(date), 'dd/MM/yyyy', { locale: ptBR });
+
+  const batchToDelete = batches.find(b => b.id === deleteId);
+
+  const confirmDelete = async () => {
+    if (!deleteId) return;
+    setIsLoading(true);
+    await onDeleteBatch(deleteId);
+    setIsLoading(false);
+    setDeleteId(null);
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-hidden flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Histórico de Importações
+            </DialogTitle>
+            <DialogDescription>
+              Desfaça uma importação para remover todos os lançamentos criados por ela.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex-1 overflow-y-auto space-y-2">
+            {batches.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Nenhuma importação registrada
+              </p>
+            ) : (
+              batches.map(batch => {
+                const remaining = remainingByBatch.get(batch.id) || 0;
+                return (
+                  <div
+                    key={batch.id}
+                    className="flex items-center justify-between gap-3 p-3 bg-card rounded-lg border border-border"
+                  >
+                    <div className="flex items-start gap-3 min-w-0">
+                      <FileText className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium text-sm truncate">{batch.fileName}</p>
+                          <Badge variant="secondary" className="uppercase text-[10px]">
+                            {batch.format}
+                          </Badge>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {format(parseISO(batch.createdAt), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                          {' · '}
+                          {remaining === batch.rowCount
+                            ? `${batch.rowCount} lançamentos`
+                            : `${remaining} de ${batch.rowCount} lançamentos`}
+                        </p>
+                        {batch.startDate && batch.endDate && (
+                          <p className="text-xs text-muted-foreground">
+                            Período: {formatDate(batch.startDate)} a {formatDate(batch.endDate)}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive flex-shrink-0"
+                      onClick={() => setDeleteId(batch.id)}
+                    >
+                      <Undo2 className="h-4 w-4 mr-1" />
+                      Desfazer
+                    </Button>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteId} onOpenChange={(open) => !open && setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Desfazer importação?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {batchToDelete
+                ? `Os ${remainingByBatch.get(batchToDelete.id) || 0} lançamentos importados de "${batchToDelete.fileName}" serão excluídos, inclusive os que já foram categorizados.`
+                : ''}{' '}
+              Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isLoading}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              disabled={isLoading}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir lançamentos
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
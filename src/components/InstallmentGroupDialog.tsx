@@ -0,0 +1,263 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Layers, Pencil, Check, X, Ban, Clock, CheckCircle2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Transaction, Category } from '@/types/finance';
+import { getInstallmentLabel } from '@/lib/installments';
+import { cn } from '@/lib/utils';
+
+interface InstallmentGroupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  installments: Transaction[];
+  categories: Category[];
+  onUpdateGroup: (
+    groupId: string,
+    updates: Pick<Partial<Transaction>, 'description' | 'category' | 'value'>
+  ) => Promise<boolean>;
+  onCancelRemaining: (groupId: string) => Promise<boolean>;
+}
+
+const NONE = 'none';
+
+export function InstallmentGroupDialog({
+  open,
+  onOpenChange,
+  installments,
+  categories,
+  onUpdateGroup,
+  onCancelRemaining,
+}: InstallmentGroupDialogProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState(NONE);
+  const [value, setValue] = useState('');
+  const [showCancelConfirm, setShowCancelConfirm] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const sorted = [...installments].sort(
+    (a, b) => (a.installmentNumber || 0) - (b.installmentNumber || 0)
+  );
+  const first = sorted[0];
+  const remaining = sorted.filter((t) => t.status === 'pending');
+  const groupId = first?.installmentGroupId;
+
+  useEffect(() => {
+    if (!open) {
+      setIsEditing(false);
+      setShowCancelConfirm(false);
+    }
+  }, [open]);
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(amount);
+
+  const formatDate = (date?: string) => (date ? format(parseISO(date), 'dd/MM/yyyy') : '-');
+
+  const startEdit = () => {
+    const next = remaining[0];
+    if (!next) return;
+    setDescription(next.description);
+    setCategory(next.category || NONE);
+    setValue(next.value.toString().replace('.', ','));
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!groupId) return;
+    const numericValue = parseFloat(value.replace(',', '.'));
+    if (!description.trim() || isNaN(numericValue) || numericValue <= 0) return;
+
+    setIsLoading(true);
+    const success = await onUpdateGroup(groupId, {
+      description: description.trim(),
+      category: category === NONE ? null : category,
+      value: numericValue,
+    });
+    setIsLoading(false);
+    if (success) setIsEditing(false);
+  };
+
+  const handleCancelRemaining = async () => {
+    if (!groupId) return;
+    setIsLoading(true);
+    const success = await onCancelRemaining(groupId);
+    setIsLoading(false);
+    setShowCancelConfirm(false);
+    if (success) onOpenChange(false);
+  };
+
+  if (!first) return null;
+
+  const total = sorted.reduce((sum, t) => sum + t.value, 0);
+  const paidTotal = sorted.filter((t) => t.status === 'completed').reduce((sum, t) => sum + t.value, 0);
+  const filteredCategories = categories.filter((c) => c.type === first.type);
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-hidden flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Layers className="h-5 w-5" />
+              {first.description}
+            </DialogTitle>
+            <DialogDescription>
+              {first.installmentTotal} parcelas · Total {formatCurrency(total)} · Pago {formatCurrency(paidTotal)}
+            </DialogDescription>
+          </DialogHeader>
+
+          {isEditing ? (
+            <div className="space-y-3 p-3 rounded-lg border border-primary/30 bg-primary/5">
+              <p className="text-sm font-medium">
+                Alterar as {remaining.length} parcela(s) pendente(s)
+              </p>
+              <div className="space-y-2">
+                <Label>Descrição</Label>
+                <Input value={description} onChange={(e) => setDescription(e.target.value)} />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>Valor da parcela (R$)</Label>
+                  <Input value={value} onChange={(e) => setValue(e.target.value)} placeholder="0,00" />
+                </div>
+                <div className="space-y-2">
+                  <Label>Categoria</Label>
+                  <Select value={category} onValueChange={setCategory}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="z-50">
+                      <SelectItem value={NONE}>Sem categoria</SelectItem>
+                      {filteredCategories.map((cat) => (
+                        <SelectItem key={cat.id} value={cat.name}>
+                          {cat.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)} disabled={isLoading}>
+                  <X className="h-4 w-4 mr-1" />
+                  Cancelar
+                </Button>
+                <Button size="sm" onClick={handleSave} disabled={isLoading}>
+                  <Check className="h-4 w-4 mr-1" />
+                  Salvar
+                </Button>
+              </div>
+            </div>
+          ) : (
+            remaining.length > 0 && (
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" className="flex-1" onClick={startEdit}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Editar restantes
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1 text-destructive hover:text-destructive"
+                  onClick={() => setShowCancelConfirm(true)}
+                >
+                  <Ban className="h-4 w-4 mr-2" />
+                  Cancelar restantes
+                </Button>
+              </div>
+            )
+          )}
+
+          <div className="flex-1 overflow-y-auto space-y-2">
+            {sorted.map((installment) => {
+              const isPending = installment.status === 'pending';
+              return (
+                <div
+                  key={installment.id}
+                  className={cn(
+                    'flex items-center justify-between gap-2 p-3 bg-card rounded-lg border border-border',
+                    !isPending && 'opacity-70'
+                  )}
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Badge variant="secondary" className="text-xs">
+                      {getInstallmentLabel(installment)}
+                    </Badge>
+                    <div className="min-w-0">
+                      <p className="text-sm truncate">Venc: {formatDate(installment.dueDate)}</p>
+                      <p className="text-xs text-muted-foreground flex items-center gap-1">
+                        {isPending ? (
+                          <>
+                            <Clock className="h-3 w-3 text-warning" />
+                            Pendente
+                          </>
+                        ) : (
+                          <>
+                            <CheckCircle2 className="h-3 w-3 text-income" />
+                            {installment.type === 'income' ? 'Recebido' : 'Pago'} em {formatDate(installment.date)}
+                          </>
+                        )}
+                      </p>
+                    </div>
+                  </div>
+                  <span className={cn('font-semibold whitespace-nowrap', installment.type === 'income' ? 'text-income' : 'text-expense')}>
+                    {formatCurrency(installment.value)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={showCancelConfirm} onOpenChange={setShowCancelConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancelar parcelas restantes?</AlertDialogTitle>
+            <AlertDialogDescription>
+              As {remaining.length} parcela(s) pendente(s) serão excluídas. As parcelas já pagas são mantidas.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isLoading}>Voltar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleCancelRemaining}
+              disabled={isLoading}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Cancelar parcelas
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,112 @@
+import { useMemo, useState } from 'react';
+import { addMonths, format, startOfMonth, subMonths } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ChevronLeft, ChevronRight, FileDown, Loader2, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Category, Transaction } from '@/types/finance';
+import { buildMonthlyReportData } from '@/lib/monthlyReport';
+import { useAccounts } from '@/contexts/AccountContext';
+import { useReporting } from '@/contexts/ReportingContext';
+import { useToast } from '@/hooks/use-toast';
+
+interface MonthlyReportPanelProps {
+  transactions: Transaction[];
+  categories: Category[];
+  initialBalance: number;
+}
+
+export function MonthlyReportPanel({ transactions, categories, initialBalance }: MonthlyReportPanelProps) {
+  const { selectedAccount } = useAccounts();
+  const { regime } = useReporting();
+  const { toast } = useToast();
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  const data = useMemo(
+    () => buildMonthlyReportData(transactions, categories, initialBalance, month, regime),
+    [transactions, categories, initialBalance, month, regime]
+  );
+
+  const handleGenerate = async () => {
+    if (!selectedAccount) return;
+    setIsGenerating(true);
+
+    try {
+      // jsPDF is only loaded when a report is actually requested
+      const { createMonthlyReportPdf } = await import('@/lib/monthlyReportPdf');
+      createMonthlyReportPdf(data, {
+        accountName: selectedAccount.name,
+        companyName: selectedAccount.company_name,
+        bankName: selectedAccount.bank_name,
+      }).save(`relatorio_${format(month, 'yyyy-MM')}.pdf`);
+    } catch (error) {
+      console.error('Error generating monthly report:', error);
+      toast({
+        title: 'Erro ao gerar relatório',
+        description: 'Não foi possível gerar o PDF.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-xl p-5 shadow-card space-y-4">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Printer className="h-5 w-5 text-primary" />
+          Relatório Mensal (PDF)
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex items-center">
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setMonth(subMonths(month, 1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium capitalize w-32 text-center">
+              {format(month, 'MMMM yyyy', { locale: ptBR })}
+            </span>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setMonth(addMonths(month, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+          <Button size="sm" onClick={handleGenerate} disabled={isGenerating || !selectedAccount}>
+            {isGenerating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileDown className="h-4 w-4 mr-2" />}
+            Gerar PDF
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        <div className="p-3 rounded-lg bg-muted">
+          <p className="text-xs text-muted-foreground">Entradas</p>
+          <p className="font-medium text-income">{formatCurrency(data.stats.periodIncome)}</p>
+        </div>
+        <div className="p-3 rounded-lg bg-muted">
+          <p className="text-xs text-muted-foreground">Saídas</p>
+          <p className="font-medium text-expense">{formatCurrency(data.stats.periodExpense)}</p>
+        </div>
+        <div className="p-3 rounded-lg bg-muted">
+          <p className="text-xs text-muted-foreground">Saldo no fim do mês</p>
+          <p className="font-medium">{formatCurrency(data.stats.closingBalance)}</p>
+        </div>
+        <div className="p-3 rounded-lg bg-muted">
+          <p className="text-xs text-muted-foreground">Pendências no mês</p>
+          <p className="font-medium">{data.pending.length}</p>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        O PDF traz os indicadores do mês, a evolução do saldo, as categorias, as maiores despesas e as contas a pagar e
+        a receber com vencimento no mês da conta {selectedAccount?.name}. É gerado no navegador, sem enviar dados.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import QRCode from 'qrcode';
+import { Copy, Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAccounts } from '@/contexts/AccountContext';
+import { useToast } from '@/hooks/use-toast';
+import { buildPixPayload, toEmvText } from '@/lib/pix';
+import { Transaction } from '@/types/finance';
+
+interface PixChargeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  transaction: Transaction | null;
+}
+
+export function PixChargeDialog({ open, onOpenChange, transaction }: PixChargeDialogProps) {
+  const { selectedAccount } = useAccounts();
+  const { toast } = useToast();
+  const [qrCodeUrl, setQrCodeUrl] = useState<string | null>(null);
+
+  // Name and city lose accents and symbols in the code, so they must still have something left
+  const merchantName = [selectedAccount?.company_name, selectedAccount?.name].find(
+    (name) => !!name && !!toEmvText(name, 25)
+  );
+  const canCharge =
+    !!selectedAccount?.pix_key && !!merchantName && !!toEmvText(selectedAccount.pix_city || '', 15);
+  // The transaction id doubles as txid, so the payment can be traced back to the receivable
+  const payload = transaction && canCharge
+    ? buildPixPayload({
+        key: selectedAccount.pix_key,
+        merchantName,
+        merchantCity: selectedAccount.pix_city,
+        amount: transaction.value,
+        txid: transaction.id,
+        description: transaction.description,
+      })
+    : null;
+
+  useEffect(() => {
+    if (!open || !payload) {
+      setQrCodeUrl(null);
+      return;
+    }
+
+    let cancelled = false;
+    QRCode.toDataURL(payload, { width: 256, margin: 1 })
+      .then((url) => {
+        if (!cancelled) setQrCodeUrl(url);
+      })
+      .catch((error) => console.error('Error generating PIX QR code:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, payload]);
+
+  const handleCopy = async () => {
+    if (!payload) return;
+    try {
+      await navigator.clipboard.writeText(payload);
+      toast({
+        title: 'Código copiado',
+        description: 'Envie o PIX copia e cola ao cliente.',
+      });
+    } catch (error) {
+      console.error('Error copying PIX payload:', error);
+    }
+  };
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(amount);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cobrar via PIX</DialogTitle>
+          {transaction && (
+            <DialogDescription>
+              {transaction.description} • {formatCurrency(transaction.value)}
+              {transaction.dueDate && ` • vence em ${format(parseISO(transaction.dueDate), 'dd/MM/yyyy')}`}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {!canCharge ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Cadastre na conta a chave PIX, a cidade e um nome com letras ou números para gerar cobranças.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-center">
+              {qrCodeUrl ? (
+                <img src={qrCodeUrl} alt="QR Code PIX" className="h-64 w-64 rounded-md border border-border" />
+              ) : (
+                <div className="h-64 w-64 flex items-center justify-center">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground text-center">
+              Chave {selectedAccount.pix_key} • {merchantName}
+            </p>
+            <Textarea readOnly value={payload || ''} className="font-mono text-xs h-24 resize-none" />
+            <div className="flex justify-end gap-2">
+              {qrCodeUrl && (
+                <Button variant="outline" size="sm" asChild>
+                  <a href={qrCodeUrl} download={`pix-${transaction?.id.slice(0, 8)}.png`}>
+                    <Download className="h-4 w-4 mr-1" />
+                    Baixar QR Code
+                  </a>
+                </Button>
+              )}
+              <Button size="sm" onClick={handleCopy}>
+                <Copy className="h-4 w-4 mr-1" />
+                Copiar código
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
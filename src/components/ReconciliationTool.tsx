@@ -1,5 +1,5 @@
-import { useState, useMemo } from 'react';
-import { format } from 'date-fns';
+import { useState, useMemo, useEffect } from 'react';
+import { endOfMonth, format, parseISO, startOfMonth } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import {
   ArrowUpDown,
@@ -8,14 +8,21 @@ import {
   CheckCircle2,
   AlertTriangle,
   ArrowRightLeft,
+  FileText,
+  Scale,
+  Lock,
+  LockOpen,
+  Plus,
+  Trash2,
 } from 'lucide-react';
-import { Transaction, Category } from '@/types/finance';
+import { Transaction, Category, ReconciliationSession } from '@/types/finance';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Dialog,
   DialogContent,
@@ -23,6 +30,26 @@ import {
   DialogTitle,
   DialogDescription,
 } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { StatementReconciliation } from '@/components/StatementReconciliation';
+import { hasOverlap } from '@/lib/reconciliationSessions';
+import { useAuth } from '@/hooks/useAuth';
 
 interface ReconciliationToolProps {
   open: boolean;
@@ -31,18 +58,49 @@ interface ReconciliationToolProps {
   categories: Category[];
   initialBalance: number;
   onUpdateTransaction: (id: string, updates: Partial<Transaction>) => void | Promise<void>;
+  sessions: ReconciliationSession[];
+  onCreateSession: (session: Pick<ReconciliationSession, 'periodStart' | 'periodEnd' | 'bankBalance'>) => Promise<ReconciliationSession | null>;
+  onUpdateBankBalance: (id: string, bankBalance: number | null) => Promise<boolean>;
+  onSetVerified: (id: string, transactionId: string, verified: boolean) => Promise<boolean>;
+  onCloseSession: (id: string) => Promise<boolean>;
+  onReopenSession: (id: string) => Promise<boolean>;
+  onDeleteSession: (id: string) => Promise<boolean>;
 }
 
+// Radix Select doesn't accept an empty value
+const NO_SESSION = 'none';
+
 export function ReconciliationTool({
   open,
   onOpenChange,
   transactions,
   initialBalance,
   onUpdateTransaction,
+  sessions,
+  onCreateSession,
+  onUpdateBankBalance,
+  onSetVerified,
+  onCloseSession,
+  onReopenSession,
+  onDeleteSession,
 }: ReconciliationToolProps) {
+  const { user } = useAuth();
   const [bankBalance, setBankBalance] = useState('');
-  const [verifiedIds, setVerifiedIds] = useState<Set<string>>(new Set());
   const [searchQuery, setSearchQuery] = useState('');
+  const [sessionId, setSessionId] = useState<string>(NO_SESSION);
+  const [isCreating, setIsCreating] = useState(false);
+  const [newPeriodStart, setNewPeriodStart] = useState(() => format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [newPeriodEnd, setNewPeriodEnd] = useState(() => format(endOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [confirmClose, setConfirmClose] = useState(false);
+
+  const session = sessions.find((s) => s.id === sessionId) || null;
+  const isClosed = session?.status === 'closed';
+  const verifiedIds = useMemo(() => new Set(session?.verifiedIds || []), [session]);
+
+  // The bank balance field follows the selected session
+  useEffect(() => {
+    setBankBalance(session?.bankBalance != null ? session.bankBalance.toFixed(2).replace('.', ',') : '');
+  }, [session?.id, session?.bankBalance]);
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
@@ -51,11 +109,20 @@ export function ReconciliationTool({
     }).format(value);
   };
 
+  // With a session only its period is compared; before it, everything counts as opening balance
   const completedTransactions = useMemo(() => {
     return transactions
       .filter((t) => t.status === 'completed')
+      .filter((t) => !session || (t.date >= session.periodStart && t.date <= session.periodEnd))
       .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  }, [transactions]);
+  }, [transactions, session]);
+
+  const openingBalance = useMemo(() => {
+    if (!session) return initialBalance;
+    return transactions
+      .filter((t) => t.status === 'completed' && t.date < session.periodStart)
+      .reduce((sum, t) => sum + (t.type === 'income' ? t.value : -t.value), initialBalance);
+  }, [transactions, session, initialBalance]);
 
   const totals = useMemo(() => {
     const income = completedTransactions
@@ -69,9 +136,9 @@ export function ReconciliationTool({
       expense,
       incomeCount: completedTransactions.filter((t) => t.type === 'income').length,
       expenseCount: completedTransactions.filter((t) => t.type === 'expense').length,
-      calculatedBalance: initialBalance + income - expense,
+      calculatedBalance: openingBalance + income - expense,
     };
-  }, [completedTransactions, initialBalance]);
+  }, [completedTransactions, openingBalance]);
 
   const bankBalanceValue = parseFloat(bankBalance.replace(',', '.')) || 0;
   const difference = bankBalanceValue - totals.calculatedBalance;
@@ -138,15 +205,37 @@ export function ReconciliationTool({
   }, [completedTransactions, searchQuery]);
 
   const toggleVerified = (id: string) => {
-    const newSet = new Set(verifiedIds);
-    if (newSet.has(id)) {
-      newSet.delete(id);
-    } else {
-      newSet.add(id);
+    if (!session || isClosed) return;
+    onSetVerified(session.id, id, !verifiedIds.has(id));
+  };
+
+  const saveBankBalance = () => {
+    if (!session || isClosed) return;
+    const value = bankBalance.trim() ? parseFloat(bankBalance.replace(',', '.')) : null;
+    if (value !== null && isNaN(value)) return;
+    if (value !== session.bankBalance) onUpdateBankBalance(session.id, value);
+  };
+
+  const newPeriodOverlaps = hasOverlap(sessions, newPeriodStart, newPeriodEnd);
+  const canCreate = !!newPeriodStart && !!newPeriodEnd && newPeriodStart <= newPeriodEnd && !newPeriodOverlaps;
+
+  const handleCreateSession = async () => {
+    if (!canCreate) return;
+    const created = await onCreateSession({ periodStart: newPeriodStart, periodEnd: newPeriodEnd, bankBalance: null });
+    if (created) {
+      setSessionId(created.id);
+      setIsCreating(false);
     }
-    setVerifiedIds(newSet);
   };
 
+  const handleDeleteSession = async () => {
+    if (!session) return;
+    if (await onDeleteSession(session.id)) setSessionId(NO_SESSION);
+  };
+
+  const formatPeriod = (s: ReconciliationSession) =>
+    `${format(parseISO(s.periodStart), 'dd/MM/yyyy')} – ${format(parseISO(s.periodEnd), 'dd/MM/yyyy')}`;
+
   const invertType = (transaction: Transaction) => {
     onUpdateTransaction(transaction.id, {
       type: transaction.type === 'income' ? 'expense' : 'income',
@@ -175,195 +264,326 @@ export function ReconciliationTool({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <ArrowUpDown className="h-5 w-5" />
             Ferramenta de Reconciliação
           </DialogTitle>
           <DialogDescription>
-            Compare o saldo do app com o extrato bancário e encontre discrepâncias
+            Concilie o extrato bancário linha a linha ou compare apenas os saldos
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-4 flex-1 overflow-hidden flex flex-col">
-          {/* Bank Balance Input & Comparison */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-4 bg-muted rounded-xl">
-            <div className="space-y-2">
-              <Label htmlFor="bankBalance">Saldo do Banco (R$)</Label>
-              <Input
-                id="bankBalance"
-                placeholder="0,00"
-                value={bankBalance}
-                onChange={(e) => setBankBalance(e.target.value)}
-              />
-            </div>
-            <div className="space-y-1">
-              <p className="text-sm text-muted-foreground">Saldo Calculado</p>
-              <p className="text-xl font-bold">{formatCurrency(totals.calculatedBalance)}</p>
-              <p className="text-xs text-muted-foreground">
-                {formatCurrency(initialBalance)} + {formatCurrency(totals.income)} - {formatCurrency(totals.expense)}
-              </p>
-            </div>
-            <div className="space-y-1">
-              <p className="text-sm text-muted-foreground">Diferença</p>
-              <p
-                className={`text-xl font-bold ${
-                  Math.abs(difference) < 0.01
-                    ? 'text-income'
-                    : 'text-expense'
-                }`}
-              >
-                {bankBalanceValue > 0 ? formatCurrency(difference) : '—'}
-              </p>
-              {bankBalanceValue > 0 && Math.abs(difference) >= 0.01 && (
-                <p className="text-xs text-muted-foreground">
-                  Metade: {formatCurrency(halfDifference)}
-                </p>
-              )}
-            </div>
-          </div>
-
-          {/* Suspicious Transactions */}
-          {bankBalanceValue > 0 && suspiciousTransactions.length > 0 && (
-            <div className="p-4 bg-warning-muted rounded-xl border border-warning/30">
-              <div className="flex items-center gap-2 mb-3">
-                <AlertTriangle className="h-5 w-5 text-warning" />
-                <h4 className="font-semibold text-sm">
-                  {suspiciousTransactions.length} transação(ões) suspeita(s) encontrada(s)
-                </h4>
-              </div>
-              <div className="space-y-2 max-h-40 overflow-y-auto">
-                {suspiciousTransactions.map(({ transaction, reason }) => (
-                  <div
-                    key={transaction.id}
-                    className="flex items-center justify-between p-2 bg-background rounded-lg text-sm"
-                  >
-                    <div className="flex-1">
-                      <p className="font-medium truncate">{transaction.description}</p>
-                      <p className="text-xs text-muted-foreground">
-                        {format(new Date(transaction.date), 'dd/MM/yyyy')} •{' '}
-                        <span className={transaction.type === 'income' ? 'text-income' : 'text-expense'}>
-                          {transaction.type === 'income' ? '+' : '-'}
-                          {formatCurrency(transaction.value)}
-                        </span>
-                      </p>
-                      <p className="text-xs text-warning">{reason}</p>
-                    </div>
+        <Tabs defaultValue="statement" className="flex-1 overflow-hidden flex flex-col">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="statement" className="gap-2">
+              <FileText className="h-4 w-4" />
+              Extrato
+            </TabsTrigger>
+            <TabsTrigger value="balance" className="gap-2">
+              <Scale className="h-4 w-4" />
+              Saldo
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="statement" className="flex-1 overflow-hidden flex flex-col data-[state=inactive]:hidden">
+            <StatementReconciliation transactions={transactions} onUpdateTransaction={onUpdateTransaction} />
+          </TabsContent>
+
+          <TabsContent value="balance" className="flex-1 overflow-hidden flex flex-col data-[state=inactive]:hidden">
+            <div className="space-y-4 flex-1 overflow-hidden flex flex-col">
+              {/* Reconciliation Session */}
+              <div className="flex flex-wrap items-center gap-2">
+                <Select value={sessionId} onValueChange={setSessionId}>
+                  <SelectTrigger className="h-9 w-72">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SESSION}>Sem sessão (todo o período)</SelectItem>
+                    {sessions.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {formatPeriod(s)} · {s.status === 'closed' ? 'Fechada' : 'Aberta'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="sm" onClick={() => setIsCreating(!isCreating)}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Nova sessão
+                </Button>
+                {session && !isClosed && (
+                  <>
+                    <Button size="sm" onClick={() => setConfirmClose(true)}>
+                      <Lock className="h-4 w-4 mr-1" />
+                      Fechar período
+                    </Button>
                     <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => invertType(transaction)}
-                      title="Inverter tipo"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={handleDeleteSession}
+                      title="Excluir sessão"
                     >
-                      <ArrowRightLeft className="h-4 w-4 mr-1" />
-                      Inverter
+                      <Trash2 className="h-4 w-4" />
                     </Button>
-                  </div>
-                ))}
+                  </>
+                )}
+                {session && isClosed && (
+                  <Button variant="outline" size="sm" onClick={() => onReopenSession(session.id)}>
+                    <LockOpen className="h-4 w-4 mr-1" />
+                    Reabrir período
+                  </Button>
+                )}
               </div>
-            </div>
-          )}
 
-          {bankBalanceValue > 0 && Math.abs(difference) < 0.01 && (
-            <div className="p-4 bg-income/10 rounded-xl border border-income/30 flex items-center gap-3">
-              <CheckCircle2 className="h-5 w-5 text-income" />
-              <p className="font-medium text-income">Saldos conferem! Nenhuma discrepância encontrada.</p>
-            </div>
-          )}
-
-          {/* Summary */}
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
-            <div className="p-3 bg-income/10 rounded-lg">
-              <p className="text-muted-foreground">Entradas</p>
-              <p className="font-semibold text-income">{formatCurrency(totals.income)}</p>
-              <p className="text-xs text-muted-foreground">{totals.incomeCount} lançamentos</p>
-            </div>
-            <div className="p-3 bg-expense/10 rounded-lg">
-              <p className="text-muted-foreground">Saídas</p>
-              <p className="font-semibold text-expense">{formatCurrency(totals.expense)}</p>
-              <p className="text-xs text-muted-foreground">{totals.expenseCount} lançamentos</p>
-            </div>
-            <div className="p-3 bg-muted rounded-lg">
-              <p className="text-muted-foreground">Total</p>
-              <p className="font-semibold">{completedTransactions.length} lançamentos</p>
-            </div>
-            <div className="p-3 bg-muted rounded-lg">
-              <p className="text-muted-foreground">Verificados</p>
-              <p className="font-semibold">{verifiedIds.size} de {completedTransactions.length}</p>
-            </div>
-          </div>
-
-          {/* Search & Export */}
-          <div className="flex items-center gap-3">
-            <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Buscar por descrição ou valor..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10"
-              />
-            </div>
-            <Button variant="outline" size="sm" onClick={exportCSV}>
-              <Download className="h-4 w-4 mr-1" />
-              Exportar CSV
-            </Button>
-          </div>
-
-          {/* Transaction List */}
-          <ScrollArea className="flex-1 min-h-0 border rounded-lg">
-            <div className="divide-y">
-              {filteredTransactions.map((t) => (
-                <div
-                  key={t.id}
-                  className={`flex items-center gap-3 p-3 hover:bg-muted/50 transition-colors ${
-                    verifiedIds.has(t.id) ? 'bg-income/5' : ''
-                  }`}
-                >
-                  <Checkbox
-                    checked={verifiedIds.has(t.id)}
-                    onCheckedChange={() => toggleVerified(t.id)}
-                  />
-                  <div className="flex-1 min-w-0">
-                    <p className="font-medium truncate text-sm">{t.description}</p>
-                    <p className="text-xs text-muted-foreground">
-                      {format(new Date(t.date), 'dd/MM/yyyy', { locale: ptBR })}
-                    </p>
+              {isCreating && (
+                <div className="flex flex-wrap items-end gap-3 p-3 border rounded-xl">
+                  <div className="space-y-1">
+                    <Label htmlFor="periodStart" className="text-xs">Início</Label>
+                    <Input
+                      id="periodStart"
+                      type="date"
+                      value={newPeriodStart}
+                      onChange={(e) => setNewPeriodStart(e.target.value)}
+                      className="h-9 w-40"
+                    />
                   </div>
-                  <Badge
-                    variant={t.type === 'income' ? 'default' : 'destructive'}
-                    className="shrink-0"
-                  >
-                    {t.type === 'income' ? 'Entrada' : 'Saída'}
-                  </Badge>
+                  <div className="space-y-1">
+                    <Label htmlFor="periodEnd" className="text-xs">Fim</Label>
+                    <Input
+                      id="periodEnd"
+                      type="date"
+                      value={newPeriodEnd}
+                      onChange={(e) => setNewPeriodEnd(e.target.value)}
+                      className="h-9 w-40"
+                    />
+                  </div>
+                  <Button size="sm" onClick={handleCreateSession} disabled={!canCreate}>
+                    Criar sessão
+                  </Button>
+                  {newPeriodOverlaps && (
+                    <p className="text-xs text-destructive w-full">O período se sobrepõe a outra sessão.</p>
+                  )}
+                </div>
+              )}
+
+              {session && isClosed && (
+                <div className="p-3 bg-muted rounded-xl flex items-center gap-2 text-sm">
+                  <Lock className="h-4 w-4 text-muted-foreground" />
+                  <span>
+                    Período fechado
+                    {session.closedAt && ` em ${format(parseISO(session.closedAt), 'dd/MM/yyyy HH:mm')}`}
+                    {session.closedBy && ` por ${session.closedBy === user?.id ? user.email : 'outro usuário'}`}.
+                    Os lançamentos do período não podem ser alterados até que ele seja reaberto.
+                  </span>
+                </div>
+              )}
+
+              {/* Bank Balance Input & Comparison */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-4 bg-muted rounded-xl">
+                <div className="space-y-2">
+                  <Label htmlFor="bankBalance">
+                    {session ? 'Saldo do Banco no fim do período (R$)' : 'Saldo do Banco (R$)'}
+                  </Label>
+                  <Input
+                    id="bankBalance"
+                    placeholder="0,00"
+                    value={bankBalance}
+                    onChange={(e) => setBankBalance(e.target.value)}
+                    onBlur={saveBankBalance}
+                    disabled={isClosed}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <p className="text-sm text-muted-foreground">Saldo Calculado</p>
+                  <p className="text-xl font-bold">{formatCurrency(totals.calculatedBalance)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatCurrency(openingBalance)} + {formatCurrency(totals.income)} - {formatCurrency(totals.expense)}
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  <p className="text-sm text-muted-foreground">Diferença</p>
                   <p
-                    className={`font-semibold text-sm min-w-[100px] text-right ${
-                      t.type === 'income' ? 'text-income' : 'text-expense'
+                    className={`text-xl font-bold ${
+                      Math.abs(difference) < 0.01
+                        ? 'text-income'
+                        : 'text-expense'
                     }`}
                   >
-                    {t.type === 'income' ? '+' : '-'}
-                    {formatCurrency(t.value)}
+                    {bankBalanceValue > 0 ? formatCurrency(difference) : '—'}
                   </p>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="h-8 w-8 shrink-0"
-                    onClick={() => invertType(t)}
-                    title="Inverter tipo"
-                  >
-                    <ArrowRightLeft className="h-4 w-4" />
-                  </Button>
+                  {bankBalanceValue > 0 && Math.abs(difference) >= 0.01 && (
+                    <p className="text-xs text-muted-foreground">
+                      Metade: {formatCurrency(halfDifference)}
+                    </p>
+                  )}
                 </div>
-              ))}
-              {filteredTransactions.length === 0 && (
-                <div className="p-8 text-center text-muted-foreground">
-                  Nenhuma transação encontrada
+              </div>
+
+              {/* Suspicious Transactions */}
+              {bankBalanceValue > 0 && suspiciousTransactions.length > 0 && (
+                <div className="p-4 bg-warning-muted rounded-xl border border-warning/30">
+                  <div className="flex items-center gap-2 mb-3">
+                    <AlertTriangle className="h-5 w-5 text-warning" />
+                    <h4 className="font-semibold text-sm">
+                      {suspiciousTransactions.length} transação(ões) suspeita(s) encontrada(s)
+                    </h4>
+                  </div>
+                  <div className="space-y-2 max-h-40 overflow-y-auto">
+                    {suspiciousTransactions.map(({ transaction, reason }) => (
+                      <div
+                        key={transaction.id}
+                        className="flex items-center justify-between p-2 bg-background rounded-lg text-sm"
+                      >
+                        <div className="flex-1">
+                          <p className="font-medium truncate">{transaction.description}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {format(new Date(transaction.date), 'dd/MM/yyyy')} •{' '}
+                            <span className={transaction.type === 'income' ? 'text-income' : 'text-expense'}>
+                              {transaction.type === 'income' ? '+' : '-'}
+                              {formatCurrency(transaction.value)}
+                            </span>
+                          </p>
+                          <p className="text-xs text-warning">{reason}</p>
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => invertType(transaction)}
+                          disabled={isClosed}
+                          title="Inverter tipo"
+                        >
+                          <ArrowRightLeft className="h-4 w-4 mr-1" />
+                          Inverter
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
                 </div>
               )}
+
+              {bankBalanceValue > 0 && Math.abs(difference) < 0.01 && (
+                <div className="p-4 bg-income/10 rounded-xl border border-income/30 flex items-center gap-3">
+                  <CheckCircle2 className="h-5 w-5 text-income" />
+                  <p className="font-medium text-income">Saldos conferem! Nenhuma discrepância encontrada.</p>
+                </div>
+              )}
+
+              {/* Summary */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                <div className="p-3 bg-income/10 rounded-lg">
+                  <p className="text-muted-foreground">Entradas</p>
+                  <p className="font-semibold text-income">{formatCurrency(totals.income)}</p>
+                  <p className="text-xs text-muted-foreground">{totals.incomeCount} lançamentos</p>
+                </div>
+                <div className="p-3 bg-expense/10 rounded-lg">
+                  <p className="text-muted-foreground">Saídas</p>
+                  <p className="font-semibold text-expense">{formatCurrency(totals.expense)}</p>
+                  <p className="text-xs text-muted-foreground">{totals.expenseCount} lançamentos</p>
+                </div>
+                <div className="p-3 bg-muted rounded-lg">
+                  <p className="text-muted-foreground">Total</p>
+                  <p className="font-semibold">{completedTransactions.length} lançamentos</p>
+                </div>
+                <div className="p-3 bg-muted rounded-lg">
+                  <p className="text-muted-foreground">Verificados</p>
+                  <p className="font-semibold">{verifiedIds.size} de {completedTransactions.length}</p>
+                  {!session && <p className="text-xs text-muted-foreground">Crie uma sessão para salvar</p>}
+                </div>
+              </div>
+
+              {/* Search & Export */}
+              <div className="flex items-center gap-3">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Buscar por descrição ou valor..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+                <Button variant="outline" size="sm" onClick={exportCSV}>
+                  <Download className="h-4 w-4 mr-1" />
+                  Exportar CSV
+                </Button>
+              </div>
+
+              {/* Transaction List */}
+              <ScrollArea className="flex-1 min-h-0 border rounded-lg">
+                <div className="divide-y">
+                  {filteredTransactions.map((t) => (
+                    <div
+                      key={t.id}
+                      className={`flex items-center gap-3 p-3 hover:bg-muted/50 transition-colors ${
+                        verifiedIds.has(t.id) ? 'bg-income/5' : ''
+                      }`}
+                    >
+                      <Checkbox
+                        checked={verifiedIds.has(t.id)}
+                        onCheckedChange={() => toggleVerified(t.id)}
+                        disabled={!session || isClosed}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate text-sm">{t.description}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(t.date), 'dd/MM/yyyy', { locale: ptBR })}
+                        </p>
+                      </div>
+                      <Badge
+                        variant={t.type === 'income' ? 'default' : 'destructive'}
+                        className="shrink-0"
+                      >
+                        {t.type === 'income' ? 'Entrada' : 'Saída'}
+                      </Badge>
+                      <p
+                        className={`font-semibold text-sm min-w-[100px] text-right ${
+                          t.type === 'income' ? 'text-income' : 'text-expense'
+                        }`}
+                      >
+                        {t.type === 'income' ? '+' : '-'}
+                        {formatCurrency(t.value)}
+                      </p>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0"
+                        onClick={() => invertType(t)}
+                        disabled={isClosed}
+                        title="Inverter tipo"
+                      >
+                        <ArrowRightLeft className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  {filteredTransactions.length === 0 && (
+                    <div className="p-8 text-center text-muted-foreground">
+                      Nenhuma transação encontrada
+                    </div>
+                  )}
+                </div>
+              </ScrollArea>
             </div>
-          </ScrollArea>
-        </div>
+          </TabsContent>
+        </Tabs>
+
+        <AlertDialog open={confirmClose} onOpenChange={setConfirmClose}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Fechar período?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {session && formatPeriod(session)}: os {verifiedIds.size} lançamento(s) conferidos serão marcados como
+                conciliados e nenhum lançamento do período poderá ser criado, alterado ou excluído até que ele seja
+                reaberto.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+              <AlertDialogAction onClick={() => session && onCloseSession(session.id)}>Fechar período</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </DialogContent>
     </Dialog>
   );
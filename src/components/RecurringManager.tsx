@@ -0,0 +1,418 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Repeat, Pencil, Trash2, Plus, X, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Category,
+  RecurringTransaction,
+  RecurrenceFrequency,
+  BusinessDayAdjustment,
+  PaymentMethod,
+  TransactionType,
+  PAYMENT_METHODS,
+  RECURRENCE_FREQUENCIES,
+  BUSINESS_DAY_ADJUSTMENTS,
+} from '@/types/finance';
+import { getNextOccurrence, RECURRING_HORIZON_DAYS } from '@/lib/recurrence';
+import { cn } from '@/lib/utils';
+
+type TemplateInput = Omit<RecurringTransaction, 'id' | 'lastGeneratedDate'>;
+
+interface RecurringManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templates: RecurringTransaction[];
+  categories: Category[];
+  onAddTemplate: (template: TemplateInput) => Promise<RecurringTransaction | null>;
+  onUpdateTemplate: (id: string, template: TemplateInput, propagate: boolean) => Promise<boolean>;
+  onDeleteTemplate: (id: string, deleteFutureOccurrences: boolean) => Promise<boolean>;
+}
+
+const NONE = 'none';
+
+const emptyTemplate = (): TemplateInput => ({
+  description: '',
+  category: null,
+  value: 0,
+  type: 'expense',
+  paymentMethod: 'pix',
+  frequency: 'monthly',
+  intervalDays: null,
+  startDate: format(new Date(), 'yyyy-MM-dd'),
+  endDate: null,
+  businessDayAdjustment: 'next',
+  isActive: true,
+});
+
+export function RecurringManager({
+  open,
+  onOpenChange,
+  templates,
+  categories,
+  onAddTemplate,
+  onUpdateTemplate,
+  onDeleteTemplate,
+}: RecurringManagerProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TemplateInput>(emptyTemplate());
+  const [valueInput, setValueInput] = useState('');
+  const [propagate, setPropagate] = useState(true);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [deleteFuture, setDeleteFuture] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+  const formatDate = (date: string) => format(parseISO(date), 'dd/MM/yyyy');
+
+  const numericValue = parseFloat(valueInput.replace(/\./g, '').replace(',', '.'));
+  const isValid =
+    draft.description.trim() !== '' &&
+    numericValue > 0 &&
+    !!draft.startDate &&
+    (draft.frequency !== 'custom_days' || (draft.intervalDays ?? 0) > 0) &&
+    (!draft.endDate || draft.endDate >= draft.startDate);
+
+  const startEdit = (template?: RecurringTransaction) => {
+    setEditingId(template?.id ?? 'new');
+    setDraft(template ? { ...template } : emptyTemplate());
+    setValueInput(template ? String(template.value).replace('.', ',') : '');
+    setPropagate(true);
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setDraft(emptyTemplate());
+  };
+
+  const saveTemplate = async () => {
+    if (!isValid) return;
+    setIsLoading(true);
+    const template = { ...draft, description: draft.description.trim(), value: numericValue };
+    if (editingId === 'new') {
+      await onAddTemplate(template);
+    } else if (editingId) {
+      await onUpdateTemplate(editingId, template, propagate);
+    }
+    setIsLoading(false);
+    cancelEdit();
+  };
+
+  const confirmDelete = async () => {
+    if (!deleteId) return;
+    setIsLoading(true);
+    await onDeleteTemplate(deleteId, deleteFuture);
+    setIsLoading(false);
+    setDeleteId(null);
+  };
+
+  const describeFrequency = (template: RecurringTransaction) => {
+    if (template.frequency === 'custom_days') return `A cada ${template.intervalDays} dias`;
+    return RECURRENCE_FREQUENCIES.find(f => f.value === template.frequency)?.label ?? template.frequency;
+  };
+
+  const renderForm = () => (
+    <div className="p-4 bg-primary/5 rounded-lg border border-primary/20 space-y-3">
+      <div className="flex gap-2">
+        <Input
+          value={draft.description}
+          onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          placeholder="Descrição (ex: Aluguel)"
+          className="flex-1"
+          autoFocus
+        />
+        <Input
+          value={valueInput}
+          onChange={(e) => setValueInput(e.target.value)}
+          placeholder="0,00"
+          className="w-28"
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <Select
+          value={draft.type}
+          onValueChange={(v) => setDraft({ ...draft, type: v as TransactionType, category: null })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="income">Entrada</SelectItem>
+            <SelectItem value="expense">Saída</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={draft.category ?? NONE}
+          onValueChange={(v) => setDraft({ ...draft, category: v === NONE ? null : v })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Sem categoria</SelectItem>
+            {categories.filter(c => c.type === draft.type).map(cat => (
+              <SelectItem key={cat.id} value={cat.name}>
+                {cat.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={draft.paymentMethod ?? NONE}
+          onValueChange={(v) => setDraft({ ...draft, paymentMethod: v === NONE ? null : (v as PaymentMethod) })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Sem forma</SelectItem>
+            {PAYMENT_METHODS.map(method => (
+              <SelectItem key={method.value} value={method.value}>
+                {method.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Frequência</Label>
+          <Select
+            value={draft.frequency}
+            onValueChange={(v) => setDraft({
+              ...draft,
+              frequency: v as RecurrenceFrequency,
+              intervalDays: v === 'custom_days' ? draft.intervalDays ?? 15 : null,
+            })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RECURRENCE_FREQUENCIES.map(f => (
+                <SelectItem key={f.value} value={f.value}>
+                  {f.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Dia não útil</Label>
+          <Select
+            value={draft.businessDayAdjustment}
+            onValueChange={(v) => setDraft({ ...draft, businessDayAdjustment: v as BusinessDayAdjustment })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BUSINESS_DAY_ADJUSTMENTS.map(a => (
+                <SelectItem key={a.value} value={a.value}>
+                  {a.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {draft.frequency === 'custom_days' && (
+          <div className="space-y-1 col-span-2">
+            <Label className="text-xs text-muted-foreground">Intervalo (dias)</Label>
+            <Input
+              type="number"
+              min={1}
+              value={draft.intervalDays ?? ''}
+              onChange={(e) => setDraft({ ...draft, intervalDays: Number(e.target.value) || null })}
+            />
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Início</Label>
+          <Input
+            type="date"
+            value={draft.startDate}
+            onChange={(e) => setDraft({ ...draft, startDate: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Término (opcional)</Label>
+          <Input
+            type="date"
+            value={draft.endDate ?? ''}
+            onChange={(e) => setDraft({ ...draft, endDate: e.target.value || null })}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <label className="flex items-center gap-2 text-sm">
+          <Switch checked={draft.isActive} onCheckedChange={(checked) => setDraft({ ...draft, isActive: checked })} />
+          Ativo
+        </label>
+        {editingId !== 'new' && (
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={propagate} onCheckedChange={(checked) => setPropagate(checked === true)} />
+            Aplicar aos pendentes futuros
+          </label>
+        )}
+      </div>
+
+      <div className="flex gap-2 justify-end">
+        <Button variant="ghost" size="sm" onClick={cancelEdit} disabled={isLoading}>
+          <X className="h-4 w-4 mr-1" />
+          Cancelar
+        </Button>
+        <Button size="sm" onClick={saveTemplate} disabled={isLoading || !isValid}>
+          <Check className="h-4 w-4 mr-1" />
+          Salvar
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-hidden flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Repeat className="h-5 w-5" />
+              Lançamentos Recorrentes
+            </DialogTitle>
+            <DialogDescription>
+              Os lançamentos pendentes são gerados automaticamente para os próximos {RECURRING_HORIZON_DAYS} dias.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex-1 overflow-y-auto space-y-4">
+            {editingId === 'new' ? (
+              renderForm()
+            ) : (
+              <Button variant="outline" className="w-full" onClick={() => startEdit()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Novo Recorrente
+              </Button>
+            )}
+
+            <div className="space-y-2">
+              {templates.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  Nenhum lançamento recorrente cadastrado
+                </p>
+              )}
+              {templates.map(template => {
+                if (editingId === template.id) {
+                  return <div key={template.id}>{renderForm()}</div>;
+                }
+
+                const next = template.isActive ? getNextOccurrence(template, today) : null;
+                return (
+                  <div
+                    key={template.id}
+                    className={cn(
+                      'flex items-center justify-between gap-2 p-3 bg-card rounded-lg border border-border hover:border-primary/30 transition-colors',
+                      !template.isActive && 'opacity-60'
+                    )}
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{template.description}</span>
+                        <Badge variant="secondary" className="text-[10px]">
+                          {describeFrequency(template)}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">
+                        <span className={template.type === 'income' ? 'text-income' : 'text-expense'}>
+                          {template.type === 'expense' ? '-' : '+'}
+                          {formatCurrency(template.value)}
+                        </span>
+                        {template.category && ` · ${template.category}`}
+                        {next ? ` · Próximo: ${formatDate(next)}` : ' · Encerrado'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEdit(template)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => {
+                          setDeleteFuture(true);
+                          setDeleteId(template.id);
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteId} onOpenChange={(open) => !open && setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir recorrente?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Novos lançamentos deixarão de ser gerados. Os lançamentos já realizados são mantidos.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={deleteFuture} onCheckedChange={(checked) => setDeleteFuture(checked === true)} />
+            Excluir também os lançamentos pendentes a partir de hoje
+          </label>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isLoading}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              disabled={isLoading}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
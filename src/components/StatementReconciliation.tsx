@@ -0,0 +1,311 @@
+import { useMemo, useRef, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CheckCheck, CheckCircle2, FileUp, Link2, Loader2, Unlink } from 'lucide-react';
+import { Transaction } from '@/types/finance';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { decodeCSV, guessCSVMapping, parseCSV } from '@/lib/csvParser';
+import { parseOFX, readOFXFile } from '@/lib/ofxParser';
+import {
+  getStatementRange,
+  matchStatement,
+  toStatementLines,
+  StatementLine,
+  StatementMatch,
+} from '@/lib/statementMatching';
+import { cn } from '@/lib/utils';
+
+interface StatementReconciliationProps {
+  transactions: Transaction[];
+  onUpdateTransaction: (id: string, updates: Partial<Transaction>) => void | Promise<void>;
+}
+
+export function StatementReconciliation({ transactions, onUpdateTransaction }: StatementReconciliationProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [lines, setLines] = useState<StatementLine[]>([]);
+  const [matches, setMatches] = useState<StatementMatch[]>([]);
+  const [selectedLineId, setSelectedLineId] = useState<string | null>(null);
+  const [selectedTransactionId, setSelectedTransactionId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    }).format(value);
+  };
+
+  const formatDate = (date: string) => format(parseISO(date), 'dd/MM/yyyy');
+
+  // Only transactions around the statement period can be on it
+  const candidates = useMemo(() => {
+    const range = getStatementRange(lines);
+    if (!range) return [];
+    return transactions.filter((t) => t.date >= range.start && t.date <= range.end);
+  }, [transactions, lines]);
+
+  const matchedLineIds = new Set(matches.map((m) => m.lineId));
+  const matchedTransactionIds = new Set(matches.map((m) => m.transactionId));
+  const unmatchedLines = lines.filter((l) => !matchedLineIds.has(l.id));
+  const unmatchedTransactions = candidates
+    .filter((t) => !matchedTransactionIds.has(t.id))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const pendingConfirmation = matches.filter((m) => {
+    const transaction = transactions.find((t) => t.id === m.transactionId);
+    return transaction && !transaction.isReconciled;
+  });
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setIsLoading(true);
+    setSelectedLineId(null);
+    setSelectedTransactionId(null);
+
+    try {
+      const name = file.name.toLowerCase();
+      let parsed: StatementLine[] = [];
+
+      if (name.endsWith('.ofx')) {
+        parsed = toStatementLines(parseOFX(await readOFXFile(file)).transactions);
+      } else if (name.endsWith('.csv')) {
+        const buffer = await file.arrayBuffer();
+        const utf8 = decodeCSV(buffer, 'utf-8');
+        const mapping = {
+          ...guessCSVMapping(utf8),
+          // Invalid UTF-8 sequences usually mean a Latin-1 export
+          encoding: utf8.includes('\uFFFD') ? ('latin1' as const) : ('utf-8' as const),
+        };
+        parsed = toStatementLines(parseCSV(decodeCSV(buffer, mapping.encoding), mapping));
+      } else {
+        setError('Formato não suportado. Use OFX ou CSV.');
+        return;
+      }
+
+      if (parsed.length === 0) {
+        setError('Nenhum lançamento encontrado no extrato.');
+        return;
+      }
+
+      setFileName(file.name);
+      setLines(parsed);
+      setMatches(matchStatement(parsed, transactions));
+    } catch (err) {
+      console.error('Error parsing statement:', err);
+      setError('Erro ao processar o extrato. Tente novamente.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const unmatch = (lineId: string) => {
+    setMatches((prev) => prev.filter((m) => m.lineId !== lineId));
+  };
+
+  const matchSelected = () => {
+    if (!selectedLineId || !selectedTransactionId) return;
+    setMatches((prev) => [
+      ...prev,
+      { lineId: selectedLineId, transactionId: selectedTransactionId, score: 1, manual: true },
+    ]);
+    setSelectedLineId(null);
+    setSelectedTransactionId(null);
+  };
+
+  // A pending transaction found on the statement has been paid
+  const confirm = (match: StatementMatch) => {
+    const transaction = transactions.find((t) => t.id === match.transactionId);
+    if (!transaction || transaction.isReconciled) return;
+    onUpdateTransaction(
+      transaction.id,
+      transaction.status === 'pending' ? { status: 'completed', isReconciled: true } : { isReconciled: true }
+    );
+  };
+
+  const confirmAll = () => {
+    pendingConfirmation.forEach(confirm);
+  };
+
+  const renderAmount = (item: { type: Transaction['type']; value: number }) => (
+    <span className={cn('font-semibold whitespace-nowrap', item.type === 'income' ? 'text-income' : 'text-expense')}>
+      {item.type === 'income' ? '+' : '-'}
+      {formatCurrency(item.value)}
+    </span>
+  );
+
+  const renderColumn = (title: string, count: number, children: React.ReactNode) => (
+    <div className="flex flex-col min-h-0 border rounded-lg">
+      <div className="flex items-center justify-between px-3 py-2 border-b bg-muted/50">
+        <h4 className="font-semibold text-sm">{title}</h4>
+        <Badge variant="secondary">{count}</Badge>
+      </div>
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="divide-y">{children}</div>
+      </ScrollArea>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4 flex-1 overflow-hidden flex flex-col">
+      <div className="flex flex-wrap items-center justify-between gap-3 p-4 bg-muted rounded-xl">
+        <div className="text-sm">
+          {fileName ? (
+            <>
+              <p className="font-medium">{fileName}</p>
+              <p className="text-xs text-muted-foreground">
+                {lines.length} linhas no extrato • {matches.length} conciliadas
+              </p>
+            </>
+          ) : (
+            <p className="text-muted-foreground">
+              Carregue o extrato do banco (OFX ou CSV) para conciliar linha a linha.
+            </p>
+          )}
+          {error && <p className="text-xs text-destructive mt-1">{error}</p>}
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ofx,.csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isLoading}>
+            {isLoading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <FileUp className="h-4 w-4 mr-1" />}
+            Carregar extrato
+          </Button>
+          {selectedLineId && selectedTransactionId && (
+            <Button size="sm" onClick={matchSelected}>
+              <Link2 className="h-4 w-4 mr-1" />
+              Vincular selecionados
+            </Button>
+          )}
+          {pendingConfirmation.length > 0 && (
+            <Button size="sm" onClick={confirmAll}>
+              <CheckCheck className="h-4 w-4 mr-1" />
+              Confirmar {pendingConfirmation.length}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {lines.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 flex-1 min-h-0 md:h-[50vh]">
+          {renderColumn(
+            'Conciliados',
+            matches.length,
+            matches.map((match) => {
+              const line = lines.find((l) => l.id === match.lineId);
+              const transaction = transactions.find((t) => t.id === match.transactionId);
+              if (!line || !transaction) return null;
+              const valueDiffers = Math.abs(line.value - transaction.value) >= 0.005 || line.type !== transaction.type;
+
+              return (
+                <div key={match.lineId} className="p-3 space-y-1 text-sm">
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="font-medium truncate">{line.description}</p>
+                    {renderAmount(line)}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {formatDate(line.date)} ↔ {formatDate(transaction.date)} • {transaction.description}
+                  </p>
+                  {valueDiffers && (
+                    <p className="text-xs text-warning">No sistema: {renderAmount(transaction)}</p>
+                  )}
+                  <div className="flex items-center justify-between gap-2 pt-1">
+                    {transaction.isReconciled ? (
+                      <span className="flex items-center gap-1 text-xs text-income">
+                        <CheckCircle2 className="h-3 w-3" />
+                        Conferido
+                      </span>
+                    ) : (
+                      <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => confirm(match)}>
+                        Confirmar
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => unmatch(match.lineId)}
+                      title="Desfazer vínculo"
+                    >
+                      <Unlink className="h-3 w-3 mr-1" />
+                      Desvincular
+                    </Button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+
+          {renderColumn(
+            'Só no banco',
+            unmatchedLines.length,
+            unmatchedLines.map((line) => (
+              <button
+                key={line.id}
+                type="button"
+                onClick={() => setSelectedLineId(selectedLineId === line.id ? null : line.id)}
+                className={cn(
+                  'w-full p-3 text-left text-sm hover:bg-muted/50 transition-colors',
+                  selectedLineId === line.id && 'bg-primary/10'
+                )}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <p className="font-medium truncate">{line.description}</p>
+                  {renderAmount(line)}
+                </div>
+                <p className="text-xs text-muted-foreground">{formatDate(line.date)}</p>
+              </button>
+            ))
+          )}
+
+          {renderColumn(
+            'Só no sistema',
+            unmatchedTransactions.length,
+            unmatchedTransactions.map((t) => (
+              <button
+                key={t.id}
+                type="button"
+                onClick={() => setSelectedTransactionId(selectedTransactionId === t.id ? null : t.id)}
+                className={cn(
+                  'w-full p-3 text-left text-sm hover:bg-muted/50 transition-colors',
+                  selectedTransactionId === t.id && 'bg-primary/10'
+                )}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <p className="font-medium truncate">{t.description}</p>
+                  {renderAmount(t)}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {formatDate(t.date)}
+                  {/* Pending items aren't expected on the statement unless they were paid */}
+                  {t.status === 'pending' && (
+                    <Badge variant="outline" className="ml-2 text-[10px] px-1.5 py-0">
+                      Pendente
+                    </Badge>
+                  )}
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+
+      {lines.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Selecione uma linha do banco e um lançamento do sistema para vinculá-los manualmente. Confirmar marca o
+          lançamento como conferido.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import { useState } from 'react';
-import { format } from 'date-fns';
-import { CalendarIcon, Plus } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { AlertCircle, Barcode, CalendarIcon, Plus, QrCode, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Calendar } from '@/components/ui/calendar';
 import {
   Select,
@@ -30,26 +31,37 @@ import {
   TransactionStatus,
   PaymentMethod,
   Category,
+  InstallmentRounding,
   PAYMENT_METHODS,
 } from '@/types/finance';
+import { buildInstallments, splitInstallmentValues, MAX_INSTALLMENTS } from '@/lib/installments';
+import { AttachmentInput } from '@/components/AttachmentInput';
+import { parseBoleto, ParsedBoleto } from '@/lib/boleto';
+import { isPixPayload, parsePix, ParsedPix } from '@/lib/pix';
 
 interface TransactionFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSubmit: (transaction: Omit<Transaction, 'id' | 'createdAt'>) => void | Promise<void>;
+  // Resolve to false when nothing was saved, so the form keeps what was typed
+  onSubmit: (transaction: Omit<Transaction, 'id' | 'createdAt'>, attachments: File[]) => Promise<boolean>;
+  onSubmitInstallments?: (transactions: Omit<Transaction, 'id' | 'createdAt'>[]) => Promise<boolean>;
   categories: Category[];
   onAddCategory?: (category: Omit<Category, 'id'>) => void | Promise<Category | null>;
+  existingTransactions?: Transaction[];
 }
 
 export function TransactionForm({
   open,
   onOpenChange,
   onSubmit,
+  onSubmitInstallments,
   categories,
   onAddCategory,
+  existingTransactions = [],
 }: TransactionFormProps) {
   const [date, setDate] = useState<Date>(new Date());
   const [dueDate, setDueDate] = useState<Date | undefined>(undefined);
+  const [competenceDate, setCompetenceDate] = useState<Date | undefined>(undefined);
   const [description, setDescription] = useState('');
   const [type, setType] = useState<TransactionType>('expense');
   const [status, setStatus] = useState<TransactionStatus>('completed');
@@ -58,38 +70,132 @@ export function TransactionForm({
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('pix');
   const [showNewCategory, setShowNewCategory] = useState(false);
   const [newCategoryName, setNewCategoryName] = useState('');
+  const [isInstallment, setIsInstallment] = useState(false);
+  const [installmentCount, setInstallmentCount] = useState('2');
+  const [rounding, setRounding] = useState<InstallmentRounding>('first');
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [paymentCode, setPaymentCode] = useState('');
+  const [boleto, setBoleto] = useState<ParsedBoleto | null>(null);
+  const [pix, setPix] = useState<ParsedPix | null>(null);
+  const [paymentCodeError, setPaymentCodeError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
 
   const filteredCategories = categories.filter((c) => c.type === type);
   const isPending = status === 'pending';
+  // A boleto or PIX code is a single payable, so it can't be split into installments
+  const hasPaymentCode = !!boleto || !!pix;
+  const installmentMode = isPending && isInstallment && !!onSubmitInstallments && !hasPaymentCode;
+  const duplicateBoleto = boleto ? existingTransactions.find((t) => t.barcode === boleto.barcode) : undefined;
+  // Static PIX codes may be paid more than once, so a repeated txid only warns
+  const duplicatePix = pix?.txid
+    ? existingTransactions.find((t) => t.pixTxid === pix.txid && (t.pixKey || null) === pix.key)
+    : undefined;
+  const count = parseInt(installmentCount, 10);
+  const validCount = count >= 2 && count <= MAX_INSTALLMENTS;
+  const numericTotal = parseFloat(value.replace(',', '.'));
+  const installmentPreview = installmentMode && validCount && numericTotal > 0
+    ? splitInstallmentValues(numericTotal, count, rounding)
+    : null;
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(amount);
+
+  const clearPaymentCode = () => {
+    setPaymentCode('');
+    setBoleto(null);
+    setPix(null);
+    setPaymentCodeError('');
+  };
+
+  // Decodes a boleto line or PIX copia-e-cola once complete and pre-fills a pending payable
+  const handlePaymentCodeChange = (code: string) => {
+    setPaymentCode(code);
+    setBoleto(null);
+    setPix(null);
+    setPaymentCodeError('');
+
+    if (isPixPayload(code)) {
+      const result = parsePix(code);
+      if (result.error) {
+        setPaymentCodeError(result.error);
+        return;
+      }
+
+      const parsed = result.pix;
+      setPix(parsed);
+      setStatus('pending');
+      setPaymentMethod('pix');
+      if (parsed.amount !== null) setValue(parsed.amount.toFixed(2).replace('.', ','));
+      if (!description.trim()) setDescription(`PIX ${parsed.merchantName}`.trim().substring(0, 100));
+      return;
+    }
+
+    if (code.replace(/\D/g, '').length < 44) return;
+
+    const result = parseBoleto(code);
+    if (result.error) {
+      setPaymentCodeError(result.error);
+      return;
+    }
+
+    const parsed = result.boleto;
+    setBoleto(parsed);
+    setStatus('pending');
+    setPaymentMethod('boleto');
+    if (parsed.value !== null) setValue(parsed.value.toFixed(2).replace('.', ','));
+    if (parsed.dueDate) setDueDate(parseISO(parsed.dueDate));
+    if (!description.trim()) setDescription(`Boleto ${parsed.issuer}`);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     const numericValue = parseFloat(value.replace(',', '.'));
-    if (isNaN(numericValue) || numericValue <= 0) return;
+    if (isNaN(numericValue) || numericValue <= 0 || duplicateBoleto) return;
 
-    onSubmit({
+    const transaction = {
       date: format(date, 'yyyy-MM-dd'),
       dueDate: isPending && dueDate ? format(dueDate, 'yyyy-MM-dd') : undefined,
+      competenceDate: competenceDate ? format(competenceDate, 'yyyy-MM-dd') : null,
       description,
       category: category || null,
       value: numericValue,
       type,
       status,
-      paymentMethod: isPending ? null : paymentMethod,
+      paymentMethod: isPending ? (hasPaymentCode ? paymentMethod : null) : paymentMethod,
+      barcode: boleto?.barcode,
+      pixKey: pix?.key || undefined,
+      pixTxid: pix?.txid || undefined,
       isImported: false,
       isReconciled: !isPending,
-    });
+    };
+
+    if (installmentMode && !validCount) return;
+
+    setIsSaving(true);
+    const saved = installmentMode
+      ? await onSubmitInstallments(
+          buildInstallments(transaction, count, transaction.dueDate || transaction.date, rounding)
+        )
+      : await onSubmit(transaction, attachments);
+    setIsSaving(false);
+    if (!saved) return;
 
     // Reset form
     setDate(new Date());
     setDueDate(undefined);
+    setCompetenceDate(undefined);
     setDescription('');
     setType('expense');
     setStatus('completed');
     setCategory('');
     setValue('');
     setPaymentMethod('pix');
+    setIsInstallment(false);
+    setInstallmentCount('2');
+    setRounding('first');
+    setAttachments([]);
+    clearPaymentCode();
     onOpenChange(false);
   };
 
@@ -129,6 +235,7 @@ export function TransactionForm({
               onClick={() => {
                 setType('income');
                 setCategory('');
+                clearPaymentCode();
               }}
             >
               Entrada
@@ -149,6 +256,84 @@ export function TransactionForm({
             </Button>
           </div>
 
+          {/* Boleto or PIX copia e cola */}
+          {type === 'expense' && (
+            <div className="space-y-2">
+              <Label htmlFor="payment-code">
+                Boleto ou PIX <span className="text-xs font-normal text-muted-foreground">(opcional)</span>
+              </Label>
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  {pix ? (
+                    <QrCode className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  ) : (
+                    <Barcode className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  )}
+                  <Input
+                    id="payment-code"
+                    value={paymentCode}
+                    onChange={(e) => handlePaymentCodeChange(e.target.value)}
+                    placeholder="Cole a linha digitável ou o PIX copia e cola"
+                    className="pl-9 font-mono text-xs"
+                  />
+                </div>
+                {paymentCode && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={clearPaymentCode}
+                    title="Limpar código"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              {paymentCodeError && (
+                <p className="flex items-center gap-1 text-xs text-expense">
+                  <AlertCircle className="h-3 w-3" />
+                  {paymentCodeError}
+                </p>
+              )}
+              {boleto && (
+                <div className="rounded-md bg-muted/50 px-3 py-2 text-xs space-y-0.5">
+                  <p className="font-medium">{boleto.issuer}</p>
+                  <p className="text-muted-foreground">
+                    {boleto.value !== null ? formatCurrency(boleto.value) : 'Valor em aberto'}
+                    {' · '}
+                    {boleto.dueDate ? `Vence em ${format(parseISO(boleto.dueDate), 'dd/MM/yyyy')}` : 'Sem vencimento no código'}
+                  </p>
+                  {duplicateBoleto && (
+                    <p className="flex items-center gap-1 text-expense font-medium">
+                      <AlertCircle className="h-3 w-3" />
+                      Boleto já lançado: {duplicateBoleto.description}
+                    </p>
+                  )}
+                </div>
+              )}
+              {pix && (
+                <div className="rounded-md bg-muted/50 px-3 py-2 text-xs space-y-0.5">
+                  <p className="font-medium">
+                    {pix.merchantName || 'Recebedor não informado'}
+                    {pix.merchantCity && <span className="font-normal text-muted-foreground"> · {pix.merchantCity}</span>}
+                  </p>
+                  <p className="text-muted-foreground break-all">
+                    {pix.key ? `Chave ${pix.key}` : 'PIX dinâmico'}
+                    {' · '}
+                    {pix.amount !== null ? formatCurrency(pix.amount) : 'Valor em aberto'}
+                  </p>
+                  {pix.txid && <p className="text-muted-foreground break-all">Identificador {pix.txid}</p>}
+                  {duplicatePix && (
+                    <p className="flex items-center gap-1 text-warning font-medium">
+                      <AlertCircle className="h-3 w-3" />
+                      Já existe um lançamento com este identificador: {duplicatePix.description}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Status Selection - Now as Buttons */}
           <div className="space-y-2">
             <Label>Status</Label>
@@ -206,7 +391,7 @@ export function TransactionForm({
 
             {isPending && (
               <div className="space-y-2">
-                <Label>Vencimento</Label>
+                <Label>{installmentMode ? '1º Vencimento' : 'Vencimento'}</Label>
                 <Popover>
                   <PopoverTrigger asChild>
                     <Button
@@ -231,6 +416,46 @@ export function TransactionForm({
             )}
           </div>
 
+          {/* Competence */}
+          <div className="space-y-2">
+            <Label>
+              Competência <span className="text-xs font-normal text-muted-foreground">(opcional)</span>
+            </Label>
+            <div className="flex gap-2">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="flex-1 justify-start text-left font-normal"
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {competenceDate ? format(competenceDate, 'dd/MM/yyyy') : 'Mesma da data'}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0 z-50" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={competenceDate}
+                    onSelect={setCompetenceDate}
+                    initialFocus
+                    className="pointer-events-auto"
+                  />
+                </PopoverContent>
+              </Popover>
+              {competenceDate && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setCompetenceDate(undefined)}
+                  title="Usar a data do lançamento"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+
           <div className="space-y-2">
             <Label>Descrição</Label>
             <Input
@@ -241,16 +466,71 @@ export function TransactionForm({
             />
           </div>
 
-          <div className="space-y-2">
-            <Label>Valor (R$)</Label>
-            <Input
-              value={value}
-              onChange={(e) => setValue(e.target.value)}
-              placeholder="0,00"
-              required
-            />
+          {isPending && onSubmitInstallments && !hasPaymentCode && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="installment-mode">Compra parcelada</Label>
+              <Switch
+                id="installment-mode"
+                checked={isInstallment}
+                onCheckedChange={setIsInstallment}
+              />
+            </div>
+          )}
+
+          <div className={cn('grid gap-3', installmentMode ? 'grid-cols-2' : 'grid-cols-1')}>
+            <div className="space-y-2">
+              <Label>{installmentMode ? 'Valor Total (R$)' : 'Valor (R$)'}</Label>
+              <Input
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder="0,00"
+                required
+              />
+            </div>
+
+            {installmentMode && (
+              <div className="space-y-2">
+                <Label>Parcelas</Label>
+                <Input
+                  type="number"
+                  min={2}
+                  max={MAX_INSTALLMENTS}
+                  value={installmentCount}
+                  onChange={(e) => setInstallmentCount(e.target.value)}
+                  required
+                />
+              </div>
+            )}
           </div>
 
+          {installmentMode && (
+            <div className="space-y-2">
+              <Label>Diferença de arredondamento</Label>
+              <Select
+                value={rounding}
+                onValueChange={(v) => setRounding(v as InstallmentRounding)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="z-50">
+                  <SelectItem value="first">Na primeira parcela</SelectItem>
+                  <SelectItem value="last">Na última parcela</SelectItem>
+                </SelectContent>
+              </Select>
+              {installmentPreview && (
+                <p className="text-xs text-muted-foreground">
+                  {installmentPreview[0] === installmentPreview[installmentPreview.length - 1]
+                    ? `${count}x de ${formatCurrency(installmentPreview[0])}`
+                    : rounding === 'first'
+                      ? `1x de ${formatCurrency(installmentPreview[0])} + ${count - 1}x de ${formatCurrency(installmentPreview[1])}`
+                      : `${count - 1}x de ${formatCurrency(installmentPreview[0])} + 1x de ${formatCurrency(installmentPreview[count - 1])}`}
+                  {' '}com vencimentos mensais
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Category with Add New Option */}
           <div className="space-y-2">
             <div className="flex items-center justify-between">
@@ -339,8 +619,14 @@ export function TransactionForm({
             </div>
           )}
 
-          <Button type="submit" className="w-full">
-            {isPending 
+          {!installmentMode && (
+            <AttachmentInput files={attachments} onFilesChange={setAttachments} />
+          )}
+
+          <Button type="submit" className="w-full" disabled={!!duplicateBoleto || isSaving}>
+            {installmentMode
+              ? `Adicionar ${validCount ? count : ''} Parcelas`
+              : isPending
               ? `Adicionar ${type === 'income' ? 'A Receber' : 'A Pagar'}`
               : 'Adicionar Lançamento'
             }
@@ -16,6 +16,12 @@ import {
   X,
   Tag,
   FileText,
+  Sparkles,
+  Layers,
+  ArrowLeftRight,
+  Split,
+  Paperclip,
+  QrCode,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -33,9 +39,25 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover';
-import { Transaction, Category, PAYMENT_METHODS } from '@/types/finance';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Transaction, TransactionAttachment, Category, PAYMENT_METHODS } from '@/types/finance';
+import { CategorySuggestion } from '@/lib/categorySuggestions';
+import { getInstallmentLabel } from '@/lib/installments';
+import { isTransfer } from '@/lib/transfers';
+import { isSplit } from '@/lib/splits';
+import { useAccounts } from '@/contexts/AccountContext';
+import { AttachmentPreviewDialog } from '@/components/AttachmentPreviewDialog';
+import { PixChargeDialog } from '@/components/PixChargeDialog';
 import { cn } from '@/lib/utils';
 
+const SUGGESTION_THRESHOLDS = [50, 60, 70, 80, 90];
+
 interface TransactionListProps {
   transactions: Transaction[];
   categories: Category[];
@@ -44,6 +66,11 @@ interface TransactionListProps {
   onEdit?: (transaction: Transaction) => void;
   onBulkUpdate?: (ids: string[], updates: Partial<Transaction>) => void | Promise<void>;
   onBulkDelete?: (ids: string[]) => void | Promise<void>;
+  suggestions?: Map<string, CategorySuggestion>;
+  onAcceptSuggestions?: (items: { id: string; category: string }[]) => void | Promise<void>;
+  onViewInstallments?: (groupId: string) => void;
+  onGetAttachmentUrl?: (attachment: TransactionAttachment) => Promise<string | null>;
+  onDeleteAttachment?: (attachment: TransactionAttachment) => void | Promise<void>;
 }
 
 export function TransactionList({
@@ -54,11 +81,21 @@ export function TransactionList({
   onEdit,
   onBulkUpdate,
   onBulkDelete,
+  suggestions,
+  onAcceptSuggestions,
+  onViewInstallments,
+  onGetAttachmentUrl,
+  onDeleteAttachment,
 }: TransactionListProps) {
+  const { accounts } = useAccounts();
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [selectionMode, setSelectionMode] = useState(false);
   const [editingDescription, setEditingDescription] = useState(false);
   const [newDescription, setNewDescription] = useState('');
+  const [suggestionThreshold, setSuggestionThreshold] = useState(80);
+  const [showSuggestionsPopover, setShowSuggestionsPopover] = useState(false);
+  const [previewTransactionId, setPreviewTransactionId] = useState<string | null>(null);
+  const [chargeTransactionId, setChargeTransactionId] = useState<string | null>(null);
   
   // Pending bulk changes - accumulated before confirmation
   const [pendingChanges, setPendingChanges] = useState<Partial<Transaction>>({});
@@ -164,6 +201,19 @@ export function TransactionList({
     return changes;
   };
 
+  // Suggestions for the visible rows that clear the chosen confidence
+  const acceptableSuggestions = transactions
+    .filter((t) => !t.category && suggestions?.has(t.id))
+    .map((t) => ({ id: t.id, ...suggestions!.get(t.id)! }))
+    .filter((s) => s.confidence * 100 >= suggestionThreshold);
+
+  const acceptSuggestions = () => {
+    if (onAcceptSuggestions && acceptableSuggestions.length > 0) {
+      onAcceptSuggestions(acceptableSuggestions.map(({ id, category }) => ({ id, category })));
+      setShowSuggestionsPopover(false);
+    }
+  };
+
   // Get unique categories from selected transactions
   const selectedTransactions = transactions.filter((t) => selectedIds.has(t.id));
   const bulkCategoryOptions = categories.filter((c) => 
@@ -223,6 +273,46 @@ export function TransactionList({
               </span>
             </>
           )}
+
+          {!selectionMode && onAcceptSuggestions && suggestions && suggestions.size > 0 && (
+            <Popover open={showSuggestionsPopover} onOpenChange={setShowSuggestionsPopover}>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Sparkles className="h-4 w-4 mr-1" />
+                  Sugestões
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-64 p-3" align="start">
+                <div className="space-y-3">
+                  <p className="text-sm font-medium">Aceitar sugestões com confiança mínima de</p>
+                  <Select
+                    value={String(suggestionThreshold)}
+                    onValueChange={(v) => setSuggestionThreshold(Number(v))}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SUGGESTION_THRESHOLDS.map((threshold) => (
+                        <SelectItem key={threshold} value={String(threshold)}>
+                          {threshold}%
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    className="w-full"
+                    onClick={acceptSuggestions}
+                    disabled={acceptableSuggestions.length === 0}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Aceitar {acceptableSuggestions.length} sugest{acceptableSuggestions.length !== 1 ? 'ões' : 'ão'}
+                  </Button>
+                </div>
+              </PopoverContent>
+            </Popover>
+          )}
         </div>
 
         {selectedIds.size > 0 && (
@@ -370,13 +460,18 @@ export function TransactionList({
 
       {/* Transaction Items */}
       {transactions.map((transaction) => {
-        const isUncategorized = !transaction.category;
+        const transfer = isTransfer(transaction);
+        const split = isSplit(transaction);
+        const isUncategorized = !transaction.category && !transfer && !split;
         const isPending = transaction.status === 'pending';
         const overdue = isOverdue(transaction);
         const filteredCategories = categories.filter(
           (c) => c.type === transaction.type
         );
         const isSelected = selectedIds.has(transaction.id);
+        const suggestion = isUncategorized ? suggestions?.get(transaction.id) : undefined;
+        const installmentLabel = getInstallmentLabel(transaction);
+        const attachmentCount = transaction.attachments?.length ?? 0;
 
         return (
           <div
@@ -419,6 +514,41 @@ export function TransactionList({
                 <p className={cn('font-medium text-sm sm:text-base truncate max-w-[150px] sm:max-w-none', isPending && 'text-muted-foreground')}>
                   {transaction.description}
                 </p>
+                {transfer && (
+                  <Badge variant="secondary" className="text-[10px] sm:text-xs px-1 sm:px-2">
+                    <ArrowLeftRight className="h-2.5 w-2.5 sm:h-3 sm:w-3 mr-0.5 sm:mr-1" />
+                    Transferência
+                  </Badge>
+                )}
+                {split && (
+                  <Badge
+                    variant="secondary"
+                    className="text-[10px] sm:text-xs px-1 sm:px-2"
+                    title={transaction.splits!
+                      .map((s) => `${s.category || 'Sem categoria'}: ${formatCurrency(s.value)}${s.memo ? ` (${s.memo})` : ''}`)
+                      .join('\n')}
+                  >
+                    <Split className="h-2.5 w-2.5 sm:h-3 sm:w-3 mr-0.5 sm:mr-1" />
+                    Dividido ({transaction.splits!.length})
+                  </Badge>
+                )}
+                {attachmentCount > 0 && (
+                  <Badge
+                    variant="secondary"
+                    className={cn('text-[10px] sm:text-xs px-1 sm:px-2', onGetAttachmentUrl && 'cursor-pointer hover:bg-secondary/80')}
+                    title="Ver comprovantes"
+                    onClick={() => onGetAttachmentUrl && setPreviewTransactionId(transaction.id)}
+                  >
+                    <Paperclip className="h-2.5 w-2.5 sm:h-3 sm:w-3 mr-0.5 sm:mr-1" />
+                    {attachmentCount}
+                  </Badge>
+                )}
+                {installmentLabel && (
+                  <Badge variant="secondary" className="text-[10px] sm:text-xs px-1 sm:px-2">
+                    <Layers className="h-2.5 w-2.5 sm:h-3 sm:w-3 mr-0.5 sm:mr-1" />
+                    {installmentLabel}
+                  </Badge>
+                )}
                 {isPending && (
                   <Badge 
                     variant="outline" 
@@ -470,6 +600,14 @@ export function TransactionList({
                     </span>
                   </>
                 )}
+                {transaction.competenceDate && transaction.competenceDate !== transaction.date && (
+                  <>
+                    <span className="hidden sm:inline">•</span>
+                    <span className="hidden sm:inline">
+                      Comp: {format(new Date(transaction.competenceDate), "MM/yyyy", { locale: ptBR })}
+                    </span>
+                  </>
+                )}
                 <span className="hidden sm:inline">•</span>
                 {isUncategorized ? (
                   <Popover>
@@ -493,9 +631,29 @@ export function TransactionList({
                       ))}
                     </PopoverContent>
                   </Popover>
+                ) : transfer ? (
+                  <span className="truncate max-w-[80px] sm:max-w-none">
+                    {transaction.type === 'expense' ? 'Para ' : 'De '}
+                    {accounts.find((a) => a.id === transaction.counterpartAccountId)?.name || 'outra conta'}
+                  </span>
+                ) : split ? (
+                  <span className="truncate max-w-[80px] sm:max-w-none">
+                    {transaction.splits!.map((s) => s.category || 'Sem categoria').join(', ')}
+                  </span>
                 ) : (
                   <span className="truncate max-w-[80px] sm:max-w-none">{transaction.category}</span>
                 )}
+                {suggestion && (
+                  <button
+                    className="inline-flex items-center gap-1 rounded-full border border-primary/30 bg-primary/5 px-2 py-0.5 text-[10px] sm:text-xs text-primary hover:bg-primary/10"
+                    title="Aceitar categoria sugerida"
+                    onClick={() => onUpdate(transaction.id, { category: suggestion.category })}
+                  >
+                    <Sparkles className="h-3 w-3" />
+                    <span className="truncate max-w-[80px] sm:max-w-none">{suggestion.category}</span>
+                    <span className="opacity-70">{Math.round(suggestion.confidence * 100)}%</span>
+                  </button>
+                )}
                 {transaction.paymentMethod && (
                   <>
                     <span className="hidden sm:inline">•</span>
@@ -530,6 +688,24 @@ export function TransactionList({
                       Editar
                     </DropdownMenuItem>
                   )}
+                  {onViewInstallments && transaction.installmentGroupId && (
+                    <DropdownMenuItem onClick={() => onViewInstallments(transaction.installmentGroupId!)}>
+                      <Layers className="h-4 w-4 mr-2" />
+                      Ver parcelas
+                    </DropdownMenuItem>
+                  )}
+                  {onGetAttachmentUrl && attachmentCount > 0 && (
+                    <DropdownMenuItem onClick={() => setPreviewTransactionId(transaction.id)}>
+                      <Paperclip className="h-4 w-4 mr-2" />
+                      Ver comprovantes
+                    </DropdownMenuItem>
+                  )}
+                  {isPending && transaction.type === 'income' && !transfer && (
+                    <DropdownMenuItem onClick={() => setChargeTransactionId(transaction.id)}>
+                      <QrCode className="h-4 w-4 mr-2" />
+                      Cobrar via PIX
+                    </DropdownMenuItem>
+                  )}
                   {isPending && (
                     <DropdownMenuItem
                       onClick={() =>
@@ -568,6 +744,22 @@ export function TransactionList({
           </div>
         );
       })}
+
+      {onGetAttachmentUrl && (
+        <AttachmentPreviewDialog
+          open={!!previewTransactionId}
+          onOpenChange={(open) => !open && setPreviewTransactionId(null)}
+          transaction={transactions.find((t) => t.id === previewTransactionId) || null}
+          onGetUrl={onGetAttachmentUrl}
+          onDelete={onDeleteAttachment}
+        />
+      )}
+
+      <PixChargeDialog
+        open={!!chargeTransactionId}
+        onOpenChange={(open) => !open && setChargeTransactionId(null)}
+        transaction={transactions.find((t) => t.id === chargeTransactionId) || null}
+      />
     </div>
   );
 }
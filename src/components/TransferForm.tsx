@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowLeftRight, CalendarIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAccounts } from '@/contexts/AccountContext';
+
+interface TransferFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (transfer: {
+    toAccountId: string;
+    date: string;
+    value: number;
+    fromDescription: string;
+    toDescription: string;
+  }) => Promise<boolean>;
+}
+
+export function TransferForm({ open, onOpenChange, onSubmit }: TransferFormProps) {
+  const { accounts, selectedAccount } = useAccounts();
+  const [toAccountId, setToAccountId] = useState('');
+  const [date, setDate] = useState<Date>(new Date());
+  const [value, setValue] = useState('');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const destinations = accounts.filter((a) => a.id !== selectedAccount?.id);
+
+  const resetForm = () => {
+    setToAccountId('');
+    setDate(new Date());
+    setValue('');
+    setNote('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const numericValue = parseFloat(value.replace(',', '.'));
+    const destination = destinations.find((a) => a.id === toAccountId);
+    if (!selectedAccount || !destination || isNaN(numericValue) || numericValue <= 0) return;
+
+    const suffix = note.trim() ? ` - ${note.trim()}` : '';
+    setIsSubmitting(true);
+    const success = await onSubmit({
+      toAccountId: destination.id,
+      date: format(date, 'yyyy-MM-dd'),
+      value: numericValue,
+      fromDescription: `Transferência para ${destination.name}${suffix}`,
+      toDescription: `Transferência de ${selectedAccount.name}${suffix}`,
+    });
+    setIsSubmitting(false);
+
+    if (success) {
+      resetForm();
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowLeftRight className="h-5 w-5" />
+            Nova Transferência
+          </DialogTitle>
+          <DialogDescription>
+            Registra a saída em {selectedAccount?.name} e a entrada na conta de destino.
+            Transferências não contam como entradas ou saídas nos relatórios.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Origem</Label>
+              <Input value={selectedAccount?.name || ''} disabled />
+            </div>
+            <div className="space-y-2">
+              <Label>Destino</Label>
+              <Select value={toAccountId} onValueChange={setToAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent className="z-50">
+                  {destinations.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Data</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="w-full justify-start text-left font-normal"
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {format(date, 'dd/MM/yyyy')}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0 z-50" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={date}
+                    onSelect={(d) => d && setDate(d)}
+                    initialFocus
+                    className="pointer-events-auto"
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            <div className="space-y-2">
+              <Label>Valor (R$)</Label>
+              <Input
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder="0,00"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Observação</Label>
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Opcional"
+            />
+          </div>
+
+          <Button type="submit" className="w-full" disabled={!toAccountId || isSubmitting}>
+            Transferir
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
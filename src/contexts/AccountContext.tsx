@@ -9,6 +9,10 @@ export interface Account {
   bank_name: string;
   company_name: string;
   initial_balance: number;
+  ledger_code?: string | null;
+  cnpj?: string | null; // Somente dígitos
+  pix_key?: string | null;
+  pix_city?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -0,0 +1,36 @@
+import { createContext, useContext, useState, ReactNode } from 'react';
+import { ReportingRegime } from '@/lib/reporting';
+
+interface ReportingContextType {
+  regime: ReportingRegime;
+  setRegime: (regime: ReportingRegime) => void;
+}
+
+const ReportingContext = createContext<ReportingContextType | undefined>(undefined);
+
+const REPORTING_REGIME_KEY = 'cashflow_reporting_regime';
+
+export function ReportingProvider({ children }: { children: ReactNode }) {
+  const [regime, setRegimeState] = useState<ReportingRegime>(() =>
+    localStorage.getItem(REPORTING_REGIME_KEY) === 'accrual' ? 'accrual' : 'cash'
+  );
+
+  const setRegime = (value: ReportingRegime) => {
+    setRegimeState(value);
+    localStorage.setItem(REPORTING_REGIME_KEY, value);
+  };
+
+  return (
+    <ReportingContext.Provider value={{ regime, setRegime }}>
+      {children}
+    </ReportingContext.Provider>
+  );
+}
+
+export function useReporting() {
+  const context = useContext(ReportingContext);
+  if (context === undefined) {
+    throw new Error('useReporting must be used within a ReportingProvider');
+  }
+  return context;
+}
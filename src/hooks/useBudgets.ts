@@ -0,0 +1,122 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { format, parseISO, subMonths } from 'date-fns';
+import { useAccounts } from '@/contexts/AccountContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { Budget, Category } from '@/types/finance';
+
+type BudgetRow = Tables<'budgets'>;
+
+export function useBudgets(categories: Category[]) {
+  const { selectedAccount } = useAccounts();
+  // Raw rows are kept so category names always follow the current category list
+  const [rows, setRows] = useState<BudgetRow[]>([]);
+
+  const budgets = useMemo(
+    () =>
+      rows.flatMap((row): Budget[] => {
+        const category = categories.find(c => c.id === row.category_id);
+        return category
+          ? [{ id: row.id, category: category.name, month: row.month, amount: Number(row.amount) }]
+          : [];
+      }),
+    [rows, categories]
+  );
+
+  const fetchBudgets = useCallback(async () => {
+    if (!selectedAccount) {
+      setRows([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('budgets')
+      .select('*')
+      .eq('account_id', selectedAccount.id)
+      .order('month', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching budgets:', error);
+      return;
+    }
+
+    setRows(data || []);
+  }, [selectedAccount?.id]);
+
+  useEffect(() => {
+    fetchBudgets();
+  }, [fetchBudgets]);
+
+  // Creates or replaces the budget of a category for the month
+  const setBudget = async (categoryName: string, month: string, amount: number) => {
+    const category = categories.find(c => c.name === categoryName);
+    if (!selectedAccount || !category) return null;
+
+    const { data, error } = await supabase
+      .from('budgets')
+      .upsert(
+        { account_id: selectedAccount.id, category_id: category.id, month, amount },
+        { onConflict: 'category_id,month' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving budget:', error);
+      return null;
+    }
+
+    setRows(prev => [...prev.filter(r => r.id !== data.id), data]);
+    return data.id;
+  };
+
+  const deleteBudget = async (id: string) => {
+    const { error } = await supabase
+      .from('budgets')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting budget:', error);
+      return false;
+    }
+
+    setRows(prev => prev.filter(r => r.id !== id));
+    return true;
+  };
+
+  // Copies last month's budgets into `month`, keeping the ones already set there
+  const copyFromPreviousMonth = async (month: string) => {
+    if (!selectedAccount) return 0;
+
+    const previousMonth = format(subMonths(parseISO(month), 1), 'yyyy-MM-dd');
+    const existing = new Set(rows.filter(r => r.month === month).map(r => r.category_id));
+    const toCopy = rows.filter(r => r.month === previousMonth && !existing.has(r.category_id));
+    if (toCopy.length === 0) return 0;
+
+    const { data, error } = await supabase
+      .from('budgets')
+      .insert(toCopy.map(r => ({
+        account_id: selectedAccount.id,
+        category_id: r.category_id,
+        month,
+        amount: r.amount,
+      })))
+      .select();
+
+    if (error) {
+      console.error('Error copying budgets:', error);
+      return 0;
+    }
+
+    setRows(prev => [...prev, ...(data || [])]);
+    return data?.length || 0;
+  };
+
+  return {
+    budgets,
+    setBudget,
+    deleteBudget,
+    copyFromPreviousMonth,
+  };
+}
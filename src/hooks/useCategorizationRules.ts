@@ -0,0 +1,134 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAccounts } from '@/contexts/AccountContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import {
+  Category,
+  CategorizationRule,
+  PaymentMethod,
+  RuleOperator,
+  TransactionType,
+} from '@/types/finance';
+
+// Map database row to frontend CategorizationRule (category id -> name)
+function mapDbToRule(row: Tables<'categorization_rules'>, categories: Category[]): CategorizationRule {
+  return {
+    id: row.id,
+    name: row.name,
+    priority: row.priority,
+    descriptionOperator: row.description_operator as RuleOperator | null,
+    descriptionPattern: row.description_pattern,
+    minValue: row.min_value !== null ? Number(row.min_value) : null,
+    maxValue: row.max_value !== null ? Number(row.max_value) : null,
+    matchType: row.match_type as TransactionType | null,
+    setCategory: categories.find(c => c.id === row.set_category_id)?.name || null,
+    setPaymentMethod: row.set_payment_method as PaymentMethod | null,
+    setType: row.set_type as TransactionType | null,
+    isActive: row.is_active,
+  };
+}
+
+export function useCategorizationRules(categories: Category[]) {
+  const { selectedAccount } = useAccounts();
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+
+  const getCategoryId = (categoryName: string | null) =>
+    categoryName ? categories.find(c => c.name === categoryName)?.id || null : null;
+
+  const mapRuleToDb = (rule: Omit<CategorizationRule, 'id'>) => ({
+    name: rule.name,
+    priority: rule.priority,
+    description_operator: rule.descriptionPattern ? rule.descriptionOperator : null,
+    description_pattern: rule.descriptionPattern || null,
+    min_value: rule.minValue,
+    max_value: rule.maxValue,
+    match_type: rule.matchType,
+    set_category_id: getCategoryId(rule.setCategory),
+    set_payment_method: rule.setPaymentMethod,
+    set_type: rule.setType,
+    is_active: rule.isActive,
+  });
+
+  const fetchRules = useCallback(async () => {
+    if (!selectedAccount) {
+      setRules([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('categorization_rules')
+      .select('*')
+      .eq('account_id', selectedAccount.id)
+      .order('priority')
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching categorization rules:', error);
+      return;
+    }
+
+    setRules((data || []).map(row => mapDbToRule(row, categories)));
+  }, [selectedAccount?.id, categories]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const addRule = async (rule: Omit<CategorizationRule, 'id'>) => {
+    if (!selectedAccount) return null;
+
+    const { data, error } = await supabase
+      .from('categorization_rules')
+      .insert({ account_id: selectedAccount.id, ...mapRuleToDb(rule) })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding categorization rule:', error);
+      return null;
+    }
+
+    const newRule = mapDbToRule(data, categories);
+    setRules(prev => [...prev, newRule].sort((a, b) => a.priority - b.priority));
+    return newRule;
+  };
+
+  const updateRule = async (id: string, rule: Omit<CategorizationRule, 'id'>) => {
+    const { error } = await supabase
+      .from('categorization_rules')
+      .update(mapRuleToDb(rule))
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating categorization rule:', error);
+      return false;
+    }
+
+    setRules(prev =>
+      prev.map(r => (r.id === id ? { ...rule, id } : r)).sort((a, b) => a.priority - b.priority)
+    );
+    return true;
+  };
+
+  const deleteRule = async (id: string) => {
+    const { error } = await supabase
+      .from('categorization_rules')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting categorization rule:', error);
+      return false;
+    }
+
+    setRules(prev => prev.filter(r => r.id !== id));
+    return true;
+  };
+
+  return {
+    rules,
+    addRule,
+    updateRule,
+    deleteRule,
+  };
+}
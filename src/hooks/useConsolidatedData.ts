@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Transaction, Category } from '@/types/finance';
+import { mapDbToTransaction, mapDbToCategory, mapDbToSplits } from '@/hooks/useTransactions';
+
+export interface ConsolidatedTransaction extends Transaction {
+  accountId: string;
+}
+
+// Read-only transactions and categories of several accounts at once
+export function useConsolidatedData(accountIds: string[]) {
+  const [transactions, setTransactions] = useState<ConsolidatedTransaction[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const idsKey = [...accountIds].sort().join(',');
+
+  const fetchData = useCallback(async () => {
+    const ids = idsKey ? idsKey.split(',') : [];
+    if (ids.length === 0) {
+      setTransactions([]);
+      setCategories([]);
+      return;
+    }
+
+    setIsLoading(true);
+    const [categoriesResult, transactionsResult] = await Promise.all([
+      supabase.from('categories').select('*').in('account_id', ids).order('name'),
+      supabase
+        .from('transactions')
+        .select('*, transaction_splits(*)')
+        .in('account_id', ids)
+        .order('date', { ascending: false }),
+    ]);
+    setIsLoading(false);
+
+    if (categoriesResult.error || transactionsResult.error) {
+      console.error('Error fetching consolidated data:', categoriesResult.error || transactionsResult.error);
+      return;
+    }
+
+    // Each account has its own categories; names are what the reports group by
+    const categoryNames = new Map<string, string>();
+    const merged = new Map<string, Category>();
+    (categoriesResult.data || []).forEach(row => {
+      categoryNames.set(row.id, row.name);
+      const key = `${row.type}:${row.name}`;
+      if (!merged.has(key)) merged.set(key, mapDbToCategory(row));
+    });
+
+    const getCategoryName = (categoryId: string | null) =>
+      categoryId ? categoryNames.get(categoryId) || null : null;
+
+    setCategories(Array.from(merged.values()));
+    setTransactions((transactionsResult.data || []).map(row => ({
+      ...mapDbToTransaction(row),
+      category: getCategoryName(row.category_id),
+      splits: mapDbToSplits(row.transaction_splits, getCategoryName),
+      accountId: row.account_id,
+    })));
+  }, [idsKey]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return {
+    transactions,
+    categories,
+    isLoading,
+    refresh: fetchData,
+  };
+}
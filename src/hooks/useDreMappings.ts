@@ -0,0 +1,87 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAccounts } from '@/contexts/AccountContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { Category, DreLine, DreMapping } from '@/types/finance';
+
+type DreMappingRow = Tables<'dre_mappings'>;
+
+export function useDreMappings(categories: Category[]) {
+  const { selectedAccount } = useAccounts();
+  const [rows, setRows] = useState<DreMappingRow[]>([]);
+
+  const mappings = useMemo(
+    () =>
+      rows.flatMap((row): DreMapping[] => {
+        const category = categories.find(c => c.id === row.category_id);
+        return category ? [{ id: row.id, category: category.name, line: row.line as DreLine }] : [];
+      }),
+    [rows, categories]
+  );
+
+  const fetchMappings = useCallback(async () => {
+    if (!selectedAccount) {
+      setRows([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('dre_mappings')
+      .select('*')
+      .eq('account_id', selectedAccount.id);
+
+    if (error) {
+      console.error('Error fetching DRE mappings:', error);
+      return;
+    }
+
+    setRows(data || []);
+  }, [selectedAccount?.id]);
+
+  useEffect(() => {
+    fetchMappings();
+  }, [fetchMappings]);
+
+  // A null line removes the mapping so the category falls back to its parent's line
+  const setMapping = async (categoryName: string, line: DreLine | null) => {
+    const category = categories.find(c => c.name === categoryName);
+    if (!selectedAccount || !category) return false;
+
+    if (line === null) {
+      const { error } = await supabase
+        .from('dre_mappings')
+        .delete()
+        .eq('category_id', category.id);
+
+      if (error) {
+        console.error('Error deleting DRE mapping:', error);
+        return false;
+      }
+
+      setRows(prev => prev.filter(r => r.category_id !== category.id));
+      return true;
+    }
+
+    const { data, error } = await supabase
+      .from('dre_mappings')
+      .upsert(
+        { account_id: selectedAccount.id, category_id: category.id, line },
+        { onConflict: 'category_id' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving DRE mapping:', error);
+      return false;
+    }
+
+    setRows(prev => [...prev.filter(r => r.category_id !== category.id), data]);
+    return true;
+  };
+
+  return {
+    mappings,
+    setMapping,
+  };
+}
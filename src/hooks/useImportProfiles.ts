@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAccounts } from '@/contexts/AccountContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { CSVMapping, DEFAULT_CSV_MAPPING } from '@/lib/csvParser';
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  mapping: CSVMapping;
+}
+
+export function useImportProfiles() {
+  const { selectedAccount } = useAccounts();
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+
+  const fetchProfiles = useCallback(async () => {
+    if (!selectedAccount) {
+      setProfiles([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('import_profiles')
+      .select('*')
+      .eq('account_id', selectedAccount.id)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching import profiles:', error);
+      return;
+    }
+
+    setProfiles(
+      (data || []).map(row => ({
+        id: row.id,
+        name: row.name,
+        // Fill in fields added after the profile was saved
+        mapping: { ...DEFAULT_CSV_MAPPING, ...(row.mapping as unknown as Partial<CSVMapping>) },
+      }))
+    );
+  }, [selectedAccount?.id]);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  // Saving with an existing name overwrites that profile
+  const saveProfile = async (name: string, mapping: CSVMapping) => {
+    if (!selectedAccount) return null;
+
+    const { data, error } = await supabase
+      .from('import_profiles')
+      .upsert(
+        {
+          account_id: selectedAccount.id,
+          name,
+          format: 'csv',
+          mapping: mapping as unknown as Json,
+        },
+        { onConflict: 'account_id,name' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving import profile:', error);
+      return null;
+    }
+
+    const profile: ImportProfile = { id: data.id, name: data.name, mapping };
+    setProfiles(prev =>
+      [...prev.filter(p => p.id !== profile.id), profile].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    return profile;
+  };
+
+  const deleteProfile = async (id: string) => {
+    const { error } = await supabase
+      .from('import_profiles')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting import profile:', error);
+      return false;
+    }
+
+    setProfiles(prev => prev.filter(p => p.id !== id));
+    return true;
+  };
+
+  return {
+    profiles,
+    saveProfile,
+    deleteProfile,
+  };
+}
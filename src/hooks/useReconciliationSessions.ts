@@ -0,0 +1,182 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAccounts } from '@/contexts/AccountContext';
+import { supabase } from '@/integrations/supabase/client';
+import { ReconciliationSession, ReconciliationStatus } from '@/types/finance';
+
+// Map database row (with its verified transactions) to frontend ReconciliationSession
+function mapDbToSession(row: {
+  id: string;
+  period_start: string;
+  period_end: string;
+  bank_balance: number | null;
+  status: string;
+  closed_at: string | null;
+  closed_by: string | null;
+  reconciliation_session_transactions: { transaction_id: string }[];
+}): ReconciliationSession {
+  return {
+    id: row.id,
+    periodStart: row.period_start,
+    periodEnd: row.period_end,
+    bankBalance: row.bank_balance === null ? null : Number(row.bank_balance),
+    status: row.status as ReconciliationStatus,
+    closedAt: row.closed_at,
+    closedBy: row.closed_by,
+    verifiedIds: row.reconciliation_session_transactions.map(v => v.transaction_id),
+  };
+}
+
+export function useReconciliationSessions() {
+  const { selectedAccount } = useAccounts();
+  const [sessions, setSessions] = useState<ReconciliationSession[]>([]);
+
+  const fetchSessions = useCallback(async () => {
+    if (!selectedAccount) {
+      setSessions([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('reconciliation_sessions')
+      .select('*, reconciliation_session_transactions(transaction_id)')
+      .eq('account_id', selectedAccount.id)
+      .order('period_start', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching reconciliation sessions:', error);
+      return;
+    }
+
+    setSessions((data || []).map(mapDbToSession));
+  }, [selectedAccount?.id]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const createSession = async (session: { periodStart: string; periodEnd: string; bankBalance: number | null }) => {
+    if (!selectedAccount) return null;
+
+    const { data, error } = await supabase
+      .from('reconciliation_sessions')
+      .insert({
+        account_id: selectedAccount.id,
+        period_start: session.periodStart,
+        period_end: session.periodEnd,
+        bank_balance: session.bankBalance,
+      })
+      .select('*, reconciliation_session_transactions(transaction_id)')
+      .single();
+
+    if (error) {
+      console.error('Error creating reconciliation session:', error);
+      return null;
+    }
+
+    const created = mapDbToSession(data);
+    setSessions(prev => [created, ...prev].sort((a, b) => b.periodStart.localeCompare(a.periodStart)));
+    return created;
+  };
+
+  const updateBankBalance = async (id: string, bankBalance: number | null) => {
+    const { error } = await supabase
+      .from('reconciliation_sessions')
+      .update({ bank_balance: bankBalance })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating reconciliation session:', error);
+      return false;
+    }
+
+    setSessions(prev => prev.map(s => (s.id === id ? { ...s, bankBalance } : s)));
+    return true;
+  };
+
+  const setVerified = async (id: string, transactionId: string, verified: boolean) => {
+    const { error } = verified
+      ? await supabase
+          .from('reconciliation_session_transactions')
+          .insert({ session_id: id, transaction_id: transactionId })
+      : await supabase
+          .from('reconciliation_session_transactions')
+          .delete()
+          .eq('session_id', id)
+          .eq('transaction_id', transactionId);
+
+    if (error) {
+      console.error('Error updating verified transaction:', error);
+      return false;
+    }
+
+    setSessions(prev =>
+      prev.map(s =>
+        s.id === id
+          ? {
+              ...s,
+              verifiedIds: verified
+                ? [...s.verifiedIds, transactionId]
+                : s.verifiedIds.filter(v => v !== transactionId),
+            }
+          : s
+      )
+    );
+    return true;
+  };
+
+  // Marks the verified transactions as reconciled and locks the period
+  const closeSession = async (id: string) => {
+    const { error } = await supabase.rpc('close_reconciliation_session', { session_id: id });
+
+    if (error) {
+      console.error('Error closing reconciliation session:', error);
+      return false;
+    }
+
+    await fetchSessions();
+    return true;
+  };
+
+  const reopenSession = async (id: string) => {
+    const { error } = await supabase
+      .from('reconciliation_sessions')
+      .update({ status: 'open', closed_at: null, closed_by: null })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error reopening reconciliation session:', error);
+      return false;
+    }
+
+    setSessions(prev =>
+      prev.map(s => (s.id === id ? { ...s, status: 'open', closedAt: null, closedBy: null } : s))
+    );
+    return true;
+  };
+
+  const deleteSession = async (id: string) => {
+    const { error } = await supabase
+      .from('reconciliation_sessions')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting reconciliation session:', error);
+      return false;
+    }
+
+    setSessions(prev => prev.filter(s => s.id !== id));
+    return true;
+  };
+
+  return {
+    sessions,
+    createSession,
+    updateBankBalance,
+    setVerified,
+    closeSession,
+    reopenSession,
+    deleteSession,
+    refreshSessions: fetchSessions,
+  };
+}
@@ -0,0 +1,270 @@
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { format, subDays } from 'date-fns';
+import { useAccounts } from '@/contexts/AccountContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesUpdate } from '@/integrations/supabase/types';
+import {
+  Category,
+  Transaction,
+  RecurringTransaction,
+  RecurrenceFrequency,
+  BusinessDayAdjustment,
+  PaymentMethod,
+  TransactionType,
+} from '@/types/finance';
+import { materializeOccurrences } from '@/lib/recurrence';
+
+type NewTransaction = Omit<Transaction, 'id' | 'createdAt'>;
+type RecurringRow = Tables<'recurring_transactions'>;
+
+// Map database row to frontend RecurringTransaction (category id -> name)
+function mapDbToRecurring(row: RecurringRow, categories: Category[]): RecurringTransaction {
+  return {
+    id: row.id,
+    description: row.description,
+    category: categories.find(c => c.id === row.category_id)?.name || null,
+    value: Number(row.value),
+    type: row.type as TransactionType,
+    paymentMethod: row.payment_method as PaymentMethod | null,
+    frequency: row.frequency as RecurrenceFrequency,
+    intervalDays: row.interval_days,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    businessDayAdjustment: row.business_day_adjustment as BusinessDayAdjustment,
+    isActive: row.is_active,
+    lastGeneratedDate: row.last_generated_date,
+  };
+}
+
+const SCHEDULE_FIELDS: (keyof RecurringTransaction)[] = [
+  'frequency', 'intervalDays', 'startDate', 'endDate', 'businessDayAdjustment',
+];
+
+export function useRecurringTransactions(
+  categories: Category[],
+  isLoaded: boolean,
+  addTransactions: (transactions: NewTransaction[]) => Promise<Transaction[]>,
+  refreshTransactions: () => Promise<void>
+) {
+  const { selectedAccount } = useAccounts();
+  // Raw rows are kept so category names always follow the current category list
+  const [rows, setRows] = useState<RecurringRow[]>([]);
+  const [loadedAccountId, setLoadedAccountId] = useState<string | null>(null);
+  const generatedForAccount = useRef<string | null>(null);
+
+  const templates = useMemo(
+    () => rows.map(row => mapDbToRecurring(row, categories)),
+    [rows, categories]
+  );
+
+  const getCategoryId = (categoryName: string | null) =>
+    categoryName ? categories.find(c => c.name === categoryName)?.id || null : null;
+
+  const mapRecurringToDb = (template: Omit<RecurringTransaction, 'id' | 'lastGeneratedDate'>) => ({
+    description: template.description,
+    category_id: getCategoryId(template.category),
+    value: template.value,
+    type: template.type,
+    payment_method: template.paymentMethod,
+    frequency: template.frequency,
+    interval_days: template.frequency === 'custom_days' ? template.intervalDays : null,
+    start_date: template.startDate,
+    end_date: template.endDate,
+    business_day_adjustment: template.businessDayAdjustment,
+    is_active: template.isActive,
+  });
+
+  const fetchTemplates = useCallback(async () => {
+    if (!selectedAccount) {
+      setRows([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('recurring_transactions')
+      .select('*')
+      .eq('account_id', selectedAccount.id)
+      .order('description');
+
+    if (error) {
+      console.error('Error fetching recurring transactions:', error);
+      return;
+    }
+
+    setRows(data || []);
+    setLoadedAccountId(selectedAccount.id);
+  }, [selectedAccount?.id]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  // Create the pending occurrences that entered the horizon and advance the template
+  const generateOccurrences = async (template: RecurringTransaction) => {
+    const { transactions, lastGeneratedDate } = materializeOccurrences(template);
+    if (transactions.length === 0) return 0;
+
+    const added = await addTransactions(transactions);
+    if (added.length === 0) return 0;
+
+    const { error } = await supabase
+      .from('recurring_transactions')
+      .update({ last_generated_date: lastGeneratedDate })
+      .eq('id', template.id);
+
+    if (error) {
+      console.error('Error updating recurring transaction:', error);
+    }
+
+    setRows(prev => prev.map(row => (row.id === template.id ? { ...row, last_generated_date: lastGeneratedDate } : row)));
+    return added.length;
+  };
+
+  // The generation run reads the latest templates without re-running when they change
+  const templatesRef = useRef(templates);
+  templatesRef.current = templates;
+  const generateOccurrencesRef = useRef(generateOccurrences);
+  generateOccurrencesRef.current = generateOccurrences;
+
+  // Roll the horizon forward once per account, after categories and transactions are loaded
+  const accountId = selectedAccount?.id;
+  useEffect(() => {
+    if (!isLoaded || !accountId || loadedAccountId !== accountId) return;
+    if (generatedForAccount.current === accountId) return;
+    generatedForAccount.current = accountId;
+
+    const run = async () => {
+      for (const template of templatesRef.current) {
+        await generateOccurrencesRef.current(template);
+      }
+    };
+    run();
+  }, [isLoaded, loadedAccountId, accountId]);
+
+  const addTemplate = async (template: Omit<RecurringTransaction, 'id' | 'lastGeneratedDate'>) => {
+    if (!selectedAccount) return null;
+
+    const { data, error } = await supabase
+      .from('recurring_transactions')
+      .insert({ account_id: selectedAccount.id, ...mapRecurringToDb(template) })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding recurring transaction:', error);
+      return null;
+    }
+
+    const newTemplate = mapDbToRecurring(data, categories);
+    setRows(prev => [...prev, data].sort((a, b) => a.description.localeCompare(b.description)));
+    await generateOccurrences(newTemplate);
+    return newTemplate;
+  };
+
+  /**
+   * Updates a template. With `propagate`, pending occurrences due from today on
+   * receive the new values; if the schedule changed they are recreated.
+   */
+  const updateTemplate = async (
+    id: string,
+    template: Omit<RecurringTransaction, 'id' | 'lastGeneratedDate'>,
+    propagate: boolean
+  ) => {
+    const current = templates.find(t => t.id === id);
+    if (!current) return false;
+
+    const scheduleChanged = SCHEDULE_FIELDS.some(field => current[field] !== template[field]);
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const updates: TablesUpdate<'recurring_transactions'> = mapRecurringToDb(template);
+
+    if (propagate && scheduleChanged) {
+      const { error: deleteError } = await supabase
+        .from('transactions')
+        .delete()
+        .eq('recurring_id', id)
+        .eq('status', 'pending')
+        .gte('due_date', today);
+
+      if (deleteError) {
+        console.error('Error deleting future occurrences:', deleteError);
+        return false;
+      }
+      // Regenerate from today with the new schedule
+      updates.last_generated_date = format(subDays(new Date(), 1), 'yyyy-MM-dd');
+    } else if (propagate) {
+      const { error: propagateError } = await supabase
+        .from('transactions')
+        .update({
+          description: template.description,
+          category_id: getCategoryId(template.category),
+          value: template.value,
+          type: template.type,
+          payment_method: template.paymentMethod,
+        })
+        .eq('recurring_id', id)
+        .eq('status', 'pending')
+        .gte('due_date', today);
+
+      if (propagateError) {
+        console.error('Error updating future occurrences:', propagateError);
+        return false;
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('recurring_transactions')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating recurring transaction:', error);
+      return false;
+    }
+
+    const updated = mapDbToRecurring(data, categories);
+    setRows(prev => prev.map(row => (row.id === id ? data : row)));
+    if (propagate) await refreshTransactions();
+    await generateOccurrences(updated);
+    return true;
+  };
+
+  const deleteTemplate = async (id: string, deleteFutureOccurrences: boolean) => {
+    if (deleteFutureOccurrences) {
+      const today = format(new Date(), 'yyyy-MM-dd');
+      const { error: deleteError } = await supabase
+        .from('transactions')
+        .delete()
+        .eq('recurring_id', id)
+        .eq('status', 'pending')
+        .gte('due_date', today);
+
+      if (deleteError) {
+        console.error('Error deleting future occurrences:', deleteError);
+        return false;
+      }
+    }
+
+    const { error } = await supabase
+      .from('recurring_transactions')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting recurring transaction:', error);
+      return false;
+    }
+
+    setRows(prev => prev.filter(row => row.id !== id));
+    await refreshTransactions();
+    return true;
+  };
+
+  return {
+    templates,
+    addTemplate,
+    updateTemplate,
+    deleteTemplate,
+  };
+}
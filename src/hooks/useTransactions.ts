@@ -1,33 +1,141 @@
 import { useState, useEffect, useMemo, useCallback } from 'react';
-import { Transaction, DEFAULT_CATEGORIES, Category, TransactionType, TransactionStatus, PaymentMethod } from '@/types/finance';
+import {
+  Transaction,
+  TransactionSplit,
+  TransactionAttachment,
+  DEFAULT_CATEGORIES,
+  Category,
+  CategoryChildStrategy,
+  TransactionType,
+  TransactionStatus,
+  PaymentMethod,
+  ImportBatch,
+  ImportFormat,
+} from '@/types/finance';
 import { useAccounts } from '@/contexts/AccountContext';
 import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesUpdate } from '@/integrations/supabase/types';
+import { excludeTransfers } from '@/lib/transfers';
+import { getDescendantIds } from '@/lib/categoryTree';
+import { isDateLocked, LockedPeriod } from '@/lib/reconciliationSessions';
+import { getPrimarySplitCategory, isSplit } from '@/lib/splits';
+import { RECEIPTS_BUCKET, buildAttachmentPath } from '@/lib/attachments';
 
 // Map database row to frontend Transaction type
-function mapDbToTransaction(row: any): Transaction {
+export function mapDbToTransaction(row: any): Transaction {
   return {
     id: row.id,
     date: row.date,
     dueDate: row.due_date || undefined,
+    competenceDate: row.competence_date || null,
     description: row.description,
     category: row.category_id,
     value: Number(row.value),
     type: row.type as TransactionType,
     status: row.status as TransactionStatus,
     paymentMethod: row.payment_method as PaymentMethod | null,
+    externalId: row.external_id || undefined,
+    importBatchId: row.import_batch_id || undefined,
+    recurringId: row.recurring_id || undefined,
+    installmentGroupId: row.installment_group_id || undefined,
+    installmentNumber: row.installment_number || undefined,
+    installmentTotal: row.installment_total || undefined,
+    transferId: row.transfer_id || undefined,
+    counterpartAccountId: row.counterpart_account_id || undefined,
+    nfeAccessKey: row.nfe_access_key || undefined,
+    barcode: row.barcode || undefined,
+    pixKey: row.pix_key || undefined,
+    pixTxid: row.pix_txid || undefined,
     isImported: row.is_imported || false,
     isReconciled: row.is_reconciled || false,
     createdAt: row.created_at,
   };
 }
 
+// Map frontend Transaction to database insert row
+function mapTransactionToDb(
+  transaction: Omit<Transaction, 'id' | 'createdAt'>,
+  accountId: string,
+  categoryId: string | null
+) {
+  return {
+    account_id: accountId,
+    date: transaction.date,
+    due_date: transaction.dueDate || null,
+    competence_date: transaction.competenceDate || null,
+    description: transaction.description,
+    category_id: categoryId,
+    value: transaction.value,
+    type: transaction.type,
+    status: transaction.status,
+    payment_method: transaction.paymentMethod || null,
+    external_id: transaction.externalId || null,
+    import_batch_id: transaction.importBatchId || null,
+    recurring_id: transaction.recurringId || null,
+    installment_group_id: transaction.installmentGroupId || null,
+    installment_number: transaction.installmentNumber || null,
+    installment_total: transaction.installmentTotal || null,
+    transfer_id: transaction.transferId || null,
+    counterpart_account_id: transaction.counterpartAccountId || null,
+    nfe_access_key: transaction.nfeAccessKey || null,
+    barcode: transaction.barcode || null,
+    pix_key: transaction.pixKey || null,
+    pix_txid: transaction.pixTxid || null,
+    is_imported: transaction.isImported,
+    is_reconciled: transaction.isReconciled,
+  };
+}
+
+// Map split rows to frontend TransactionSplit lines, in their saved order
+export function mapDbToSplits(
+  rows: Tables<'transaction_splits'>[] | undefined,
+  getCategoryName: (categoryId: string | null) => string | null
+): TransactionSplit[] | undefined {
+  if (!rows || rows.length === 0) return undefined;
+  return [...rows]
+    .sort((a, b) => a.position - b.position)
+    .map(row => ({
+      category: getCategoryName(row.category_id),
+      value: Number(row.value),
+      memo: row.memo || undefined,
+    }));
+}
+
+// Map database row to frontend TransactionAttachment type
+function mapDbToAttachment(row: Tables<'transaction_attachments'>): TransactionAttachment {
+  return {
+    id: row.id,
+    transactionId: row.transaction_id,
+    storagePath: row.storage_path,
+    fileName: row.file_name,
+    mimeType: row.mime_type,
+    sizeBytes: Number(row.size_bytes),
+    createdAt: row.created_at,
+  };
+}
+
 // Map database row to frontend Category type
-function mapDbToCategory(row: any): Category {
+export function mapDbToCategory(row: any): Category {
   return {
     id: row.id,
     name: row.name,
     type: row.type as TransactionType,
     color: row.color || '#6366F1',
+    parentId: row.parent_id ?? null,
+    ledgerCode: row.ledger_code ?? null,
+  };
+}
+
+// Map database row to frontend ImportBatch type
+function mapDbToImportBatch(row: Tables<'import_batches'>): ImportBatch {
+  return {
+    id: row.id,
+    fileName: row.file_name,
+    format: row.format as ImportFormat,
+    rowCount: row.row_count,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    createdAt: row.created_at,
   };
 }
 
@@ -36,27 +144,53 @@ export function useTransactions() {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [categoryMap, setCategoryMap] = useState<Map<string, Category>>(new Map()); // id -> Category
+  const [importBatches, setImportBatches] = useState<ImportBatch[]>([]);
+  const [lockedPeriods, setLockedPeriods] = useState<LockedPeriod[]>([]);
   const [isLoaded, setIsLoaded] = useState(false);
 
-  // Fetch transactions for selected account
-  const fetchTransactions = useCallback(async () => {
+  // Fetch import history for selected account
+  const fetchImportBatches = useCallback(async () => {
     if (!selectedAccount) {
-      setTransactions([]);
+      setImportBatches([]);
       return;
     }
 
     const { data, error } = await supabase
-      .from('transactions')
+      .from('import_batches')
       .select('*')
       .eq('account_id', selectedAccount.id)
-      .order('date', { ascending: false });
+      .order('created_at', { ascending: false });
 
     if (error) {
-      console.error('Error fetching transactions:', error);
+      console.error('Error fetching import batches:', error);
       return;
     }
 
-    setTransactions((data || []).map(mapDbToTransaction));
+    setImportBatches((data || []).map(mapDbToImportBatch));
+  }, [selectedAccount?.id]);
+
+  // Periods of closed reconciliation sessions; their transactions can't change
+  // Returns the fresh list, or null when it couldn't be read
+  const fetchLockedPeriods = useCallback(async (): Promise<LockedPeriod[] | null> => {
+    if (!selectedAccount) {
+      setLockedPeriods([]);
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('reconciliation_sessions')
+      .select('period_start, period_end')
+      .eq('account_id', selectedAccount.id)
+      .eq('status', 'closed');
+
+    if (error) {
+      console.error('Error fetching locked periods:', error);
+      return null;
+    }
+
+    const periods = (data || []).map(row => ({ start: row.period_start, end: row.period_end }));
+    setLockedPeriods(periods);
+    return periods;
   }, [selectedAccount?.id]);
 
   // Fetch categories for selected account
@@ -154,6 +288,22 @@ export function useTransactions() {
     }
   }, [selectedAccount?.id, fetchCategories]);
 
+  useEffect(() => {
+    fetchImportBatches();
+  }, [fetchImportBatches]);
+
+  useEffect(() => {
+    fetchLockedPeriods();
+  }, [fetchLockedPeriods]);
+
+  const isPeriodLocked = useCallback((date: string) => isDateLocked(lockedPeriods, date), [lockedPeriods]);
+
+  // Closed periods are enforced in the database; checking a fresh list first gives the caller a clear failure
+  const hasLockedDate = async (dates: (string | undefined)[]) => {
+    const periods = (await fetchLockedPeriods()) ?? lockedPeriods;
+    return dates.some(date => !!date && isDateLocked(periods, date));
+  };
+
   // Fetch transactions after categories are loaded
   useEffect(() => {
     const loadTransactions = async () => {
@@ -174,7 +324,7 @@ export function useTransactions() {
 
     const { data, error } = await supabase
       .from('transactions')
-      .select('*')
+      .select('*, transaction_splits(*), transaction_attachments(*)')
       .eq('account_id', selectedAccount.id)
       .order('date', { ascending: false });
 
@@ -185,18 +335,10 @@ export function useTransactions() {
 
     // Map transactions and convert category_id to category name
     const mappedTransactions = (data || []).map(row => ({
-      id: row.id,
-      date: row.date,
-      dueDate: row.due_date || undefined,
-      description: row.description,
+      ...mapDbToTransaction(row),
       category: getCategoryName(row.category_id),
-      value: Number(row.value),
-      type: row.type as TransactionType,
-      status: row.status as TransactionStatus,
-      paymentMethod: row.payment_method as PaymentMethod | null,
-      isImported: row.is_imported || false,
-      isReconciled: row.is_reconciled || false,
-      createdAt: row.created_at,
+      splits: mapDbToSplits(row.transaction_splits, getCategoryName),
+      attachments: row.transaction_attachments.map(mapDbToAttachment),
     }));
 
     setTransactions(mappedTransactions);
@@ -229,6 +371,7 @@ export function useTransactions() {
         name: category.name,
         type: category.type,
         color: category.color,
+        parent_id: category.parentId ?? null,
       })
       .select()
       .single();
@@ -249,6 +392,8 @@ export function useTransactions() {
     if (updates.name !== undefined) dbUpdates.name = updates.name;
     if (updates.type !== undefined) dbUpdates.type = updates.type;
     if (updates.color !== undefined) dbUpdates.color = updates.color;
+    if (updates.parentId !== undefined) dbUpdates.parent_id = updates.parentId;
+    if (updates.ledgerCode !== undefined) dbUpdates.ledger_code = updates.ledgerCode;
 
     const { error } = await supabase
       .from('categories')
@@ -274,12 +419,37 @@ export function useTransactions() {
     return true;
   };
 
-  const deleteCategory = async (id: string) => {
-    // First, update all transactions using this category to have null category
+  // Subcategories either move up to the deleted category's parent or are
+  // deleted with it, leaving their transactions uncategorized
+  const deleteCategory = async (id: string, childStrategy: CategoryChildStrategy = 'reparent') => {
+    const category = categories.find(c => c.id === id);
+    const descendantIds = getDescendantIds(categories, id);
+    const directChildIds = categories.filter(c => c.parentId === id).map(c => c.id);
+    const removedIds = childStrategy === 'uncategorize' ? [id, ...descendantIds] : [id];
+
+    // Rows of a closed period would lose their category; the database refuses that as well
+    const removedNames = new Set(categories.filter(c => removedIds.includes(c.id)).map(c => c.name));
+    const usesRemoved = (name: string | null) => !!name && removedNames.has(name);
+    const affected = transactions.filter(t => usesRemoved(t.category) || t.splits?.some(s => usesRemoved(s.category)));
+    if (await hasLockedDate(affected.map(t => t.date))) return false;
+
+    if (childStrategy === 'reparent' && directChildIds.length > 0) {
+      const { error: reparentError } = await supabase
+        .from('categories')
+        .update({ parent_id: category?.parentId ?? null })
+        .in('id', directChildIds);
+
+      if (reparentError) {
+        console.error('Error moving subcategories:', reparentError);
+        return false;
+      }
+    }
+
+    // First, update all transactions using these categories to have null category
     const { error: updateError } = await supabase
       .from('transactions')
       .update({ category_id: null })
-      .eq('category_id', id);
+      .in('category_id', removedIds);
 
     if (updateError) {
       console.error('Error updating transactions:', updateError);
@@ -289,25 +459,33 @@ export function useTransactions() {
     const { error } = await supabase
       .from('categories')
       .delete()
-      .eq('id', id);
+      .in('id', removedIds);
 
     if (error) {
       console.error('Error deleting category:', error);
       return false;
     }
 
-    setCategories(prev => prev.filter(c => c.id !== id));
+    const reparent = (c: Category) =>
+      childStrategy === 'reparent' && c.parentId === id ? { ...c, parentId: category?.parentId ?? null } : c;
+
+    setCategories(prev => prev.filter(c => !removedIds.includes(c.id)).map(reparent));
     setCategoryMap(prev => {
-      const newMap = new Map(prev);
-      newMap.delete(id);
+      const newMap = new Map<string, Category>();
+      prev.forEach((c, key) => {
+        if (!removedIds.includes(key)) newMap.set(key, reparent(c));
+      });
       return newMap;
     });
 
-    // Update transactions in state that used this category
-    const categoryName = categories.find(c => c.id === id)?.name;
-    if (categoryName) {
+    // Update transactions in state that used these categories
+    if (removedNames.size > 0) {
       setTransactions(prev =>
-        prev.map(t => (t.category === categoryName ? { ...t, category: null } : t))
+        prev.map(t => {
+          const uncategorize = <T extends { category: string | null }>(item: T): T =>
+            usesRemoved(item.category) ? { ...item, category: null } : item;
+          return isSplit(t) ? { ...uncategorize(t), splits: t.splits!.map(uncategorize) } : uncategorize(t);
+        })
       );
     }
 
@@ -319,19 +497,7 @@ export function useTransactions() {
 
     const { data, error } = await supabase
       .from('transactions')
-      .insert({
-        account_id: selectedAccount.id,
-        date: transaction.date,
-        due_date: transaction.dueDate || null,
-        description: transaction.description,
-        category_id: getCategoryId(transaction.category),
-        value: transaction.value,
-        type: transaction.type,
-        status: transaction.status,
-        payment_method: transaction.paymentMethod || null,
-        is_imported: transaction.isImported,
-        is_reconciled: transaction.isReconciled,
-      })
+      .insert(mapTransactionToDb(transaction, selectedAccount.id, getCategoryId(transaction.category)))
       .select()
       .single();
 
@@ -349,13 +515,57 @@ export function useTransactions() {
     return newTransaction;
   };
 
+  // Bulk insert, used for generated entries (recurring occurrences)
+  const addTransactions = async (newTransactions: Omit<Transaction, 'id' | 'createdAt'>[]) => {
+    if (!selectedAccount || newTransactions.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('transactions')
+      .insert(newTransactions.map(t =>
+        mapTransactionToDb(t, selectedAccount.id, getCategoryId(t.category))
+      ))
+      .select();
+
+    if (error) {
+      console.error('Error adding transactions:', error);
+      return [];
+    }
+
+    const added: Transaction[] = (data || []).map((row, index) => ({
+      ...newTransactions[index],
+      id: row.id,
+      createdAt: row.created_at,
+    }));
+    setTransactions(prev => [...added, ...prev]);
+    return added;
+  };
+
   const updateTransaction = async (id: string, updates: Partial<Transaction>) => {
+    const current = transactions.find(t => t.id === id);
+    if (await hasLockedDate([current?.date, updates.date])) return false;
+
+    // Split lines must keep summing to the total, so a new value needs new lines
+    if (
+      current && isSplit(current) && updates.splits === undefined &&
+      updates.value !== undefined && updates.value !== current.value
+    ) {
+      console.error('Error updating transaction: split lines no longer match the value');
+      return false;
+    }
+
+    const applied: Partial<Transaction> = { ...updates };
+    if (updates.splits !== undefined) {
+      if (updates.splits.length > 0) applied.category = getPrimarySplitCategory(updates.splits);
+      applied.splits = updates.splits.length > 0 ? updates.splits : undefined;
+    }
+
     const dbUpdates: any = {};
     
     if (updates.date !== undefined) dbUpdates.date = updates.date;
     if (updates.dueDate !== undefined) dbUpdates.due_date = updates.dueDate || null;
+    if (updates.competenceDate !== undefined) dbUpdates.competence_date = updates.competenceDate || null;
     if (updates.description !== undefined) dbUpdates.description = updates.description;
-    if (updates.category !== undefined) dbUpdates.category_id = getCategoryId(updates.category);
+    if (applied.category !== undefined) dbUpdates.category_id = getCategoryId(applied.category);
     if (updates.value !== undefined) dbUpdates.value = updates.value;
     if (updates.type !== undefined) dbUpdates.type = updates.type;
     if (updates.status !== undefined) dbUpdates.status = updates.status;
@@ -363,51 +573,320 @@ export function useTransactions() {
     if (updates.isImported !== undefined) dbUpdates.is_imported = updates.isImported;
     if (updates.isReconciled !== undefined) dbUpdates.is_reconciled = updates.isReconciled;
 
+    // Lines are replaced together with the row, so they're checked against the new value
+    if (updates.splits !== undefined) {
+      const { error: splitsError } = await supabase.rpc('set_transaction_splits', {
+        target_transaction_id: id,
+        splits: updates.splits.map(s => ({
+          category_id: getCategoryId(s.category),
+          value: s.value,
+          memo: s.memo || null,
+        })),
+        changes: dbUpdates,
+      });
+
+      if (splitsError) {
+        console.error('Error updating transaction splits:', splitsError);
+        return false;
+      }
+    } else {
+      const { data: updated, error } = await supabase
+        .from('transactions')
+        .update(dbUpdates)
+        .eq('id', id)
+        .select('id');
+
+      if (error) {
+        console.error('Error updating transaction:', error);
+        return false;
+      }
+
+      // RLS skips the rows it hides instead of failing, so no row back means nothing was saved
+      if (!updated?.length) {
+        console.error('Error updating transaction: no row was updated');
+        return false;
+      }
+    }
+
+    // The other leg of a transfer gets the same date, value and status from a database trigger
+    setTransactions(prev =>
+      prev.map(t => (t.id === id ? { ...t, ...applied } : t))
+    );
+    return true;
+  };
+
+  // Attachment rows cascade with their transactions, but the stored files don't
+  const removeAttachmentFiles = async (removed: Transaction[], extraPaths: string[] = []) => {
+    const paths = [...removed.flatMap(t => (t.attachments || []).map(a => a.storagePath)), ...extraPaths];
+    if (paths.length === 0) return;
+
+    const { error } = await supabase.storage.from(RECEIPTS_BUCKET).remove(paths);
+    if (error) {
+      console.error('Error removing attachment files:', error);
+    }
+  };
+
+  const deleteTransaction = async (id: string) => {
+    const current = transactions.find(t => t.id === id);
+    if (await hasLockedDate([current?.date])) return false;
+
+    // Deleting either leg of a transfer removes both; the database refuses if either is locked
+    const transferId = current?.transferId;
+
+    // The other leg belongs to another account, so its files aren't loaded here
+    let otherLegPaths: string[] = [];
+    if (transferId) {
+      const { data: legAttachments, error: attachmentsError } = await supabase
+        .from('transaction_attachments')
+        .select('storage_path, transactions!inner(transfer_id)')
+        .eq('transactions.transfer_id', transferId)
+        .neq('transaction_id', id);
+
+      if (attachmentsError) {
+        console.error('Error fetching transfer attachments:', attachmentsError);
+        return false;
+      }
+      otherLegPaths = (legAttachments || []).map(a => a.storage_path);
+    }
+
+    const query = supabase.from('transactions').delete();
+    const { data: deleted, error } = transferId
+      ? await query.eq('transfer_id', transferId).select('id')
+      : await query.eq('id', id).select('id');
+
+    if (error) {
+      console.error('Error deleting transaction:', error);
+      return false;
+    }
+
+    if (!deleted?.length) {
+      console.error('Error deleting transaction: no row was deleted');
+      return false;
+    }
+
+    await removeAttachmentFiles(current ? [current] : [], otherLegPaths);
+    setTransactions(prev => prev.filter(t => t.id !== id));
+    return true;
+  };
+
+  // Uploads each file and records it; returns the attachments that were saved
+  const addAttachments = async (transactionId: string, files: File[]) => {
+    if (!selectedAccount || files.length === 0) return [];
+
+    const added: TransactionAttachment[] = [];
+    for (const file of files) {
+      const path = buildAttachmentPath(selectedAccount.id, transactionId, file.name);
+      const { error: uploadError } = await supabase.storage
+        .from(RECEIPTS_BUCKET)
+        .upload(path, file, { contentType: file.type });
+
+      if (uploadError) {
+        console.error('Error uploading attachment:', uploadError);
+        continue;
+      }
+
+      const { data, error } = await supabase
+        .from('transaction_attachments')
+        .insert({
+          transaction_id: transactionId,
+          storage_path: path,
+          file_name: file.name,
+          mime_type: file.type || null,
+          size_bytes: file.size,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving attachment:', error);
+        await supabase.storage.from(RECEIPTS_BUCKET).remove([path]);
+        continue;
+      }
+
+      added.push(mapDbToAttachment(data));
+    }
+
+    if (added.length > 0) {
+      setTransactions(prev =>
+        prev.map(t => (t.id === transactionId ? { ...t, attachments: [...(t.attachments || []), ...added] } : t))
+      );
+    }
+    return added;
+  };
+
+  const deleteAttachment = async (attachment: TransactionAttachment) => {
     const { error } = await supabase
+      .from('transaction_attachments')
+      .delete()
+      .eq('id', attachment.id);
+
+    if (error) {
+      console.error('Error deleting attachment:', error);
+      return false;
+    }
+
+    const { error: removeError } = await supabase.storage.from(RECEIPTS_BUCKET).remove([attachment.storagePath]);
+    if (removeError) {
+      console.error('Error removing attachment file:', removeError);
+    }
+
+    setTransactions(prev =>
+      prev.map(t =>
+        t.id === attachment.transactionId
+          ? { ...t, attachments: (t.attachments || []).filter(a => a.id !== attachment.id) }
+          : t
+      )
+    );
+    return true;
+  };
+
+  // The bucket is private, so previews use short-lived signed URLs. Stable
+  // across renders, since the preview requests a new URL whenever it changes
+  const getAttachmentUrl = useCallback(async (attachment: TransactionAttachment) => {
+    const { data, error } = await supabase.storage
+      .from(RECEIPTS_BUCKET)
+      .createSignedUrl(attachment.storagePath, 60 * 10);
+
+    if (error) {
+      console.error('Error creating attachment URL:', error);
+      return null;
+    }
+    return data.signedUrl;
+  }, []);
+
+  // Creates both legs atomically: an expense here and an income in the destination account
+  const createTransfer = async (transfer: {
+    toAccountId: string;
+    date: string;
+    value: number;
+    fromDescription: string;
+    toDescription: string;
+  }) => {
+    if (!selectedAccount) return false;
+
+    const { error } = await supabase.rpc('create_transfer', {
+      from_account_id: selectedAccount.id,
+      to_account_id: transfer.toAccountId,
+      transfer_date: transfer.date,
+      transfer_value: transfer.value,
+      from_description: transfer.fromDescription,
+      to_description: transfer.toDescription,
+    });
+
+    if (error) {
+      console.error('Error creating transfer:', error);
+      return false;
+    }
+
+    await fetchTransactionsWithCategories();
+    return true;
+  };
+
+  // Applies changes to the installments of a group that are still pending
+  const updateInstallmentGroup = async (
+    groupId: string,
+    updates: Pick<Partial<Transaction>, 'description' | 'category' | 'value'>
+  ) => {
+    const dbUpdates: TablesUpdate<'transactions'> = {};
+    if (updates.description !== undefined) dbUpdates.description = updates.description;
+    if (updates.category !== undefined) dbUpdates.category_id = getCategoryId(updates.category);
+    if (updates.value !== undefined) dbUpdates.value = updates.value;
+
+    const pending = transactions.filter(t => t.installmentGroupId === groupId && t.status === 'pending');
+    if (await hasLockedDate(pending.map(t => t.date))) return false;
+
+    const { data: updated, error } = await supabase
       .from('transactions')
       .update(dbUpdates)
-      .eq('id', id);
+      .eq('installment_group_id', groupId)
+      .eq('status', 'pending')
+      .select('id');
 
     if (error) {
-      console.error('Error updating transaction:', error);
-      return;
+      console.error('Error updating installments:', error);
+      return false;
+    }
+
+    // Fewer rows than expected means RLS hid some of them; reload what was actually saved
+    if ((updated?.length ?? 0) < pending.length) {
+      console.error('Error updating installments: some installments were not updated');
+      await fetchTransactionsWithCategories();
+      return false;
     }
 
     setTransactions(prev =>
-      prev.map(t => (t.id === id ? { ...t, ...updates } : t))
+      prev.map(t =>
+        t.installmentGroupId === groupId && t.status === 'pending' ? { ...t, ...updates } : t
+      )
     );
+    return true;
   };
 
-  const deleteTransaction = async (id: string) => {
-    const { error } = await supabase
+  // Removes the pending installments of a group; paid ones are kept
+  const cancelInstallments = async (groupId: string) => {
+    const pending = transactions.filter(t => t.installmentGroupId === groupId && t.status === 'pending');
+    if (await hasLockedDate(pending.map(t => t.date))) return false;
+
+    const { data: deleted, error } = await supabase
       .from('transactions')
       .delete()
-      .eq('id', id);
+      .eq('installment_group_id', groupId)
+      .eq('status', 'pending')
+      .select('id');
 
     if (error) {
-      console.error('Error deleting transaction:', error);
-      return;
+      console.error('Error cancelling installments:', error);
+      return false;
     }
 
-    setTransactions(prev => prev.filter(t => t.id !== id));
+    const deletedIds = new Set((deleted || []).map(row => row.id));
+    await removeAttachmentFiles(pending.filter(t => deletedIds.has(t.id)));
+    if (deletedIds.size < pending.length) {
+      console.error('Error cancelling installments: some installments were not removed');
+      await fetchTransactionsWithCategories();
+      return false;
+    }
+
+    setTransactions(prev =>
+      prev.filter(t => !(t.installmentGroupId === groupId && t.status === 'pending'))
+    );
+    return true;
   };
 
-  const importTransactions = async (newTransactions: Omit<Transaction, 'id' | 'createdAt'>[]) => {
-    if (!selectedAccount) return 0;
+  const importTransactions = async (
+    newTransactions: Omit<Transaction, 'id' | 'createdAt'>[],
+    source?: { fileName: string; format: ImportFormat }
+  ) => {
+    if (!selectedAccount || newTransactions.length === 0) return 0;
+
+    // Record the batch first so every imported row can point to it
+    let batch: ImportBatch | null = null;
+    if (source) {
+      const dates = newTransactions.map(t => t.date).sort();
+      const { data: batchRow, error: batchError } = await supabase
+        .from('import_batches')
+        .insert({
+          account_id: selectedAccount.id,
+          file_name: source.fileName,
+          format: source.format,
+          row_count: newTransactions.length,
+          start_date: dates[0],
+          end_date: dates[dates.length - 1],
+        })
+        .select()
+        .single();
+
+      if (batchError) {
+        console.error('Error creating import batch:', batchError);
+        return 0;
+      }
+      batch = mapDbToImportBatch(batchRow);
+    }
 
-    const toInsert = newTransactions.map(t => ({
-      account_id: selectedAccount.id,
-      date: t.date,
-      due_date: t.dueDate || null,
-      description: t.description,
-      category_id: getCategoryId(t.category),
-      value: t.value,
-      type: t.type,
-      status: t.status,
-      payment_method: t.paymentMethod || null,
-      is_imported: t.isImported,
-      is_reconciled: t.isReconciled,
-    }));
+    const rows = newTransactions.map(t => ({ ...t, importBatchId: batch?.id }));
+    const toInsert = rows.map(t =>
+      mapTransactionToDb(t, selectedAccount.id, getCategoryId(t.category))
+    );
 
     const { data, error } = await supabase
       .from('transactions')
@@ -416,20 +895,47 @@ export function useTransactions() {
 
     if (error) {
       console.error('Error importing transactions:', error);
+      // Don't leave an empty batch in the history
+      if (batch) {
+        await supabase.from('import_batches').delete().eq('id', batch.id);
+      }
       return 0;
     }
 
     const imported = (data || []).map((row, index) => ({
-      ...newTransactions[index],
+      ...rows[index],
       id: row.id,
       createdAt: row.created_at,
     }));
     setTransactions(prev => [...imported, ...prev]);
+    if (batch) setImportBatches(prev => [batch, ...prev]);
     return imported.length;
   };
 
+  // Deleting the batch cascades to its transactions in a single statement
+  const deleteImportBatch = async (id: string) => {
+    // Rolling back would delete rows of a closed period
+    const batchTransactions = transactions.filter(t => t.importBatchId === id);
+    if (await hasLockedDate(batchTransactions.map(t => t.date))) return false;
+
+    const { error } = await supabase
+      .from('import_batches')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting import batch:', error);
+      return false;
+    }
+
+    await removeAttachmentFiles(batchTransactions);
+    setImportBatches(prev => prev.filter(b => b.id !== id));
+    setTransactions(prev => prev.filter(t => t.importBatchId !== id));
+    return true;
+  };
+
   const uncategorizedCount = useMemo(
-    () => transactions.filter(t => !t.category).length,
+    () => excludeTransfers(transactions).filter(t => !t.category && !isSplit(t)).length,
     [transactions]
   );
 
@@ -443,7 +949,8 @@ export function useTransactions() {
       return date.getMonth() === currentMonth && date.getFullYear() === currentYear;
     });
 
-    const completedMonthly = monthlyTransactions.filter(t => t.status === 'completed');
+    // Transfers only move money between accounts
+    const completedMonthly = excludeTransfers(monthlyTransactions).filter(t => t.status === 'completed');
 
     const totalIncome = completedMonthly
       .filter(t => t.type === 'income')
@@ -453,6 +960,7 @@ export function useTransactions() {
       .filter(t => t.type === 'expense')
       .reduce((sum, t) => sum + t.value, 0);
 
+    // Balances still include transfer legs
     const allCompleted = transactions.filter(t => t.status === 'completed');
 
     const allTimeIncome = allCompleted
@@ -493,13 +1001,24 @@ export function useTransactions() {
     updateCategory,
     deleteCategory,
     addTransaction,
+    addTransactions,
     updateTransaction,
     deleteTransaction,
+    createTransfer,
+    addAttachments,
+    deleteAttachment,
+    getAttachmentUrl,
+    updateInstallmentGroup,
+    cancelInstallments,
     importTransactions,
+    importBatches,
+    deleteImportBatch,
     updateInitialBalance,
     stats,
     uncategorizedCount,
+    isPeriodLocked,
+    refreshLockedPeriods: fetchLockedPeriods,
     isLoaded,
-    refreshTransactions: fetchTransactions,
+    refreshTransactions: fetchTransactionsWithCategories,
   };
 }
@@ -17,43 +17,102 @@ export type Database = {
       accounts: {
         Row: {
           bank_name: string
+          cnpj: string | null
           company_name: string
           created_at: string
           id: string
           initial_balance: number
+          ledger_code: string | null
           name: string
+          pix_city: string | null
+          pix_key: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
           bank_name: string
+          cnpj?: string | null
           company_name: string
           created_at?: string
           id?: string
           initial_balance?: number
+          ledger_code?: string | null
           name: string
+          pix_city?: string | null
+          pix_key?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
           bank_name?: string
+          cnpj?: string | null
           company_name?: string
           created_at?: string
           id?: string
           initial_balance?: number
+          ledger_code?: string | null
           name?: string
+          pix_city?: string | null
+          pix_key?: string | null
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      budgets: {
+        Row: {
+          account_id: string
+          amount: number
+          category_id: string
+          created_at: string
+          id: string
+          month: string
+          updated_at: string
+        }
+        Insert: {
+          account_id: string
+          amount: number
+          category_id: string
+          created_at?: string
+          id?: string
+          month: string
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string
+          amount?: number
+          category_id?: string
+          created_at?: string
+          id?: string
+          month?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budgets_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "budgets_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       categories: {
         Row: {
           account_id: string
           color: string | null
           created_at: string
           id: string
+          ledger_code: string | null
           name: string
+          parent_id: string | null
           type: string
         }
         Insert: {
@@ -61,7 +120,9 @@ export type Database = {
           color?: string | null
           created_at?: string
           id?: string
+          ledger_code?: string | null
           name: string
+          parent_id?: string | null
           type: string
         }
         Update: {
@@ -69,7 +130,9 @@ export type Database = {
           color?: string | null
           created_at?: string
           id?: string
+          ledger_code?: string | null
           name?: string
+          parent_id?: string | null
           type?: string
         }
         Relationships: [
@@ -80,6 +143,206 @@ export type Database = {
             referencedRelation: "accounts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categorization_rules: {
+        Row: {
+          account_id: string
+          created_at: string
+          description_operator: string | null
+          description_pattern: string | null
+          id: string
+          is_active: boolean
+          match_type: string | null
+          max_value: number | null
+          min_value: number | null
+          name: string
+          priority: number
+          set_category_id: string | null
+          set_payment_method: string | null
+          set_type: string | null
+          updated_at: string
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          description_operator?: string | null
+          description_pattern?: string | null
+          id?: string
+          is_active?: boolean
+          match_type?: string | null
+          max_value?: number | null
+          min_value?: number | null
+          name: string
+          priority?: number
+          set_category_id?: string | null
+          set_payment_method?: string | null
+          set_type?: string | null
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          description_operator?: string | null
+          description_pattern?: string | null
+          id?: string
+          is_active?: boolean
+          match_type?: string | null
+          max_value?: number | null
+          min_value?: number | null
+          name?: string
+          priority?: number
+          set_category_id?: string | null
+          set_payment_method?: string | null
+          set_type?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categorization_rules_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "categorization_rules_set_category_id_fkey"
+            columns: ["set_category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dre_mappings: {
+        Row: {
+          account_id: string
+          category_id: string
+          created_at: string
+          id: string
+          line: string
+          updated_at: string
+        }
+        Insert: {
+          account_id: string
+          category_id: string
+          created_at?: string
+          id?: string
+          line: string
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string
+          category_id?: string
+          created_at?: string
+          id?: string
+          line?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dre_mappings_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dre_mappings_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_batches: {
+        Row: {
+          account_id: string
+          created_at: string
+          end_date: string | null
+          file_name: string
+          format: string
+          id: string
+          row_count: number
+          start_date: string | null
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          end_date?: string | null
+          file_name: string
+          format: string
+          id?: string
+          row_count?: number
+          start_date?: string | null
+          user_id?: string
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          end_date?: string | null
+          file_name?: string
+          format?: string
+          id?: string
+          row_count?: number
+          start_date?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_batches_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_profiles: {
+        Row: {
+          account_id: string
+          created_at: string
+          format: string
+          id: string
+          mapping: Json
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          format?: string
+          id?: string
+          mapping: Json
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          format?: string
+          id?: string
+          mapping?: Json
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_profiles_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -109,51 +372,325 @@ export type Database = {
         }
         Relationships: []
       }
+      reconciliation_session_transactions: {
+        Row: {
+          created_at: string
+          session_id: string
+          transaction_id: string
+        }
+        Insert: {
+          created_at?: string
+          session_id: string
+          transaction_id: string
+        }
+        Update: {
+          created_at?: string
+          session_id?: string
+          transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reconciliation_session_transactions_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "reconciliation_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reconciliation_session_transactions_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reconciliation_sessions: {
+        Row: {
+          account_id: string
+          bank_balance: number | null
+          closed_at: string | null
+          closed_by: string | null
+          created_at: string
+          id: string
+          period_end: string
+          period_start: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          account_id: string
+          bank_balance?: number | null
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          id?: string
+          period_end: string
+          period_start: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string
+          bank_balance?: number | null
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          id?: string
+          period_end?: string
+          period_start?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reconciliation_sessions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_transactions: {
+        Row: {
+          account_id: string
+          business_day_adjustment: string
+          category_id: string | null
+          created_at: string
+          description: string
+          end_date: string | null
+          frequency: string
+          id: string
+          interval_days: number | null
+          is_active: boolean
+          last_generated_date: string | null
+          payment_method: string | null
+          start_date: string
+          type: string
+          updated_at: string
+          value: number
+        }
+        Insert: {
+          account_id: string
+          business_day_adjustment?: string
+          category_id?: string | null
+          created_at?: string
+          description: string
+          end_date?: string | null
+          frequency: string
+          id?: string
+          interval_days?: number | null
+          is_active?: boolean
+          last_generated_date?: string | null
+          payment_method?: string | null
+          start_date: string
+          type: string
+          updated_at?: string
+          value: number
+        }
+        Update: {
+          account_id?: string
+          business_day_adjustment?: string
+          category_id?: string | null
+          created_at?: string
+          description?: string
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          interval_days?: number | null
+          is_active?: boolean
+          last_generated_date?: string | null
+          payment_method?: string | null
+          start_date?: string
+          type?: string
+          updated_at?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_transactions_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_attachments: {
+        Row: {
+          created_at: string
+          file_name: string
+          id: string
+          mime_type: string | null
+          size_bytes: number
+          storage_path: string
+          transaction_id: string
+        }
+        Insert: {
+          created_at?: string
+          file_name: string
+          id?: string
+          mime_type?: string | null
+          size_bytes?: number
+          storage_path: string
+          transaction_id: string
+        }
+        Update: {
+          created_at?: string
+          file_name?: string
+          id?: string
+          mime_type?: string | null
+          size_bytes?: number
+          storage_path?: string
+          transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_attachments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_splits: {
+        Row: {
+          category_id: string | null
+          created_at: string
+          id: string
+          memo: string | null
+          position: number
+          transaction_id: string
+          value: number
+        }
+        Insert: {
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          memo?: string | null
+          position?: number
+          transaction_id: string
+          value: number
+        }
+        Update: {
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          memo?: string | null
+          position?: number
+          transaction_id?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_splits_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_splits_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transactions: {
         Row: {
           account_id: string
+          barcode: string | null
           category_id: string | null
+          competence_date: string | null
+          counterpart_account_id: string | null
           created_at: string
           date: string
           description: string
           due_date: string | null
+          external_id: string | null
           id: string
+          import_batch_id: string | null
+          installment_group_id: string | null
+          installment_number: number | null
+          installment_total: number | null
           is_imported: boolean | null
           is_reconciled: boolean | null
+          nfe_access_key: string | null
           payment_method: string | null
+          pix_key: string | null
+          pix_txid: string | null
+          recurring_id: string | null
           status: string
+          transfer_id: string | null
           type: string
           updated_at: string
           value: number
         }
         Insert: {
           account_id: string
+          barcode?: string | null
           category_id?: string | null
+          competence_date?: string | null
+          counterpart_account_id?: string | null
           created_at?: string
           date: string
           description: string
           due_date?: string | null
+          external_id?: string | null
           id?: string
+          import_batch_id?: string | null
+          installment_group_id?: string | null
+          installment_number?: number | null
+          installment_total?: number | null
           is_imported?: boolean | null
           is_reconciled?: boolean | null
+          nfe_access_key?: string | null
           payment_method?: string | null
+          pix_key?: string | null
+          pix_txid?: string | null
+          recurring_id?: string | null
           status?: string
+          transfer_id?: string | null
           type: string
           updated_at?: string
           value: number
         }
         Update: {
           account_id?: string
+          barcode?: string | null
           category_id?: string | null
+          competence_date?: string | null
+          counterpart_account_id?: string | null
           created_at?: string
           date?: string
           description?: string
           due_date?: string | null
+          external_id?: string | null
           id?: string
+          import_batch_id?: string | null
+          installment_group_id?: string | null
+          installment_number?: number | null
+          installment_total?: number | null
           is_imported?: boolean | null
           is_reconciled?: boolean | null
+          nfe_access_key?: string | null
           payment_method?: string | null
+          pix_key?: string | null
+          pix_txid?: string | null
+          recurring_id?: string | null
           status?: string
+          transfer_id?: string | null
           type?: string
           updated_at?: string
           value?: number
@@ -173,6 +710,27 @@ export type Database = {
             referencedRelation: "categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_counterpart_account_id_fkey"
+            columns: ["counterpart_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_import_batch_id_fkey"
+            columns: ["import_batch_id"]
+            isOneToOne: false
+            referencedRelation: "import_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_recurring_id_fkey"
+            columns: ["recurring_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_transactions"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -180,7 +738,38 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      close_reconciliation_session: {
+        Args: {
+          session_id: string
+        }
+        Returns: undefined
+      }
+      create_transfer: {
+        Args: {
+          from_account_id: string
+          from_description: string
+          to_account_id: string
+          to_description: string
+          transfer_date: string
+          transfer_value: number
+        }
+        Returns: string
+      }
+      is_period_locked: {
+        Args: {
+          target_account_id: string
+          target_date: string
+        }
+        Returns: boolean
+      }
+      set_transaction_splits: {
+        Args: {
+          changes?: Json
+          splits: Json
+          target_transaction_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
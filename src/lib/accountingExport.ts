@@ -0,0 +1,186 @@
+import { endOfMonth, format, parseISO, startOfMonth } from 'date-fns';
+import { Category, Transaction, TransactionType } from '@/types/finance';
+import { getCategoryPath } from '@/lib/categoryTree';
+import { expandSplits } from '@/lib/splits';
+
+export type AccountingLayout = 'csv' | 'fixed';
+
+export const ACCOUNTING_LAYOUTS: { value: AccountingLayout; label: string; extension: string }[] = [
+  { value: 'csv', label: 'CSV (;)', extension: 'csv' },
+  { value: 'fixed', label: 'Texto posicional (largura fixa)', extension: 'txt' },
+];
+
+export interface AccountingEntry {
+  transactionId: string;
+  date: string;
+  debit: string;
+  credit: string;
+  value: number;
+  history: string;
+}
+
+export interface UnmappedCategory {
+  category: string;
+  type: TransactionType;
+  count: number;
+  total: number;
+}
+
+export interface AccountingValidation {
+  missingAccountCode: boolean;
+  unmappedCategories: UnmappedCategory[];
+  uncategorized: { count: number; total: number };
+  // Outgoing transfers whose destination account has no ledger code
+  unmappedTransfers: { count: number; total: number };
+}
+
+export interface AccountingExport {
+  entries: AccountingEntry[];
+  validation: AccountingValidation;
+}
+
+/**
+ * Ledger code of a category: its own, otherwise the closest parent's.
+ */
+export function resolveLedgerCode(
+  categoryName: string | null | undefined,
+  type: TransactionType,
+  categories: Category[]
+): string | null {
+  const category = categories.find(c => c.name === categoryName && c.type === type);
+  if (!category) return null;
+
+  const path = getCategoryPath(categories, category.id).reverse();
+  return path.find(c => c.ledgerCode?.trim())?.ledgerCode?.trim() || null;
+}
+
+export function hasValidationIssues(validation: AccountingValidation): boolean {
+  return (
+    validation.missingAccountCode ||
+    validation.unmappedCategories.length > 0 ||
+    validation.uncategorized.count > 0 ||
+    validation.unmappedTransfers.count > 0
+  );
+}
+
+/**
+ * Double-entry lines for the bank movements of the month. Expenses debit
+ * the category and credit the bank account; income does the opposite.
+ * Split transactions give one line per split, each with its own category.
+ * Transfers are exported once, from the outgoing leg, debiting the
+ * destination account. Anything without a ledger code is left out and
+ * reported in the validation.
+ */
+export function buildAccountingEntries(
+  transactions: Transaction[],
+  categories: Category[],
+  accountCode: string | null | undefined,
+  month: Date,
+  accountCodes: Record<string, string | null | undefined> = {}
+): AccountingExport {
+  const start = format(startOfMonth(month), 'yyyy-MM-dd');
+  const end = format(endOfMonth(month), 'yyyy-MM-dd');
+  const bankCode = accountCode?.trim() || '';
+
+  const entries: AccountingEntry[] = [];
+  const unmapped = new Map<string, UnmappedCategory>();
+  const uncategorized = { count: 0, total: 0 };
+  const unmappedTransfers = { count: 0, total: 0 };
+
+  const inPeriod = expandSplits(transactions)
+    .filter(t => t.status === 'completed' && t.date >= start && t.date <= end)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  inPeriod.forEach(t => {
+    let counterpart: string | null = null;
+
+    if (t.transferId) {
+      // The incoming leg is exported from the origin account
+      if (t.type === 'income') return;
+      counterpart = (t.counterpartAccountId && accountCodes[t.counterpartAccountId]?.trim()) || null;
+      if (!counterpart) {
+        unmappedTransfers.count++;
+        unmappedTransfers.total += t.value;
+        return;
+      }
+    } else if (!t.category) {
+      uncategorized.count++;
+      uncategorized.total += t.value;
+      return;
+    } else {
+      counterpart = resolveLedgerCode(t.category, t.type, categories);
+      if (!counterpart) {
+        const key = `${t.type}:${t.category}`;
+        const item = unmapped.get(key) || { category: t.category, type: t.type, count: 0, total: 0 };
+        item.count++;
+        item.total += t.value;
+        unmapped.set(key, item);
+        return;
+      }
+    }
+
+    if (!bankCode) return;
+
+    entries.push({
+      transactionId: t.id,
+      date: t.date,
+      debit: t.type === 'expense' ? counterpart : bankCode,
+      credit: t.type === 'expense' ? bankCode : counterpart,
+      value: t.value,
+      history: t.description,
+    });
+  });
+
+  return {
+    entries,
+    validation: {
+      missingAccountCode: !bankCode,
+      unmappedCategories: Array.from(unmapped.values()).sort((a, b) => b.total - a.total),
+      uncategorized,
+      unmappedTransfers,
+    },
+  };
+}
+
+// Line breaks and the delimiter would break the layout, so they become spaces
+const cleanHistory = (history: string) => history.replace(/[\r\n;]+/g, ' ').replace(/ {2,}/g, ' ').trim();
+
+/**
+ * Data;Conta Débito;Conta Crédito;Valor;Histórico, with dd/MM/yyyy dates
+ * and comma decimals.
+ */
+export function formatAccountingCsv(entries: AccountingEntry[]): string {
+  const header = ['Data', 'Conta Débito', 'Conta Crédito', 'Valor', 'Histórico'];
+  const rows = entries.map(e => [
+    format(parseISO(e.date), 'dd/MM/yyyy'),
+    e.debit,
+    e.credit,
+    e.value.toFixed(2).replace('.', ','),
+    cleanHistory(e.history),
+  ]);
+  return [header, ...rows].map(row => row.join(';')).join('\r\n');
+}
+
+// Positional layout: field widths in characters
+const FIXED_WIDTH = { account: 20, value: 15, history: 200 };
+
+/**
+ * One 263-character line per entry: date (DDMMAAAA), debit and credit
+ * accounts (left-aligned, space-padded), value in cents (zero-padded) and
+ * history (space-padded).
+ */
+export function formatAccountingFixedWidth(entries: AccountingEntry[]): string {
+  const text = (value: string, width: number) => value.slice(0, width).padEnd(width, ' ');
+
+  return entries
+    .map(e =>
+      [
+        format(parseISO(e.date), 'ddMMyyyy'),
+        text(e.debit, FIXED_WIDTH.account),
+        text(e.credit, FIXED_WIDTH.account),
+        String(Math.round(e.value * 100)).padStart(FIXED_WIDTH.value, '0'),
+        text(cleanHistory(e.history), FIXED_WIDTH.history),
+      ].join('')
+    )
+    .join('\r\n');
+}
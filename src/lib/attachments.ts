@@ -0,0 +1,48 @@
+import { Transaction, TransactionAttachment } from '@/types/finance';
+import { isTransfer } from '@/lib/transfers';
+
+export const RECEIPTS_BUCKET = 'receipts';
+
+// Mirrors the limits set on the storage bucket
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const ACCEPTED_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'];
+
+export function isAcceptedAttachment(file: Pick<File, 'type' | 'size'>): boolean {
+  return ACCEPTED_ATTACHMENT_TYPES.includes(file.type) && file.size <= MAX_ATTACHMENT_SIZE;
+}
+
+// The first folder must be the account id; storage policies check ownership through it
+export function buildAttachmentPath(accountId: string, transactionId: string, fileName: string): string {
+  const safeName = fileName
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\w.-]+/g, '_');
+  return `${accountId}/${transactionId}/${crypto.randomUUID()}-${safeName}`;
+}
+
+export function isImageAttachment(attachment: Pick<TransactionAttachment, 'mimeType'>): boolean {
+  return !!attachment.mimeType?.startsWith('image/');
+}
+
+export function isPdfAttachment(attachment: Pick<TransactionAttachment, 'mimeType'>): boolean {
+  return attachment.mimeType === 'application/pdf';
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace('.', ',')} MB`;
+}
+
+// Expenses above the threshold are expected to carry a comprovante or nota fiscal
+export function isMissingReceipt(
+  transaction: Pick<Transaction, 'type' | 'value' | 'transferId' | 'attachments'>,
+  minValue: number
+): boolean {
+  return (
+    transaction.type === 'expense' &&
+    !isTransfer(transaction) &&
+    transaction.value > minValue &&
+    (transaction.attachments?.length ?? 0) === 0
+  );
+}
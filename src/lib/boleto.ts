@@ -0,0 +1,223 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { onlyDigits } from '@/lib/cnpj';
+
+export type BoletoKind = 'bank' | 'collection';
+
+export interface ParsedBoleto {
+  kind: BoletoKind;
+  barcode: string; // 44 digits, the form stored on the transaction
+  value: number | null; // null when the boleto doesn't fix the amount
+  dueDate: string | null; // Collection slips (concessionárias) carry no standard due date
+  bankCode: string | null;
+  issuer: string; // Bank name, or the collection segment
+}
+
+export type BoletoResult = { boleto: ParsedBoleto; error?: undefined } | { boleto?: undefined; error: string };
+
+const BANK_NAMES: Record<string, string> = {
+  '001': 'Banco do Brasil',
+  '004': 'Banco do Nordeste',
+  '021': 'Banestes',
+  '033': 'Santander',
+  '037': 'Banpará',
+  '041': 'Banrisul',
+  '047': 'Banese',
+  '070': 'BRB',
+  '077': 'Banco Inter',
+  '085': 'Ailos',
+  '104': 'Caixa Econômica Federal',
+  '136': 'Unicred',
+  '208': 'BTG Pactual',
+  '212': 'Banco Original',
+  '237': 'Bradesco',
+  '260': 'Nubank',
+  '336': 'C6 Bank',
+  '341': 'Itaú',
+  '389': 'Banco Mercantil',
+  '422': 'Safra',
+  '623': 'Banco Pan',
+  '655': 'Banco Votorantim',
+  '748': 'Sicredi',
+  '756': 'Sicoob',
+};
+
+// Second digit of a collection barcode
+const COLLECTION_SEGMENTS: Record<string, string> = {
+  '1': 'Prefeitura',
+  '2': 'Saneamento',
+  '3': 'Energia elétrica e gás',
+  '4': 'Telecomunicações',
+  '5': 'Órgão governamental',
+  '6': 'Carnê / convênio',
+  '7': 'Multa de trânsito',
+  '9': 'Uso exclusivo do banco',
+};
+
+// The due-date factor counts days from 1997-10-07; after reaching 9999 on
+// 2025-02-21 it restarted at 1000 on 2025-02-22
+const FACTOR_BASE = '1997-10-07';
+const FACTOR_RESET_BASE = '2025-02-22';
+
+export function getBankName(code: string): string {
+  return BANK_NAMES[code] ?? `Banco ${code}`;
+}
+
+/**
+ * Accepts a linha digitável (47 digits for bank boletos, 48 for collection
+ * slips) or a scanned 44-digit barcode, with or without punctuation, and
+ * validates every check digit.
+ */
+export function parseBoleto(input: string, referenceDate: Date = new Date()): BoletoResult {
+  const digits = onlyDigits(input);
+
+  if (digits.length === 47) return parseBankLine(digits, referenceDate);
+  if (digits.length === 48) return parseCollectionLine(digits);
+  if (digits.length === 44) {
+    return digits[0] === '8' ? parseCollectionBarcode(digits) : parseBankBarcode(digits, referenceDate);
+  }
+  return { error: 'A linha digitável deve ter 47 dígitos (boleto bancário) ou 48 (concessionárias).' };
+}
+
+// Weights 2, 1, 2, 1... from the right; two-digit products add their digits
+export function mod10(digits: string): number {
+  let sum = 0;
+  for (let i = digits.length - 1, weight = 2; i >= 0; i--, weight = weight === 2 ? 1 : 2) {
+    const product = Number(digits[i]) * weight;
+    sum += product > 9 ? product - 9 : product;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+// Weights 2 to 9 from the right, cycling
+function mod11Sum(digits: string): number {
+  let sum = 0;
+  for (let i = digits.length - 1, weight = 2; i >= 0; i--, weight = weight === 9 ? 2 : weight + 1) {
+    sum += Number(digits[i]) * weight;
+  }
+  return sum;
+}
+
+// Bank barcode general digit: 0, 10 and 11 become 1
+export function mod11Bank(digits: string): number {
+  const dv = 11 - (mod11Sum(digits) % 11);
+  return dv === 0 || dv === 10 || dv === 11 ? 1 : dv;
+}
+
+// Collection slips: remainders 0 and 1 give 0
+export function mod11Collection(digits: string): number {
+  const rest = mod11Sum(digits) % 11;
+  return rest === 0 || rest === 1 ? 0 : 11 - rest;
+}
+
+export function dueDateFromFactor(factor: number, referenceDate: Date = new Date()): string | null {
+  if (factor === 0) return null;
+
+  // A factor maps to one date per cycle; the one closer to the reference date is meant
+  const candidates = [addDays(parseISO(FACTOR_BASE), factor)];
+  if (factor >= 1000) candidates.push(addDays(parseISO(FACTOR_RESET_BASE), factor - 1000));
+  const closest = candidates.reduce((best, date) =>
+    Math.abs(differenceInCalendarDays(date, referenceDate)) < Math.abs(differenceInCalendarDays(best, referenceDate))
+      ? date
+      : best
+  );
+  return format(closest, 'yyyy-MM-dd');
+}
+
+function parseBankLine(line: string, referenceDate: Date): BoletoResult {
+  const fields = [line.slice(0, 10), line.slice(10, 21), line.slice(21, 32)];
+  const invalidField = fields.findIndex(field => mod10(field.slice(0, -1)) !== Number(field.slice(-1)));
+  if (invalidField !== -1) {
+    return { error: `Dígito verificador do campo ${invalidField + 1} não confere.` };
+  }
+
+  const barcode = line.slice(0, 4) + line.slice(32, 47) + line.slice(4, 9) + line.slice(10, 20) + line.slice(21, 31);
+  return parseBankBarcode(barcode, referenceDate);
+}
+
+// Barcode layout: bank (3), currency (1), general DV (1), factor (4), value (10), free field (25)
+function parseBankBarcode(barcode: string, referenceDate: Date): BoletoResult {
+  if (mod11Bank(barcode.slice(0, 4) + barcode.slice(5)) !== Number(barcode[4])) {
+    return { error: 'Dígito verificador geral do boleto não confere.' };
+  }
+
+  const bankCode = barcode.slice(0, 3);
+  const cents = Number(barcode.slice(9, 19));
+  return {
+    boleto: {
+      kind: 'bank',
+      barcode,
+      value: cents > 0 ? cents / 100 : null,
+      dueDate: dueDateFromFactor(Number(barcode.slice(5, 9)), referenceDate),
+      bankCode,
+      issuer: getBankName(bankCode),
+    },
+  };
+}
+
+// Four blocks of 11 barcode digits, each followed by its own check digit
+function parseCollectionLine(line: string): BoletoResult {
+  const blocks = [0, 12, 24, 36].map(start => line.slice(start, start + 12));
+  const checkDigit = getCollectionCheck(line[2]);
+  if (!checkDigit) return { error: 'Identificador de valor inválido.' };
+
+  const invalidBlock = blocks.findIndex(block => checkDigit(block.slice(0, 11)) !== Number(block[11]));
+  if (invalidBlock !== -1) {
+    return { error: `Dígito verificador do bloco ${invalidBlock + 1} não confere.` };
+  }
+
+  return parseCollectionBarcode(blocks.map(block => block.slice(0, 11)).join(''));
+}
+
+// Barcode layout: product "8" (1), segment (1), value id (1), general DV (1), value (11), company and free field
+function parseCollectionBarcode(barcode: string): BoletoResult {
+  if (barcode[0] !== '8') return { error: 'Código de concessionária deve começar com 8.' };
+
+  const checkDigit = getCollectionCheck(barcode[2]);
+  if (!checkDigit) return { error: 'Identificador de valor inválido.' };
+  if (checkDigit(barcode.slice(0, 3) + barcode.slice(4)) !== Number(barcode[3])) {
+    return { error: 'Dígito verificador geral do código não confere.' };
+  }
+
+  // Value ids 7 and 9 carry a reference quantity rather than an amount
+  const isAmount = barcode[2] === '6' || barcode[2] === '8';
+  const cents = Number(barcode.slice(4, 15));
+  return {
+    boleto: {
+      kind: 'collection',
+      barcode,
+      value: isAmount && cents > 0 ? cents / 100 : null,
+      dueDate: null,
+      bankCode: null,
+      issuer: COLLECTION_SEGMENTS[barcode[1]] ?? 'Concessionária',
+    },
+  };
+}
+
+// Value ids 6 and 7 use modulo 10; 8 and 9 use modulo 11
+function getCollectionCheck(valueId: string): ((digits: string) => number) | null {
+  if (valueId === '6' || valueId === '7') return mod10;
+  if (valueId === '8' || valueId === '9') return mod11Collection;
+  return null;
+}
+
+// Linha digitável as printed on bank boletos: AAAAA.AAAAA BBBBB.BBBBBB CCCCC.CCCCCC D EEEEEEEEEEEEEE
+export function formatBoletoLine(barcode: string): string {
+  if (barcode.length !== 44) return barcode;
+
+  if (barcode[0] === '8') {
+    return [0, 11, 22, 33]
+      .map(start => {
+        const block = barcode.slice(start, start + 11);
+        const dv = (getCollectionCheck(barcode[2]) ?? mod10)(block);
+        return `${block}-${dv}`;
+      })
+      .join(' ');
+  }
+
+  const field1 = barcode.slice(0, 4) + barcode.slice(19, 24);
+  const field2 = barcode.slice(24, 34);
+  const field3 = barcode.slice(34, 44);
+  const withDv = (field: string) => field + mod10(field);
+  const [f1, f2, f3] = [withDv(field1), withDv(field2), withDv(field3)];
+  return `${f1.slice(0, 5)}.${f1.slice(5)} ${f2.slice(0, 5)}.${f2.slice(5)} ${f3.slice(0, 5)}.${f3.slice(5)} ${barcode[4]} ${barcode.slice(5, 19)}`;
+}
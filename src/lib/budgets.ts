@@ -0,0 +1,55 @@
+import { format, startOfMonth } from 'date-fns';
+import { Budget, Transaction } from '@/types/finance';
+import { isTransfer } from '@/lib/transfers';
+import { getReportDate, isReported, ReportingRegime } from '@/lib/reporting';
+import { expandSplits } from '@/lib/splits';
+
+// Share of the budget from which a category is flagged
+export const BUDGET_WARNING_THRESHOLD = 0.8;
+
+export type BudgetStatus = 'ok' | 'warning' | 'over';
+
+export interface BudgetProgress {
+  budget: Budget;
+  spent: number;
+  remaining: number;
+  ratio: number; // spent / amount
+  status: BudgetStatus;
+}
+
+export const toBudgetMonth = (date: Date) => format(startOfMonth(date), 'yyyy-MM-dd');
+
+/**
+ * Expenses of each budgeted category reported in the budget's month under the
+ * given regime, transfers excluded and split transactions counted per line.
+ */
+export function getBudgetProgress(
+  budgets: Budget[],
+  transactions: Transaction[],
+  month: string,
+  regime: ReportingRegime = 'cash'
+): BudgetProgress[] {
+  const monthPrefix = month.slice(0, 7);
+  const spentByCategory = new Map<string, number>();
+
+  expandSplits(transactions).forEach(t => {
+    if (t.type !== 'expense' || !isReported(t, regime) || !t.category || isTransfer(t)) return;
+    if (!getReportDate(t, regime).startsWith(monthPrefix)) return;
+    spentByCategory.set(t.category, (spentByCategory.get(t.category) || 0) + t.value);
+  });
+
+  return budgets
+    .filter(b => b.month === month)
+    .map((budget): BudgetProgress => {
+      const spent = spentByCategory.get(budget.category) || 0;
+      const ratio = spent / budget.amount;
+      return {
+        budget,
+        spent,
+        remaining: budget.amount - spent,
+        ratio,
+        status: ratio >= 1 ? 'over' : ratio >= BUDGET_WARNING_THRESHOLD ? 'warning' : 'ok',
+      };
+    })
+    .sort((a, b) => b.ratio - a.ratio);
+}
@@ -0,0 +1,164 @@
+import { addDays, addMonths, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { Transaction, TransactionType } from '@/types/finance';
+import { normalizeDescription } from '@/lib/categorySuggestions';
+import { isTransfer } from '@/lib/transfers';
+
+export const FORECAST_HORIZONS = [30, 60, 90];
+
+export interface ForecastPoint {
+  date: string;
+  balance: number;
+  inflow: number;
+  outflow: number;
+}
+
+export interface InferredPattern {
+  description: string;
+  type: TransactionType;
+  value: number;
+  intervalDays: number; // 30 stands for "monthly"
+  lastDate: string;
+}
+
+export interface CashFlowForecast {
+  startingBalance: number;
+  points: ForecastPoint[];
+  firstNegativeDate: string | null;
+  lowestBalance: number;
+  patterns: InferredPattern[];
+}
+
+const MIN_OCCURRENCES = 3;
+
+// Accepted spacings between occurrences: [min, max, canonical]
+const INTERVALS: [number, number, number][] = [
+  [6, 8, 7],
+  [13, 16, 14],
+  [26, 35, 30],
+];
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Counted from the last occurrence so month-end dates don't drift
+function nthOccurrence(last: Date, intervalDays: number, n: number): Date {
+  return intervalDays === 30 ? addMonths(last, n) : addDays(last, intervalDays * n);
+}
+
+const patternKey = (t: Pick<Transaction, 'type' | 'description'>) =>
+  `${t.type}:${normalizeDescription(t.description)}`;
+
+/**
+ * Finds completed transactions that repeat at a regular weekly, biweekly or
+ * monthly pace and are still active. Descriptions already scheduled as
+ * pending (manually or by a recurring template) are left out so they are not
+ * counted twice.
+ */
+export function inferRecurringPatterns(transactions: Transaction[], today: Date = new Date()): InferredPattern[] {
+  const scheduled = new Set(
+    transactions.filter(t => t.status === 'pending').map(patternKey)
+  );
+
+  const groups = new Map<string, Transaction[]>();
+  transactions.forEach(t => {
+    if (t.status !== 'completed' || isTransfer(t) || t.recurringId || t.installmentGroupId) return;
+    const key = patternKey(t);
+    if (key.endsWith(':') || scheduled.has(key)) return;
+    groups.set(key, [...(groups.get(key) || []), t]);
+  });
+
+  const patterns: InferredPattern[] = [];
+  groups.forEach(group => {
+    const dates = Array.from(new Set(group.map(t => t.date))).sort();
+    if (dates.length < MIN_OCCURRENCES) return;
+
+    const gaps = dates.slice(1).map((date, i) => differenceInCalendarDays(parseISO(date), parseISO(dates[i])));
+    const typical = median(gaps);
+    const interval = INTERVALS.find(([min, max]) => typical >= min && typical <= max);
+    if (!interval) return;
+
+    // Most gaps must fit the interval, otherwise it's just a frequent payee
+    const regular = gaps.filter(gap => gap >= interval[0] && gap <= interval[1]).length;
+    if (regular < Math.ceil(gaps.length * 2 / 3)) return;
+
+    // Stopped happening: more than two intervals without a new occurrence
+    const lastDate = dates[dates.length - 1];
+    if (differenceInCalendarDays(today, parseISO(lastDate)) > interval[2] * 2) return;
+
+    const recent = [...group].sort((a, b) => b.date.localeCompare(a.date)).slice(0, 3);
+    patterns.push({
+      description: recent[0].description,
+      type: recent[0].type,
+      value: median(recent.map(t => t.value)),
+      intervalDays: interval[2],
+      lastDate,
+    });
+  });
+
+  return patterns;
+}
+
+/**
+ * Projected end-of-day balance for today and the next `days` days. Pending
+ * transactions count on their due date (overdue ones today); inferred
+ * patterns add their future occurrences.
+ */
+export function forecastCashFlow(
+  transactions: Transaction[],
+  initialBalance: number,
+  days: number,
+  today: Date = new Date()
+): CashFlowForecast {
+  const start = toDateString(today);
+  const end = toDateString(addDays(today, days));
+
+  const startingBalance = transactions
+    .filter(t => t.status === 'completed')
+    .reduce((sum, t) => sum + (t.type === 'income' ? t.value : -t.value), initialBalance);
+
+  const flows = new Map<string, { inflow: number; outflow: number }>();
+  const addFlow = (date: string, type: TransactionType, value: number) => {
+    const flow = flows.get(date) || { inflow: 0, outflow: 0 };
+    if (type === 'income') flow.inflow += value;
+    else flow.outflow += value;
+    flows.set(date, flow);
+  };
+
+  transactions.forEach(t => {
+    if (t.status !== 'pending') return;
+    const due = t.dueDate || t.date;
+    if (due > end) return;
+    addFlow(due < start ? start : due, t.type, t.value);
+  });
+
+  const patterns = inferRecurringPatterns(transactions, today);
+  patterns.forEach(pattern => {
+    const last = parseISO(pattern.lastDate);
+    for (let n = 1; ; n++) {
+      const date = toDateString(nthOccurrence(last, pattern.intervalDays, n));
+      if (date > end) break;
+      if (date > start) addFlow(date, pattern.type, pattern.value);
+    }
+  });
+
+  let balance = startingBalance;
+  let firstNegativeDate: string | null = null;
+  let lowestBalance = startingBalance;
+
+  const points = Array.from({ length: days + 1 }, (_, i) => {
+    const date = toDateString(addDays(today, i));
+    const { inflow, outflow } = flows.get(date) || { inflow: 0, outflow: 0 };
+    balance += inflow - outflow;
+
+    if (balance < 0 && !firstNegativeDate) firstNegativeDate = date;
+    lowestBalance = Math.min(lowestBalance, balance);
+    return { date, balance, inflow, outflow };
+  });
+
+  return { startingBalance, points, firstNegativeDate, lowestBalance, patterns };
+}
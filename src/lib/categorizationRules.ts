@@ -0,0 +1,77 @@
+import { Transaction, CategorizationRule } from '@/types/finance';
+
+type RuleTarget = Pick<Transaction, 'description' | 'value' | 'type' | 'category' | 'paymentMethod'>;
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function matchesDescription(rule: CategorizationRule, description: string): boolean {
+  if (!rule.descriptionOperator || !rule.descriptionPattern) return true;
+
+  if (rule.descriptionOperator === 'regex') {
+    try {
+      return new RegExp(rule.descriptionPattern, 'i').test(description);
+    } catch {
+      // An invalid pattern never matches instead of breaking the whole import
+      return false;
+    }
+  }
+
+  const text = normalize(description);
+  const pattern = normalize(rule.descriptionPattern);
+  switch (rule.descriptionOperator) {
+    case 'starts_with':
+      return text.startsWith(pattern);
+    case 'equals':
+      return text === pattern;
+    default:
+      return text.includes(pattern);
+  }
+}
+
+export function ruleMatches(rule: CategorizationRule, transaction: RuleTarget): boolean {
+  if (rule.matchType && rule.matchType !== transaction.type) return false;
+  if (rule.minValue !== null && transaction.value < rule.minValue) return false;
+  if (rule.maxValue !== null && transaction.value > rule.maxValue) return false;
+  return matchesDescription(rule, transaction.description);
+}
+
+// A rule without any condition would match everything, which is never what the user meant
+export function hasConditions(rule: Pick<CategorizationRule, 'descriptionPattern' | 'minValue' | 'maxValue' | 'matchType'>): boolean {
+  return !!rule.descriptionPattern || rule.minValue !== null || rule.maxValue !== null || !!rule.matchType;
+}
+
+/**
+ * Applies active rules in priority order. For each field, the highest-priority
+ * matching rule wins; category and payment method are only filled when empty.
+ */
+export function applyRules<T extends RuleTarget>(transactions: T[], rules: CategorizationRule[]): T[] {
+  const active = rules
+    .filter(r => r.isActive && hasConditions(r))
+    .sort((a, b) => a.priority - b.priority);
+  if (active.length === 0) return transactions;
+
+  return transactions.map(transaction => {
+    const result = { ...transaction };
+    let typeSet = false;
+
+    for (const rule of active) {
+      if (!ruleMatches(rule, transaction)) continue;
+
+      if (rule.setCategory && !result.category) result.category = rule.setCategory;
+      if (rule.setPaymentMethod && !result.paymentMethod) result.paymentMethod = rule.setPaymentMethod;
+      if (rule.setType && !typeSet) {
+        result.type = rule.setType;
+        typeSet = true;
+      }
+    }
+
+    return result;
+  });
+}
@@ -0,0 +1,129 @@
+import { Transaction, TransactionType } from '@/types/finance';
+import { isTransfer } from '@/lib/transfers';
+
+export interface CategorySuggestion {
+  category: string;
+  confidence: number; // 0..1
+}
+
+interface HistoryEntry {
+  type: TransactionType;
+  tokens: Set<string>;
+  counts: Map<string, number>; // category name -> occurrences
+  total: number;
+}
+
+const MIN_SIMILARITY = 0.5;
+
+/**
+ * Reduces a bank description to the words that identify the counterpart:
+ * dates, document numbers, CPF/CNPJ, e-mails, phones and random PIX keys are
+ * removed so "PIX ENVIADO 12/03 JOAO 123.456.789-00" and
+ * "PIX ENVIADO 15/04 JOAO 987.654.321-00" end up equal.
+ */
+export function normalizeDescription(description: string): string {
+  return description
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    // Random PIX keys (UUID) and e-mail keys
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/g, ' ')
+    .replace(/\S+@\S+/g, ' ')
+    // Dates: 12/03, 12/03/2024, 2024-03-12, 12.03.24
+    .replace(/\b\d{4}-\d{2}-\d{2}\b/g, ' ')
+    .replace(/\b\d{1,2}[/.-]\d{1,2}([/.-]\d{2,4})?\b/g, ' ')
+    // Phones, CPF/CNPJ and other document numbers, masked or not
+    .replace(/\+?\d[\d.\-/()*\s]{5,}\d/g, ' ')
+    // Words glued to numbers, like DOC123456 or NSU00981
+    .replace(/\b[a-z]*\d+[a-z\d]*\b/g, ' ')
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token.length > 1)
+    .join(' ');
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) shared++;
+  });
+  return (2 * shared) / (a.size + b.size);
+}
+
+function buildHistory(transactions: Transaction[]): HistoryEntry[] {
+  const entries = new Map<string, HistoryEntry>();
+
+  transactions.forEach(t => {
+    if (!t.category) return;
+    const normalized = normalizeDescription(t.description);
+    if (!normalized) return;
+
+    const key = `${t.type}:${normalized}`;
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = { type: t.type, tokens: new Set(normalized.split(' ')), counts: new Map(), total: 0 };
+      entries.set(key, entry);
+    }
+    entry.counts.set(t.category, (entry.counts.get(t.category) || 0) + 1);
+    entry.total++;
+  });
+
+  return Array.from(entries.values());
+}
+
+function suggestFromHistory(
+  transaction: Pick<Transaction, 'description' | 'type'>,
+  history: HistoryEntry[]
+): CategorySuggestion | null {
+  const tokens = new Set(normalizeDescription(transaction.description).split(' ').filter(Boolean));
+  if (tokens.size === 0) return null;
+
+  const scores = new Map<string, number>();
+  let totalScore = 0;
+  let support = 0;
+  let bestSimilarity = 0;
+
+  history.forEach(entry => {
+    if (entry.type !== transaction.type) return;
+    const sim = similarity(tokens, entry.tokens);
+    if (sim < MIN_SIMILARITY) return;
+
+    entry.counts.forEach((count, category) => {
+      scores.set(category, (scores.get(category) || 0) + sim * count);
+    });
+    totalScore += sim * entry.total;
+    support += entry.total;
+    bestSimilarity = Math.max(bestSimilarity, sim);
+  });
+
+  if (totalScore === 0) return null;
+
+  let category = '';
+  let topScore = 0;
+  scores.forEach((score, name) => {
+    if (score > topScore) {
+      category = name;
+      topScore = score;
+    }
+  });
+
+  // Agreement among similar rows, discounted for weak matches and thin history
+  const confidence = (topScore / totalScore) * bestSimilarity * (support / (support + 1));
+  return { category, confidence };
+}
+
+// Suggestions for every uncategorized transaction, keyed by transaction id
+export function getCategorySuggestions(transactions: Transaction[]): Map<string, CategorySuggestion> {
+  const history = buildHistory(transactions);
+  const suggestions = new Map<string, CategorySuggestion>();
+  if (history.length === 0) return suggestions;
+
+  transactions.forEach(t => {
+    if (t.category || isTransfer(t)) return;
+    const suggestion = suggestFromHistory(t, history);
+    if (suggestion) suggestions.set(t.id, suggestion);
+  });
+
+  return suggestions;
+}
@@ -0,0 +1,81 @@
+import { Category } from '@/types/finance';
+
+export interface CategoryNode {
+  category: Category;
+  children: CategoryNode[];
+}
+
+export interface CategoryTotal {
+  name: string;
+  value: number;
+  hasChildren: boolean;
+}
+
+// Categories whose parent is missing are treated as roots
+export function buildCategoryTree(categories: Category[]): CategoryNode[] {
+  const ids = new Set(categories.map(c => c.id));
+  const build = (parentId: string | null): CategoryNode[] =>
+    categories
+      .filter(c => (c.parentId && ids.has(c.parentId) ? c.parentId : null) === parentId)
+      .map(category => ({ category, children: build(category.id) }));
+  return build(null);
+}
+
+// Path from the root down to the category itself
+export function getCategoryPath(categories: Category[], id: string): Category[] {
+  const byId = new Map(categories.map(c => [c.id, c]));
+  const path: Category[] = [];
+  let current = byId.get(id);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+export function getDescendantIds(categories: Category[], id: string): string[] {
+  const children = categories.filter(c => c.parentId === id);
+  return children.flatMap(c => [c.id, ...getDescendantIds(categories, c.id)]);
+}
+
+export function getCategoryLabel(categories: Category[], name: string): string {
+  const category = categories.find(c => c.name === name);
+  return category ? getCategoryPath(categories, category.id).map(c => c.name).join(' › ') : name;
+}
+
+/**
+ * Rolls category totals up one tree level. Without a group, totals are
+ * summed per root category; with a group, per direct child of that group
+ * (amounts booked on the group itself keep the group's name).
+ */
+export function aggregateByCategoryGroup(
+  entries: { category: string; value: number }[],
+  categories: Category[],
+  group: string | null = null
+): CategoryTotal[] {
+  const totals = new Map<string, number>();
+
+  entries.forEach(({ category, value }) => {
+    const match = categories.find(c => c.name === category);
+    const path = match ? getCategoryPath(categories, match.id).map(c => c.name) : [category];
+
+    let key: string | undefined;
+    if (!group) {
+      key = path[0];
+    } else {
+      const index = path.indexOf(group);
+      if (index === -1) return;
+      key = path[index + 1] ?? group;
+    }
+    totals.set(key, (totals.get(key) || 0) + value);
+  });
+
+  return Array.from(totals.entries()).map(([name, value]) => {
+    const category = categories.find(c => c.name === name);
+    return {
+      name,
+      value,
+      hasChildren: !!category && name !== group && categories.some(c => c.parentId === category.id),
+    };
+  });
+}
@@ -0,0 +1,10 @@
+export function onlyDigits(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+// 12345678000195 -> 12.345.678/0001-95; anything that isn't 14 digits is returned as is
+export function formatCNPJ(cnpj: string): string {
+  const digits = onlyDigits(cnpj);
+  if (digits.length !== 14) return cnpj;
+  return digits.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5');
+}
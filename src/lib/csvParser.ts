@@ -1,61 +1,275 @@
-import { Transaction, TransactionType } from '@/types/finance';
+import { Transaction, TransactionType, CategorizationRule } from '@/types/finance';
+import { applyRules } from '@/lib/categorizationRules';
+
+export type CSVDelimiter = ';' | ',' | '\t' | '|';
+export type CSVEncoding = 'utf-8' | 'latin1';
+export type CSVDateFormat = 'DD/MM/YYYY' | 'DD/MM/YY' | 'DD-MM-YYYY' | 'YYYY-MM-DD' | 'MM/DD/YYYY';
+export type CSVDecimalStyle = 'comma' | 'dot';
+
+export interface CSVMapping {
+  delimiter: CSVDelimiter;
+  encoding: CSVEncoding;
+  dateFormat: CSVDateFormat;
+  decimalStyle: CSVDecimalStyle;
+  hasHeader: boolean;
+  dateColumn: number;
+  descriptionColumn: number;
+  valueColumn: number;
+  indicatorColumn: number | null; // Coluna com D/C (débito/crédito)
+  balanceColumn: number | null;
+}
+
+export const DEFAULT_CSV_MAPPING: CSVMapping = {
+  delimiter: ';',
+  encoding: 'utf-8',
+  dateFormat: 'DD/MM/YYYY',
+  decimalStyle: 'comma',
+  hasHeader: true,
+  dateColumn: 0,
+  descriptionColumn: 1,
+  valueColumn: 2,
+  indicatorColumn: null,
+  balanceColumn: null,
+};
+
+export const CSV_DELIMITERS: { value: CSVDelimiter; label: string }[] = [
+  { value: ';', label: 'Ponto e vírgula (;)' },
+  { value: ',', label: 'Vírgula (,)' },
+  { value: '\t', label: 'Tabulação' },
+  { value: '|', label: 'Barra vertical (|)' },
+];
+
+export const CSV_DATE_FORMATS: CSVDateFormat[] = [
+  'DD/MM/YYYY',
+  'DD/MM/YY',
+  'DD-MM-YYYY',
+  'YYYY-MM-DD',
+  'MM/DD/YYYY',
+];
 
 interface ParsedRow {
   date: string;
   description: string;
   value: number;
   type: TransactionType;
+  balance?: number;
 }
 
-export function parseCSV(content: string): ParsedRow[] {
-  const lines = content.trim().split('\n');
-  if (lines.length < 2) return [];
+export function decodeCSV(buffer: ArrayBuffer, encoding: CSVEncoding): string {
+  const decoder = new TextDecoder(encoding === 'latin1' ? 'windows-1252' : 'utf-8');
+  // Strip UTF-8 BOM left by Excel exports
+  return decoder.decode(buffer).replace(/^\uFEFF/, '');
+}
 
-  const header = lines[0].toLowerCase();
-  const hasHeader = header.includes('data') || header.includes('date') || header.includes('valor');
+// Quote-aware split: handles "descriptions, with commas" and escaped "" quotes
+export function splitCSVRows(content: string, delimiter: CSVDelimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
 
-  const dataLines = hasHeader ? lines.slice(1) : lines;
-  const results: ParsedRow[] = [];
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
 
-  for (const line of dataLines) {
-    if (!line.trim()) continue;
-
-    // Try to parse different CSV formats
-    const parts = line.split(/[,;]/).map(p => p.trim().replace(/^"|"$/g, ''));
-    
-    if (parts.length >= 3) {
-      const dateStr = parts[0];
-      const description = parts[1];
-      const valueStr = parts[2].replace(/[R$\s]/g, '').replace(',', '.');
-      const value = Math.abs(parseFloat(valueStr));
-
-      if (!isNaN(value) && value > 0) {
-        // Detect type based on value sign or description
-        const isNegative = parts[2].includes('-') || valueStr.startsWith('-');
-        const type: TransactionType = isNegative ? 'expense' : 'income';
-
-        // Parse date (supports DD/MM/YYYY or YYYY-MM-DD)
-        let parsedDate = dateStr;
-        if (dateStr.includes('/')) {
-          const [day, month, year] = dateStr.split('/');
-          parsedDate = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+    if (inQuotes) {
+      if (char === '"') {
+        if (content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
         }
-
-        results.push({
-          date: parsedDate,
-          description,
-          value,
-          type,
-        });
+      } else {
+        field += char;
       }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field.trim());
+      if (row.some(cell => cell !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field.trim());
+  if (row.some(cell => cell !== '')) rows.push(row);
+
+  return rows;
+}
+
+export function detectDelimiter(content: string): CSVDelimiter {
+  const sample = content.split(/\r?\n/).slice(0, 10);
+  let best: CSVDelimiter = ';';
+  let bestScore = 0;
+
+  for (const { value } of CSV_DELIMITERS) {
+    const counts = sample.map(line => splitCSVRows(line, value)[0]?.length ?? 0);
+    const columns = Math.min(...counts.filter(c => c > 0));
+    // Prefer the delimiter that yields a stable, larger column count
+    const consistent = counts.filter(c => c === columns).length;
+    const score = columns > 1 ? columns * consistent : 0;
+    if (score > bestScore) {
+      best = value;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+// Best-effort mapping from the header names of a bank export
+export function guessCSVMapping(content: string): CSVMapping {
+  const delimiter = detectDelimiter(content);
+  const rows = splitCSVRows(content, delimiter);
+  const header = (rows[0] || []).map(h => h.toLowerCase());
+
+  const findColumn = (keywords: string[]) =>
+    header.findIndex(h => keywords.some(kw => h.includes(kw)));
+
+  const hasHeader = header.some(h => /data|date|valor|value|hist|descri/.test(h));
+  const dateColumn = findColumn(['data', 'date']);
+  const descriptionColumn = findColumn(['descri', 'hist', 'memo', 'lançamento', 'lancamento']);
+  const valueColumn = findColumn(['valor', 'value', 'montante', 'quantia']);
+  const balanceColumn = findColumn(['saldo', 'balance']);
+  const indicatorColumn = header.findIndex(h => /^(d\/c|c\/d|tipo|natureza|deb\/cred)$/.test(h.trim()));
+
+  const sampleValue = rows[hasHeader ? 1 : 0]?.[valueColumn >= 0 ? valueColumn : 2] || '';
+  const sampleDate = rows[hasHeader ? 1 : 0]?.[dateColumn >= 0 ? dateColumn : 0] || '';
+
+  return {
+    ...DEFAULT_CSV_MAPPING,
+    delimiter,
+    hasHeader,
+    dateFormat: /^\d{4}-\d{2}-\d{2}/.test(sampleDate)
+      ? 'YYYY-MM-DD'
+      : /^\d{1,2}\/\d{1,2}\/\d{2}$/.test(sampleDate)
+        ? 'DD/MM/YY'
+        : /^\d{1,2}-\d{1,2}-\d{4}$/.test(sampleDate)
+          ? 'DD-MM-YYYY'
+          : 'DD/MM/YYYY',
+    decimalStyle: /\d\.\d{2}$/.test(sampleValue) && !/,\d{2}$/.test(sampleValue) ? 'dot' : 'comma',
+    dateColumn: dateColumn >= 0 ? dateColumn : 0,
+    descriptionColumn: descriptionColumn >= 0 ? descriptionColumn : 1,
+    valueColumn: valueColumn >= 0 ? valueColumn : 2,
+    balanceColumn: balanceColumn >= 0 && balanceColumn !== valueColumn ? balanceColumn : null,
+    indicatorColumn: indicatorColumn >= 0 ? indicatorColumn : null,
+  };
+}
+
+export function parseCSV(content: string, mapping: CSVMapping = DEFAULT_CSV_MAPPING): ParsedRow[] {
+  const rows = splitCSVRows(content, mapping.delimiter);
+  const dataRows = mapping.hasHeader ? rows.slice(1) : rows;
+  const results: ParsedRow[] = [];
+
+  for (const cells of dataRows) {
+    const date = parseDate(cells[mapping.dateColumn] ?? '', mapping.dateFormat);
+    const description = (cells[mapping.descriptionColumn] ?? '').replace(/\s+/g, ' ').trim();
+    const amount = parseAmount(cells[mapping.valueColumn] ?? '', mapping.decimalStyle);
+
+    if (!date || amount === null || amount === 0) continue;
+
+    // Detect type from the D/C column when mapped, otherwise from the value sign
+    let type: TransactionType = amount < 0 ? 'expense' : 'income';
+    if (mapping.indicatorColumn !== null) {
+      const indicator = parseIndicator(cells[mapping.indicatorColumn] ?? '');
+      if (indicator) type = indicator;
     }
+
+    const balance = mapping.balanceColumn !== null
+      ? parseAmount(cells[mapping.balanceColumn] ?? '', mapping.decimalStyle)
+      : null;
+
+    results.push({
+      date,
+      description: (description || 'Lançamento importado').substring(0, 100),
+      value: Math.abs(amount),
+      type,
+      balance: balance ?? undefined,
+    });
   }
 
   return results;
 }
 
-export function convertToTransactions(parsed: ParsedRow[]): Omit<Transaction, 'id' | 'createdAt'>[] {
-  return parsed.map(row => ({
+// Closing balance of the statement, taken from the most recent row with a balance
+export function getClosingBalance(rows: ParsedRow[]): { amount: number; date: string } | null {
+  const withBalance = rows.filter(r => r.balance !== undefined);
+  if (withBalance.length === 0) return null;
+
+  // Bank exports come either oldest-first or newest-first
+  const first = withBalance[0];
+  const last = withBalance[withBalance.length - 1];
+  const closing = first.date > last.date ? first : last;
+  return { amount: closing.balance!, date: closing.date };
+}
+
+function parseDate(value: string, format: CSVDateFormat): string | null {
+  const parts = value.trim().split(/[/\-.\s]/).filter(Boolean);
+  if (parts.length < 3) return null;
+
+  let day: string, month: string, year: string;
+  switch (format) {
+    case 'YYYY-MM-DD':
+      [year, month, day] = parts;
+      break;
+    case 'MM/DD/YYYY':
+      [month, day, year] = parts;
+      break;
+    default:
+      [day, month, year] = parts;
+  }
+
+  if (year.length === 2) year = `20${year}`;
+  if (!/^\d{4}$/.test(year) || !/^\d{1,2}$/.test(month) || !/^\d{1,2}$/.test(day)) return null;
+
+  const m = Number(month);
+  const d = Number(day);
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+// Returns a signed amount. Accepts "R$ -1.234,56", "(1,234.56)", "1.234,56 D" and similar.
+function parseAmount(value: string, decimalStyle: CSVDecimalStyle): number | null {
+  let raw = value.trim().toUpperCase();
+  if (!raw) return null;
+
+  let negative = raw.includes('-') || /^\(.*\)$/.test(raw);
+  if (/D$/.test(raw)) negative = true;
+  if (/C$/.test(raw)) negative = false;
+
+  raw = raw.replace(/[^\d.,]/g, '');
+  raw = decimalStyle === 'comma'
+    ? raw.replace(/\./g, '').replace(',', '.')
+    : raw.replace(/,/g, '');
+
+  const amount = parseFloat(raw);
+  if (!Number.isFinite(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+function parseIndicator(value: string): TransactionType | null {
+  const normalized = value.trim().toUpperCase();
+  if (/^(D|DEB|DÉB|DEBITO|DÉBITO|SAIDA|SAÍDA|-)/.test(normalized)) return 'expense';
+  if (/^(C|CRED|CRÉD|CREDITO|CRÉDITO|ENTRADA|\+)/.test(normalized)) return 'income';
+  return null;
+}
+
+export function convertToTransactions(
+  parsed: ParsedRow[],
+  rules: CategorizationRule[] = []
+): Omit<Transaction, 'id' | 'createdAt'>[] {
+  return applyRules(parsed.map(row => ({
     date: row.date,
     description: row.description,
     category: null,
@@ -65,5 +279,5 @@ export function convertToTransactions(parsed: ParsedRow[]): Omit<Transaction, 'i
     paymentMethod: null,
     isImported: true,
     isReconciled: true,
-  }));
+  })), rules);
 }
@@ -0,0 +1,169 @@
+import {
+  addMonths,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  eachMonthOfInterval,
+  endOfMonth,
+  format,
+  isSameDay,
+  max,
+  min,
+  startOfMonth,
+  subDays,
+  subYears,
+} from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Category, DreLine, DreMapping, Transaction, TransactionType } from '@/types/finance';
+import { getCategoryPath } from '@/lib/categoryTree';
+import { isTransfer } from '@/lib/transfers';
+import { getReportDate, isReported, ReportingRegime } from '@/lib/reporting';
+import { expandSplits } from '@/lib/splits';
+
+export type DreComparison = 'none' | 'previous' | 'previous_year' | 'monthly';
+
+export type DreStatementLine = Exclude<DreLine, 'excluded'>;
+
+export interface DrePeriod {
+  label: string;
+  start: string; // yyyy-MM-dd, inclusive
+  end: string; // yyyy-MM-dd, inclusive
+}
+
+export interface DreLineResult {
+  total: number;
+  categories: { category: string; amount: number }[];
+}
+
+export interface DreStatement {
+  period: DrePeriod;
+  lines: Record<DreStatementLine, DreLineResult>;
+  netRevenue: number;
+  grossProfit: number;
+  operatingResult: number;
+  netResult: number;
+}
+
+export const DRE_STATEMENT_LINES: DreStatementLine[] = [
+  'gross_revenue',
+  'deductions',
+  'costs',
+  'operating_expenses',
+  'financial_result',
+];
+
+const UNCATEGORIZED = 'Sem categoria';
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Used when neither the category nor any of its parents is mapped
+export function getDefaultDreLine(type: TransactionType): DreStatementLine {
+  return type === 'income' ? 'gross_revenue' : 'operating_expenses';
+}
+
+/**
+ * Line a category's amounts go to: its own mapping, otherwise the closest
+ * mapped parent, otherwise the default for the category type.
+ */
+export function resolveDreLine(
+  categoryName: string | null,
+  type: TransactionType,
+  categories: Category[],
+  mappings: DreMapping[]
+): DreLine {
+  const category = categories.find(c => c.name === categoryName && c.type === type);
+  if (category) {
+    const path = getCategoryPath(categories, category.id).reverse();
+    for (const c of path) {
+      const mapping = mappings.find(m => m.category === c.name);
+      if (mapping) return mapping.line;
+    }
+  }
+  return getDefaultDreLine(type);
+}
+
+/**
+ * Income statement from the transactions reported in the period (completed
+ * ones by date on a cash basis, pending ones too by competence date on an
+ * accrual basis), transfers left
+ * out and split transactions counted per line. Amounts are signed (income positive, expense negative), so every
+ * subtotal is a plain sum of the lines above it.
+ */
+export function buildDreStatement(
+  transactions: Transaction[],
+  categories: Category[],
+  mappings: DreMapping[],
+  period: DrePeriod,
+  regime: ReportingRegime = 'cash'
+): DreStatement {
+  const amounts = new Map<DreStatementLine, Map<string, number>>(
+    DRE_STATEMENT_LINES.map(line => [line, new Map()])
+  );
+
+  expandSplits(transactions).forEach(t => {
+    if (!isReported(t, regime) || isTransfer(t)) return;
+    const reportDate = getReportDate(t, regime);
+    if (reportDate < period.start || reportDate > period.end) return;
+
+    const line = resolveDreLine(t.category, t.type, categories, mappings);
+    if (line === 'excluded') return;
+
+    const byCategory = amounts.get(line)!;
+    const category = t.category || UNCATEGORIZED;
+    const signed = t.type === 'income' ? t.value : -t.value;
+    byCategory.set(category, (byCategory.get(category) || 0) + signed);
+  });
+
+  const lines = Object.fromEntries(
+    DRE_STATEMENT_LINES.map(line => {
+      const categoryAmounts = Array.from(amounts.get(line)!.entries())
+        .map(([category, amount]) => ({ category, amount }))
+        .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
+      return [line, { total: categoryAmounts.reduce((sum, c) => sum + c.amount, 0), categories: categoryAmounts }];
+    })
+  ) as Record<DreStatementLine, DreLineResult>;
+
+  const netRevenue = lines.gross_revenue.total + lines.deductions.total;
+  const grossProfit = netRevenue + lines.costs.total;
+  const operatingResult = grossProfit + lines.operating_expenses.total;
+  const netResult = operatingResult + lines.financial_result.total;
+
+  return { period, lines, netRevenue, grossProfit, operatingResult, netResult };
+}
+
+export function createDrePeriod(start: Date, end: Date): DrePeriod {
+  const wholeMonth = isSameDay(start, startOfMonth(start)) && isSameDay(end, endOfMonth(start));
+  const label = wholeMonth
+    ? format(start, 'MMM/yy', { locale: ptBR })
+    : `${format(start, 'dd/MM/yy')} – ${format(end, 'dd/MM/yy')}`;
+  return { label, start: toDateString(start), end: toDateString(end) };
+}
+
+/**
+ * Columns of the report, oldest first. "previous" repeats the same length
+ * right before the period (whole months shift by months), "previous_year"
+ * the same dates one year earlier and "monthly" splits the period by month.
+ */
+export function getDrePeriods(start: Date, end: Date, comparison: DreComparison): DrePeriod[] {
+  const base = createDrePeriod(start, end);
+
+  switch (comparison) {
+    case 'previous': {
+      const wholeMonths = isSameDay(start, startOfMonth(start)) && isSameDay(end, endOfMonth(end));
+      if (wholeMonths) {
+        const months = differenceInCalendarMonths(end, start) + 1;
+        const previousStart = addMonths(start, -months);
+        return [createDrePeriod(previousStart, endOfMonth(addMonths(end, -months))), base];
+      }
+      const days = differenceInCalendarDays(end, start) + 1;
+      return [createDrePeriod(subDays(start, days), subDays(start, 1)), base];
+    }
+    case 'previous_year':
+      return [createDrePeriod(subYears(start, 1), subYears(end, 1)), base];
+    case 'monthly':
+      return eachMonthOfInterval({ start, end }).map(month =>
+        createDrePeriod(max([month, start]), min([endOfMonth(month), end]))
+      );
+    default:
+      return [base];
+  }
+}
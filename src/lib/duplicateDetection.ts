@@ -0,0 +1,108 @@
+import { Transaction } from '@/types/finance';
+
+type IncomingTransaction = Omit<Transaction, 'id' | 'createdAt'>;
+
+export interface DuplicateMatch {
+  existing: Transaction;
+  score: number; // 0..1, 1 = same bank identifier or NF-e duplicata
+}
+
+const DEFAULT_DAY_WINDOW = 1;
+const MIN_DESCRIPTION_SIMILARITY = 0.5;
+
+// Words that appear in almost every bank description and say nothing about the counterpart
+const STOP_WORDS = new Set(['de', 'da', 'do', 'em', 'para', 'com', 'ltda', 'me', 'sa', 'eireli']);
+
+export function tokenizeDescription(description: string): string[] {
+  return description
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(token => token.length > 1 && !/^\d+$/.test(token) && !STOP_WORDS.has(token));
+}
+
+// Dice coefficient over description tokens
+export function descriptionSimilarity(a: string, b: string): number {
+  const tokensA = new Set(tokenizeDescription(a));
+  const tokensB = new Set(tokenizeDescription(b));
+  if (tokensA.size === 0 && tokensB.size === 0) return 1;
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) shared++;
+  });
+  return (2 * shared) / (tokensA.size + tokensB.size);
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) / 86400000;
+}
+
+// Identifier that pins a row to its source document, when it has one
+function getImportIdentity(
+  transaction: Pick<Transaction, 'externalId' | 'nfeAccessKey' | 'installmentNumber'>
+): string | null {
+  if (transaction.externalId) return `fit:${transaction.externalId}`;
+  if (transaction.nfeAccessKey) return `nfe:${transaction.nfeAccessKey}:${transaction.installmentNumber ?? 1}`;
+  return null;
+}
+
+/**
+ * Matches incoming rows against the account's existing transactions.
+ * Returns a map from incoming row index to the transaction it likely duplicates.
+ * Each existing transaction can absorb at most one incoming row, so two genuine
+ * equal payments on the same day are not both discarded.
+ */
+export function findDuplicates(
+  incoming: IncomingTransaction[],
+  existing: Transaction[],
+  dayWindow: number = DEFAULT_DAY_WINDOW
+): Map<number, DuplicateMatch> {
+  const matches = new Map<number, DuplicateMatch>();
+  const used = new Set<string>();
+
+  const byIdentity = new Map<string, Transaction>();
+  existing.forEach(t => {
+    const identity = getImportIdentity(t);
+    if (identity) byIdentity.set(identity, t);
+  });
+
+  // Bank identifiers (FITID) and NF-e duplicatas are authoritative, so resolve them first
+  incoming.forEach((row, index) => {
+    const identity = getImportIdentity(row);
+    const match = identity ? byIdentity.get(identity) : undefined;
+    if (match && !used.has(match.id)) {
+      matches.set(index, { existing: match, score: 1 });
+      used.add(match.id);
+    }
+  });
+
+  incoming.forEach((row, index) => {
+    if (matches.has(index)) return;
+
+    let best: DuplicateMatch | null = null;
+    for (const candidate of existing) {
+      if (used.has(candidate.id)) continue;
+      if (candidate.type !== row.type) continue;
+      if (Math.abs(candidate.value - row.value) >= 0.005) continue;
+      if (daysBetween(candidate.date, row.date) > dayWindow) continue;
+
+      const similarity = descriptionSimilarity(candidate.description, row.description);
+      if (similarity < MIN_DESCRIPTION_SIMILARITY) continue;
+
+      if (!best || similarity > best.score) {
+        best = { existing: candidate, score: similarity };
+      }
+    }
+
+    if (best) {
+      matches.set(index, best);
+      used.add(best.existing.id);
+    }
+  });
+
+  return matches;
+}
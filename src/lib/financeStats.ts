@@ -0,0 +1,47 @@
+import { Transaction } from '@/types/finance';
+
+export interface BalanceSummary {
+  currentBalance: number;
+  toReceive: number;
+  toPay: number;
+  projectedBalance: number;
+}
+
+// Balance figures for one account (or several, with their summed initial balances)
+export function summarizeBalances(
+  transactions: Pick<Transaction, 'type' | 'status' | 'value'>[],
+  initialBalance: number
+): BalanceSummary {
+  let currentBalance = initialBalance;
+  let toReceive = 0;
+  let toPay = 0;
+
+  transactions.forEach(t => {
+    if (t.status === 'completed') {
+      currentBalance += t.type === 'income' ? t.value : -t.value;
+    } else if (t.type === 'income') {
+      toReceive += t.value;
+    } else {
+      toPay += t.value;
+    }
+  });
+
+  return {
+    currentBalance,
+    toReceive,
+    toPay,
+    projectedBalance: currentBalance + toReceive - toPay,
+  };
+}
+
+export function sumBalances(summaries: BalanceSummary[]): BalanceSummary {
+  return summaries.reduce(
+    (total, s) => ({
+      currentBalance: total.currentBalance + s.currentBalance,
+      toReceive: total.toReceive + s.toReceive,
+      toPay: total.toPay + s.toPay,
+      projectedBalance: total.projectedBalance + s.projectedBalance,
+    }),
+    { currentBalance: 0, toReceive: 0, toPay: 0, projectedBalance: 0 }
+  );
+}
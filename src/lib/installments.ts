@@ -0,0 +1,55 @@
+import { addMonths, format, parseISO } from 'date-fns';
+import { Transaction, InstallmentRounding } from '@/types/finance';
+
+export const MAX_INSTALLMENTS = 48;
+
+/**
+ * Splits a total into `count` values with cent precision. The rounding
+ * difference goes to the first or the last installment.
+ */
+export function splitInstallmentValues(
+  total: number,
+  count: number,
+  rounding: InstallmentRounding = 'first'
+): number[] {
+  const totalCents = Math.round(total * 100);
+  const baseCents = Math.floor(totalCents / count);
+  const remainder = totalCents - baseCents * count;
+
+  const values = Array.from({ length: count }, () => baseCents);
+  values[rounding === 'first' ? 0 : count - 1] += remainder;
+  return values.map(cents => cents / 100);
+}
+
+/**
+ * Pending transactions for an installment purchase: one per month from the
+ * first due date, all sharing a new group id.
+ */
+export function buildInstallments(
+  purchase: Omit<Transaction, 'id' | 'createdAt'>,
+  count: number,
+  firstDueDate: string,
+  rounding: InstallmentRounding = 'first'
+): Omit<Transaction, 'id' | 'createdAt'>[] {
+  const groupId = crypto.randomUUID();
+  const values = splitInstallmentValues(purchase.value, count, rounding);
+  const start = parseISO(firstDueDate);
+
+  return values.map((value, index) => ({
+    ...purchase,
+    // Computed from the first due date so month-end dates don't drift
+    dueDate: format(addMonths(start, index), 'yyyy-MM-dd'),
+    value,
+    status: 'pending' as const,
+    paymentMethod: null,
+    isReconciled: false,
+    installmentGroupId: groupId,
+    installmentNumber: index + 1,
+    installmentTotal: count,
+  }));
+}
+
+export function getInstallmentLabel(transaction: Pick<Transaction, 'installmentNumber' | 'installmentTotal'>): string | null {
+  if (!transaction.installmentNumber || !transaction.installmentTotal) return null;
+  return `${transaction.installmentNumber}/${transaction.installmentTotal}`;
+}
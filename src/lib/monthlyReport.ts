@@ -0,0 +1,99 @@
+import { eachDayOfInterval, endOfMonth, format, startOfMonth } from 'date-fns';
+import { Category, Transaction } from '@/types/finance';
+import { aggregateByCategoryGroup, CategoryTotal } from '@/lib/categoryTree';
+import { excludeTransfers } from '@/lib/transfers';
+import { getReportDate, isReported, ReportingRegime } from '@/lib/reporting';
+import { expandSplits } from '@/lib/splits';
+
+export interface MonthlyReportData {
+  start: string;
+  end: string;
+  regime: ReportingRegime;
+  stats: {
+    periodIncome: number;
+    periodExpense: number;
+    periodBalance: number;
+    closingBalance: number;
+    toReceive: number;
+    toPay: number;
+  };
+  balanceEvolution: { date: string; balance: number }[];
+  expenseByCategory: CategoryTotal[];
+  incomeByCategory: CategoryTotal[];
+  topExpenses: Transaction[];
+  pending: Transaction[];
+}
+
+const TOP_EXPENSES = 5;
+
+/**
+ * Figures for the monthly report. Income, expenses and category totals
+ * follow the reporting regime; balances always follow cash dates and
+ * pending items are the ones due in the month.
+ */
+export function buildMonthlyReportData(
+  transactions: Transaction[],
+  categories: Category[],
+  initialBalance: number,
+  month: Date,
+  regime: ReportingRegime
+): MonthlyReportData {
+  const start = format(startOfMonth(month), 'yyyy-MM-dd');
+  const end = format(endOfMonth(month), 'yyyy-MM-dd');
+
+  const inPeriod = excludeTransfers(transactions).filter(t => {
+    const reportDate = getReportDate(t, regime);
+    return isReported(t, regime) && reportDate >= start && reportDate <= end;
+  });
+  const expenses = inPeriod.filter(t => t.type === 'expense');
+  const income = inPeriod.filter(t => t.type === 'income');
+
+  const periodIncome = income.reduce((sum, t) => sum + t.value, 0);
+  const periodExpense = expenses.reduce((sum, t) => sum + t.value, 0);
+
+  const completed = transactions.filter(t => t.status === 'completed');
+  const signed = (t: Transaction) => (t.type === 'income' ? t.value : -t.value);
+  let balance = completed.filter(t => t.date < start).reduce((sum, t) => sum + signed(t), initialBalance);
+
+  const balanceEvolution = eachDayOfInterval({ start: startOfMonth(month), end: endOfMonth(month) }).map(day => {
+    const date = format(day, 'yyyy-MM-dd');
+    balance += completed.filter(t => t.date === date).reduce((sum, t) => sum + signed(t), 0);
+    return { date, balance };
+  });
+
+  const pending = transactions
+    .filter(t => {
+      const due = t.dueDate || t.date;
+      return t.status === 'pending' && due >= start && due <= end;
+    })
+    .sort((a, b) => (a.dueDate || a.date).localeCompare(b.dueDate || b.date));
+
+  const toEntries = (list: Transaction[]) =>
+    expandSplits(list).map(t => ({ category: t.category || 'Sem categoria', value: t.value }));
+  const byValue = (a: CategoryTotal, b: CategoryTotal) => b.value - a.value;
+
+  return {
+    start,
+    end,
+    regime,
+    stats: {
+      periodIncome,
+      periodExpense,
+      periodBalance: periodIncome - periodExpense,
+      closingBalance: balanceEvolution[balanceEvolution.length - 1].balance,
+      toReceive: pending.filter(t => t.type === 'income').reduce((sum, t) => sum + t.value, 0),
+      toPay: pending.filter(t => t.type === 'expense').reduce((sum, t) => sum + t.value, 0),
+    },
+    balanceEvolution,
+    expenseByCategory: aggregateByCategoryGroup(
+      toEntries(expenses),
+      categories.filter(c => c.type === 'expense')
+    ).sort(byValue),
+    incomeByCategory: aggregateByCategoryGroup(
+      toEntries(income),
+      categories.filter(c => c.type === 'income')
+    ).sort(byValue),
+    topExpenses: [...expenses].sort((a, b) => b.value - a.value).slice(0, TOP_EXPENSES),
+    pending,
+  };
+}
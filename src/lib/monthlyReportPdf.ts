@@ -0,0 +1,306 @@
+import { jsPDF } from 'jspdf';
+import autoTable, { UserOptions } from 'jspdf-autotable';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { CategoryTotal } from '@/lib/categoryTree';
+import { MonthlyReportData } from '@/lib/monthlyReport';
+
+export interface MonthlyReportHeader {
+  accountName: string;
+  companyName?: string;
+  bankName?: string;
+}
+
+type RGB = [number, number, number];
+
+// Approximations of the app's theme colors
+const PRIMARY: RGB = [27, 122, 152];
+const INCOME: RGB = [46, 184, 138];
+const EXPENSE: RGB = [229, 87, 52];
+const MUTED: RGB = [110, 117, 128];
+const BORDER: RGB = [226, 230, 235];
+
+const PAGE_MARGIN = 15;
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const CONTENT_WIDTH = PAGE_WIDTH - PAGE_MARGIN * 2;
+
+const currencyFormatter = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' });
+const compactFormatter = new Intl.NumberFormat('pt-BR', {
+  style: 'currency',
+  currency: 'BRL',
+  notation: 'compact',
+  maximumFractionDigits: 1,
+});
+
+const formatCurrency = (value: number) => currencyFormatter.format(value);
+const formatDate = (date: string) => format(parseISO(date), 'dd/MM/yyyy');
+
+function ensureSpace(doc: jsPDF, y: number, height: number): number {
+  if (y + height <= PAGE_HEIGHT - PAGE_MARGIN) return y;
+  doc.addPage();
+  return PAGE_MARGIN;
+}
+
+function drawSectionTitle(doc: jsPDF, title: string, y: number): number {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.setTextColor(30, 30, 30);
+  doc.text(title, PAGE_MARGIN, y);
+  return y + 5;
+}
+
+// autoTable doesn't return where it stopped, so the last cursor is tracked
+function drawTable(doc: jsPDF, options: UserOptions & { startY: number }): number {
+  let finalY = options.startY;
+  autoTable(doc, {
+    theme: 'striped',
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+    styles: { fontSize: 8, cellPadding: 1.5 },
+    headStyles: { fillColor: PRIMARY },
+    ...options,
+    didDrawPage: (data) => {
+      finalY = data.cursor?.y ?? finalY;
+    },
+  });
+  return finalY + 8;
+}
+
+function drawStatCards(doc: jsPDF, data: MonthlyReportData, y: number): number {
+  const { stats } = data;
+  const cards: { label: string; value: number; color?: RGB }[] = [
+    { label: 'Saldo no fim do mês', value: stats.closingBalance, color: stats.closingBalance < 0 ? EXPENSE : undefined },
+    { label: 'Entradas', value: stats.periodIncome, color: INCOME },
+    { label: 'Saídas', value: stats.periodExpense, color: EXPENSE },
+    { label: 'Resultado do mês', value: stats.periodBalance, color: stats.periodBalance < 0 ? EXPENSE : INCOME },
+    { label: 'A receber no mês', value: stats.toReceive, color: INCOME },
+    { label: 'A pagar no mês', value: stats.toPay, color: EXPENSE },
+  ];
+
+  const gap = 4;
+  const width = (CONTENT_WIDTH - gap * 2) / 3;
+  const height = 16;
+
+  cards.forEach((card, index) => {
+    const x = PAGE_MARGIN + (index % 3) * (width + gap);
+    const cardY = y + Math.floor(index / 3) * (height + gap);
+
+    doc.setDrawColor(...BORDER);
+    doc.roundedRect(x, cardY, width, height, 2, 2, 'S');
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED);
+    doc.text(card.label, x + 3, cardY + 5.5);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.setTextColor(...(card.color || ([30, 30, 30] as RGB)));
+    doc.text(formatCurrency(card.value), x + 3, cardY + 12.5);
+  });
+
+  return y + height * 2 + gap + 10;
+}
+
+function drawBalanceChart(doc: jsPDF, data: MonthlyReportData, y: number): number {
+  const height = 55;
+  const left = PAGE_MARGIN + 18; // room for the axis labels
+  const width = CONTENT_WIDTH - 18;
+  const points = data.balanceEvolution;
+
+  const values = points.map(p => p.balance);
+  let min = Math.min(0, ...values);
+  let max = Math.max(0, ...values);
+  if (min === max) max = min + 1;
+  const padding = (max - min) * 0.1;
+  min -= padding;
+  max += padding;
+
+  const toX = (index: number) => left + (points.length > 1 ? (index / (points.length - 1)) * width : width / 2);
+  const toY = (value: number) => y + height - ((value - min) / (max - min)) * height;
+
+  // Grid and value axis
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(7);
+  doc.setTextColor(...MUTED);
+  doc.setLineWidth(0.1);
+  for (let i = 0; i <= 4; i++) {
+    const value = min + ((max - min) * i) / 4;
+    const lineY = toY(value);
+    doc.setDrawColor(...BORDER);
+    doc.line(left, lineY, left + width, lineY);
+    doc.text(compactFormatter.format(value), left - 2, lineY + 1, { align: 'right' });
+  }
+
+  if (min < 0 && max > 0) {
+    doc.setDrawColor(...EXPENSE);
+    doc.setLineDashPattern([1, 1], 0);
+    doc.line(left, toY(0), left + width, toY(0));
+    doc.setLineDashPattern([], 0);
+  }
+
+  // Day axis: first day, every fifth day and the last one
+  const last = points.length - 1;
+  points.forEach((point, index) => {
+    if (index === 0 || index === last || ((index + 1) % 5 === 0 && index < last - 2)) {
+      doc.text(format(parseISO(point.date), 'dd/MM'), toX(index), y + height + 4, { align: 'center' });
+    }
+  });
+
+  doc.setDrawColor(...PRIMARY);
+  doc.setLineWidth(0.6);
+  points.slice(1).forEach((point, index) => {
+    doc.line(toX(index), toY(points[index].balance), toX(index + 1), toY(point.balance));
+  });
+  doc.setLineWidth(0.2);
+
+  return y + height + 12;
+}
+
+function drawCategoryBars(
+  doc: jsPDF,
+  title: string,
+  items: CategoryTotal[],
+  color: RGB,
+  x: number,
+  y: number,
+  width: number
+): number {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  doc.setTextColor(30, 30, 30);
+  doc.text(title, x, y);
+  y += 5;
+
+  if (items.length === 0) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED);
+    doc.text('Sem lançamentos no período', x, y + 3);
+    return y + 8;
+  }
+
+  const total = items.reduce((sum, item) => sum + item.value, 0);
+  const top = items.slice(0, 8);
+  const largest = top[0].value;
+
+  top.forEach(item => {
+    const percentage = total > 0 ? (item.value / total) * 100 : 0;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(30, 30, 30);
+    doc.text(doc.splitTextToSize(item.name, width - 45)[0], x, y + 3);
+    doc.text(`${formatCurrency(item.value)} (${percentage.toFixed(0)}%)`, x + width, y + 3, { align: 'right' });
+
+    doc.setFillColor(...BORDER);
+    doc.rect(x, y + 4.5, width, 1.8, 'F');
+    doc.setFillColor(...color);
+    doc.rect(x, y + 4.5, largest > 0 ? (item.value / largest) * width : 0, 1.8, 'F');
+    y += 9;
+  });
+
+  return y;
+}
+
+function drawFooter(doc: jsPDF, generatedAt: string) {
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.setTextColor(...MUTED);
+    doc.text(`Gerado em ${generatedAt} · FluxoCaixa`, PAGE_MARGIN, PAGE_HEIGHT - 8);
+    doc.text(`Página ${page} de ${pages}`, PAGE_WIDTH - PAGE_MARGIN, PAGE_HEIGHT - 8, { align: 'right' });
+  }
+}
+
+/**
+ * Builds the monthly report as an A4 PDF entirely in the browser: summary
+ * cards, balance evolution, category breakdown, top expenses and the
+ * payables and receivables due in the month.
+ */
+export function createMonthlyReportPdf(data: MonthlyReportData, header: MonthlyReportHeader): jsPDF {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const monthLabel = format(parseISO(data.start), "MMMM 'de' yyyy", { locale: ptBR });
+
+  // Header
+  doc.setFillColor(...PRIMARY);
+  doc.rect(0, 0, PAGE_WIDTH, 28, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text('Relatório Financeiro Mensal', PAGE_MARGIN, 12);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(
+    [header.companyName, header.accountName, header.bankName].filter(Boolean).join(' · '),
+    PAGE_MARGIN,
+    19
+  );
+  doc.text(monthLabel.charAt(0).toUpperCase() + monthLabel.slice(1), PAGE_WIDTH - PAGE_MARGIN, 12, { align: 'right' });
+  doc.setFontSize(8);
+  doc.text(
+    data.regime === 'accrual' ? 'Regime de competência' : 'Regime de caixa',
+    PAGE_WIDTH - PAGE_MARGIN,
+    19,
+    { align: 'right' }
+  );
+
+  let y = 38;
+  y = drawSectionTitle(doc, 'Resumo do mês', y);
+  y = drawStatCards(doc, data, y);
+
+  y = drawSectionTitle(doc, 'Evolução do saldo', y);
+  y = drawBalanceChart(doc, data, y + 2);
+
+  y = ensureSpace(doc, y, 90);
+  y = drawSectionTitle(doc, 'Distribuição por categoria', y);
+  const columnWidth = (CONTENT_WIDTH - 10) / 2;
+  const expenseEnd = drawCategoryBars(doc, 'Saídas', data.expenseByCategory, EXPENSE, PAGE_MARGIN, y + 2, columnWidth);
+  const incomeEnd = drawCategoryBars(
+    doc,
+    'Entradas',
+    data.incomeByCategory,
+    INCOME,
+    PAGE_MARGIN + columnWidth + 10,
+    y + 2,
+    columnWidth
+  );
+  y = Math.max(expenseEnd, incomeEnd) + 6;
+
+  y = ensureSpace(doc, y, 40);
+  y = drawSectionTitle(doc, 'Maiores despesas', y);
+  y = drawTable(doc, {
+    startY: y,
+    head: [['Data', 'Descrição', 'Categoria', 'Valor']],
+    body: data.topExpenses.length
+      ? data.topExpenses.map(t => [formatDate(t.date), t.description, t.category || 'Sem categoria', formatCurrency(t.value)])
+      : [[{ content: 'Nenhuma despesa no período', colSpan: 4 }]],
+    columnStyles: { 3: { halign: 'right' } },
+  });
+
+  y = ensureSpace(doc, y, 40);
+  y = drawSectionTitle(doc, 'Contas a pagar e a receber no mês', y);
+  drawTable(doc, {
+    startY: y,
+    head: [['Vencimento', 'Descrição', 'Categoria', 'Tipo', 'Valor']],
+    body: data.pending.length
+      ? data.pending.map(t => [
+          formatDate(t.dueDate || t.date),
+          t.description,
+          t.category || 'Sem categoria',
+          t.type === 'income' ? 'A receber' : 'A pagar',
+          formatCurrency(t.value),
+        ])
+      : [[{ content: 'Nenhuma conta pendente com vencimento no mês', colSpan: 5 }]],
+    foot: data.pending.length
+      ? [
+          ['', '', '', 'A receber', { content: formatCurrency(data.stats.toReceive), styles: { halign: 'right' } }],
+          ['', '', '', 'A pagar', { content: formatCurrency(data.stats.toPay), styles: { halign: 'right' } }],
+        ]
+      : undefined,
+    footStyles: { fillColor: [245, 246, 248], textColor: [30, 30, 30] },
+    columnStyles: { 4: { halign: 'right' } },
+  });
+
+  drawFooter(doc, format(new Date(), "dd/MM/yyyy 'às' HH:mm"));
+  return doc;
+}
@@ -0,0 +1,155 @@
+import { Transaction, TransactionType, CategorizationRule } from '@/types/finance';
+import { applyRules } from '@/lib/categorizationRules';
+import { onlyDigits } from '@/lib/cnpj';
+
+export interface NFeParty {
+  document: string; // CNPJ or CPF, digits only
+  name: string;
+}
+
+export interface NFeDuplicata {
+  number: string;
+  dueDate: string;
+  value: number;
+}
+
+export interface ParsedNFe {
+  accessKey: string;
+  number: string;
+  series: string;
+  issueDate: string;
+  issuer: NFeParty;
+  recipient: NFeParty | null;
+  total: number;
+  duplicatas: NFeDuplicata[];
+}
+
+// NF-e XML declares its encoding (almost always UTF-8) in the <?xml ?> header
+export async function readNFeFile(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  const head = new TextDecoder('ascii').decode(buffer.slice(0, 200)).toUpperCase();
+  const isLatin1 = /ENCODING="(WINDOWS-1252|ISO-8859-1)"/.test(head);
+  return new TextDecoder(isLatin1 ? 'windows-1252' : 'utf-8').decode(buffer);
+}
+
+/**
+ * Reads an NF-e (procNFe or bare NFe) document. Returns null when the file
+ * isn't an NF-e or lacks the access key, issuer or total.
+ */
+export function parseNFe(content: string): ParsedNFe | null {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) return null;
+
+  const infNFe = findElement(doc, 'infNFe');
+  if (!infNFe) return null;
+
+  // The authorization protocol carries the key; unsigned files only have it in the Id attribute
+  const accessKey = onlyDigits(readText(doc, 'chNFe') || infNFe.getAttribute('Id') || '');
+  const issuer = readParty(findElement(infNFe, 'emit'));
+  const total = parseDecimal(readText(findElement(infNFe, 'ICMSTot'), 'vNF'));
+  if (accessKey.length !== 44 || !issuer || total === null) return null;
+
+  const ide = findElement(infNFe, 'ide');
+  // Layout 3.10+ uses dhEmi (with time and offset); older files use dEmi
+  const issueDate = (readText(ide, 'dhEmi') || readText(ide, 'dEmi') || '').slice(0, 10);
+
+  const duplicatas: NFeDuplicata[] = [];
+  const cobr = findElement(infNFe, 'cobr');
+  if (cobr) {
+    Array.from(cobr.getElementsByTagNameNS('*', 'dup')).forEach((dup, index) => {
+      const value = parseDecimal(readText(dup, 'vDup'));
+      const dueDate = readText(dup, 'dVenc');
+      if (value === null || value <= 0 || !dueDate) return;
+      duplicatas.push({
+        number: readText(dup, 'nDup') || String(index + 1).padStart(3, '0'),
+        dueDate: dueDate.slice(0, 10),
+        value,
+      });
+    });
+  }
+
+  return {
+    accessKey,
+    number: readText(ide, 'nNF') || '',
+    series: readText(ide, 'serie') || '',
+    issueDate,
+    issuer,
+    recipient: readParty(findElement(infNFe, 'dest')),
+    total,
+    duplicatas,
+  };
+}
+
+/**
+ * Our company issuing the note means a sale (receivable); being the recipient
+ * means a purchase (payable). Null when the note belongs to someone else.
+ */
+export function getNFeDirection(nfe: ParsedNFe, companyCnpj: string | null | undefined): TransactionType | null {
+  const cnpj = onlyDigits(companyCnpj || '');
+  if (cnpj.length !== 14) return null;
+  if (nfe.issuer.document === cnpj) return 'income';
+  if (nfe.recipient?.document === cnpj) return 'expense';
+  return null;
+}
+
+/**
+ * One pending transaction per duplicata, due on its own date. A note without
+ * duplicatas (paid at once) becomes a single entry due on the issue date.
+ */
+export function convertNFeToTransactions(
+  nfe: ParsedNFe,
+  type: TransactionType,
+  rules: CategorizationRule[] = []
+): Omit<Transaction, 'id' | 'createdAt'>[] {
+  const counterpart = type === 'income' ? nfe.recipient?.name : nfe.issuer.name;
+  const description = `NF ${nfe.number}${counterpart ? ` - ${counterpart}` : ''}`.substring(0, 100);
+  const installments = nfe.duplicatas.length > 0
+    ? nfe.duplicatas
+    : [{ number: '', dueDate: nfe.issueDate, value: nfe.total }];
+  const groupId = installments.length > 1 ? crypto.randomUUID() : undefined;
+
+  return applyRules(installments.map((dup, index) => ({
+    date: nfe.issueDate,
+    dueDate: dup.dueDate,
+    competenceDate: nfe.issueDate,
+    description,
+    category: null,
+    value: dup.value,
+    type,
+    status: 'pending' as const,
+    paymentMethod: null,
+    nfeAccessKey: nfe.accessKey,
+    installmentGroupId: groupId,
+    installmentNumber: groupId ? index + 1 : undefined,
+    installmentTotal: groupId ? installments.length : undefined,
+    isImported: true,
+    isReconciled: false,
+  })), rules);
+}
+
+// NF-e elements live in the portalfiscal namespace; match by local name
+function findElement(parent: Document | Element | null, tag: string): Element | null {
+  return parent?.getElementsByTagNameNS('*', tag)[0] ?? null;
+}
+
+function readText(parent: Document | Element | null, tag: string): string | null {
+  const text = findElement(parent, tag)?.textContent?.trim();
+  return text || null;
+}
+
+function readParty(element: Element | null): NFeParty | null {
+  if (!element) return null;
+  const documentNumber = onlyDigits(readText(element, 'CNPJ') || readText(element, 'CPF') || '');
+  if (!documentNumber) return null;
+  return {
+    document: documentNumber,
+    name: (readText(element, 'xFant') || readText(element, 'xNome') || '').replace(/\s+/g, ' '),
+  };
+}
+
+// NF-e amounts always use a dot as the decimal separator
+function parseDecimal(value: string | null): number | null {
+  if (!value) return null;
+  const amount = parseFloat(value);
+  return Number.isFinite(amount) ? Math.round(amount * 100) / 100 : null;
+}
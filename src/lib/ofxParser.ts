@@ -0,0 +1,139 @@
+import { Transaction, TransactionType, CategorizationRule } from '@/types/finance';
+import { applyRules } from '@/lib/categorizationRules';
+
+interface ParsedOFXTransaction {
+  fitId: string;
+  date: string;
+  description: string;
+  value: number;
+  type: TransactionType;
+}
+
+export interface OFXLedgerBalance {
+  amount: number;
+  date: string | null;
+}
+
+export interface ParsedOFX {
+  transactions: ParsedOFXTransaction[];
+  ledgerBalance: OFXLedgerBalance | null;
+}
+
+// OFX 1.x files are SGML and usually declared as CHARSET:1252 (Latin-1 family).
+// OFX 2.x files are XML and declare their encoding in the <?xml ?> header.
+export async function readOFXFile(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  const head = new TextDecoder('ascii').decode(buffer.slice(0, 512)).toUpperCase();
+
+  const isLatin1 =
+    /CHARSET:\s*(1252|ISO-8859-1|8859-1)/.test(head) ||
+    /ENCODING="(WINDOWS-1252|ISO-8859-1)"/.test(head);
+
+  return new TextDecoder(isLatin1 ? 'windows-1252' : 'utf-8').decode(buffer);
+}
+
+export function parseOFX(content: string): ParsedOFX {
+  // Drop the header block (OFXHEADER:100 ... or <?xml ?><?OFX ?>)
+  const start = content.toUpperCase().indexOf('<OFX>');
+  if (start === -1) return { transactions: [], ledgerBalance: null };
+  const body = content.slice(start);
+
+  const transactions: ParsedOFXTransaction[] = [];
+  const blockPattern = /<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi;
+  let match;
+
+  while ((match = blockPattern.exec(body)) !== null) {
+    const block = match[1];
+
+    const amountStr = readTag(block, 'TRNAMT');
+    const dateStr = readTag(block, 'DTPOSTED');
+    if (!amountStr || !dateStr) continue;
+
+    const amount = parseOFXAmount(amountStr);
+    const date = parseOFXDate(dateStr);
+    if (amount === null || amount === 0 || !date) continue;
+
+    const description = (readTag(block, 'MEMO') || readTag(block, 'NAME') || '')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    transactions.push({
+      fitId: readTag(block, 'FITID') || '',
+      date,
+      description: (description || 'Lançamento OFX').substring(0, 100),
+      value: Math.abs(amount),
+      type: amount < 0 ? 'expense' : 'income',
+    });
+  }
+
+  return {
+    transactions,
+    ledgerBalance: parseLedgerBalance(body),
+  };
+}
+
+// Works for both SGML (<TAG>value, no closing tag) and XML (<TAG>value</TAG>)
+function readTag(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  if (!match) return null;
+  return decodeEntities(match[1].trim());
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function parseOFXAmount(value: string): number | null {
+  let normalized = value.replace(/\s/g, '');
+  // Some Brazilian banks export "-1.234,56" instead of "-1234.56"
+  if (normalized.includes(',')) {
+    normalized = normalized.replace(/\./g, '').replace(',', '.');
+  }
+  const amount = parseFloat(normalized);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+// DTPOSTED looks like 20240115, 20240115120000 or 20240115120000[-3:BRT]
+function parseOFXDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+function parseLedgerBalance(body: string): OFXLedgerBalance | null {
+  const match = body.match(/<LEDGERBAL>([\s\S]*?)(<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>)/i);
+  if (!match) return null;
+
+  const amountStr = readTag(match[1], 'BALAMT');
+  const amount = amountStr ? parseOFXAmount(amountStr) : null;
+  if (amount === null) return null;
+
+  const dateStr = readTag(match[1], 'DTASOF');
+  return {
+    amount,
+    date: dateStr ? parseOFXDate(dateStr) : null,
+  };
+}
+
+export function convertOFXToTransactions(
+  parsed: ParsedOFXTransaction[],
+  rules: CategorizationRule[] = []
+): Omit<Transaction, 'id' | 'createdAt'>[] {
+  return applyRules(parsed.map(row => ({
+    date: row.date,
+    description: row.description,
+    category: null,
+    value: row.value,
+    type: row.type,
+    status: 'completed' as const,
+    paymentMethod: null,
+    externalId: row.fitId || undefined,
+    isImported: true,
+    isReconciled: true,
+  })), rules);
+}
@@ -1,4 +1,5 @@
-import { Transaction, TransactionType } from '@/types/finance';
+import { Transaction, TransactionType, CategorizationRule } from '@/types/finance';
+import { applyRules } from '@/lib/categorizationRules';
 import * as pdfjsLib from 'pdfjs-dist';
 
 // Configure worker using Vite's URL import
@@ -313,12 +314,13 @@ function deduplicateTransactions(transactions: ParsedTransaction[]): ParsedTrans
 }
 
 export function convertPDFToTransactions(
-  parsed: ParsedTransaction[]
+  parsed: ParsedTransaction[],
+  rules: CategorizationRule[] = []
 ): Omit<Transaction, 'id' | 'createdAt'>[] {
   const today = new Date();
   today.setHours(0, 0, 0, 0);
   
-  return parsed.map(row => {
+  const rows = parsed.map(row => {
     // Check if date is in the future
     const transactionDate = new Date(row.date);
     const isDateInFuture = transactionDate > today;
@@ -343,4 +345,6 @@ export function convertPDFToTransactions(
       isReconciled: !isPending,
     };
   });
+
+  return applyRules(rows, rules);
 }
@@ -0,0 +1,193 @@
+import { onlyDigits } from '@/lib/cnpj';
+
+export interface ParsedPix {
+  key: string | null; // Dynamic codes point to a URL instead of carrying the key
+  url: string | null;
+  merchantName: string;
+  merchantCity: string;
+  amount: number | null; // null when the payer chooses the amount
+  txid: string | null;
+  description: string | null;
+}
+
+export type PixResult = { pix: ParsedPix; error?: undefined } | { pix?: undefined; error: string };
+
+export interface PixChargeData {
+  key: string;
+  merchantName: string;
+  merchantCity: string;
+  amount?: number | null;
+  txid?: string | null;
+  description?: string | null;
+}
+
+const PIX_GUI = 'br.gov.bcb.pix';
+const NO_TXID = '***';
+
+// EMV field ids used by the BR Code
+const ID = {
+  payloadFormat: '00',
+  initiationMethod: '01',
+  merchantAccount: '26',
+  categoryCode: '52',
+  currency: '53',
+  amount: '54',
+  country: '58',
+  merchantName: '59',
+  merchantCity: '60',
+  additionalData: '62',
+  crc: '63',
+} as const;
+
+// Sub-fields of the merchant account (26) and additional data (62) templates
+const SUB_ID = {
+  gui: '00',
+  key: '01',
+  description: '02',
+  url: '25',
+  txid: '05',
+} as const;
+
+// Every BR Code starts with the payload format indicator "01"
+export function isPixPayload(text: string): boolean {
+  return text.trim().startsWith('000201');
+}
+
+// CRC16-CCITT (polynomial 0x1021, initial 0xFFFF), as four uppercase hex digits
+export function crc16(payload: string): string {
+  let crc = 0xffff;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+/**
+ * Reads a PIX copia-e-cola payload. The CRC is checked over the whole text up
+ * to and including the "6304" that announces it.
+ */
+export function parsePix(input: string): PixResult {
+  const payload = input.trim();
+  if (!isPixPayload(payload)) return { error: 'O código não é um PIX copia e cola.' };
+
+  const fields = parseTLV(payload);
+  if (!fields) return { error: 'Código PIX malformado.' };
+
+  const crc = fields.get(ID.crc);
+  if (!crc || !payload.endsWith(`${ID.crc}04${crc}`)) {
+    return { error: 'Código PIX sem CRC.' };
+  }
+  if (crc16(payload.slice(0, -4)) !== crc.toUpperCase()) {
+    return { error: 'CRC do código PIX não confere. Verifique se o código foi copiado inteiro.' };
+  }
+
+  const account = parseTLV(fields.get(ID.merchantAccount) || '');
+  if (!account || account.get(SUB_ID.gui)?.toLowerCase() !== PIX_GUI) {
+    return { error: 'O código não contém uma conta PIX.' };
+  }
+
+  const key = account.get(SUB_ID.key) || null;
+  const url = account.get(SUB_ID.url) || null;
+  if (!key && !url) return { error: 'O código PIX não informa a chave do recebedor.' };
+
+  const amount = fields.has(ID.amount) ? parseFloat(fields.get(ID.amount)) : null;
+  if (amount !== null && !(amount > 0)) return { error: 'Valor do código PIX inválido.' };
+
+  const txid = parseTLV(fields.get(ID.additionalData) || '')?.get(SUB_ID.txid);
+  return {
+    pix: {
+      key,
+      url,
+      merchantName: fields.get(ID.merchantName) || '',
+      merchantCity: fields.get(ID.merchantCity) || '',
+      amount,
+      txid: txid && txid !== NO_TXID ? txid : null,
+      description: account.get(SUB_ID.description) || null,
+    },
+  };
+}
+
+/**
+ * Builds a static BR Code. Name and city are limited to 25 and 15 plain ASCII
+ * characters; the txid to 25 letters and digits.
+ */
+export function buildPixPayload(data: PixChargeData): string {
+  let account = emvField(SUB_ID.gui, PIX_GUI) + emvField(SUB_ID.key, normalizePixKey(data.key));
+  // The description only goes in if it fits the 99-character template; long keys leave no room
+  const descriptionLength = Math.max(0, 99 - account.length - 4);
+  const description = data.description && descriptionLength > 0 ? toEmvText(data.description, descriptionLength) : '';
+  if (description) account += emvField(SUB_ID.description, description);
+  const txid = (data.txid || '').replace(/[^A-Za-z0-9]/g, '').slice(0, 25) || NO_TXID;
+
+  const payload =
+    emvField(ID.payloadFormat, '01') +
+    emvField(ID.initiationMethod, '11') +
+    emvField(ID.merchantAccount, account) +
+    emvField(ID.categoryCode, '0000') +
+    emvField(ID.currency, '986') +
+    (data.amount ? emvField(ID.amount, data.amount.toFixed(2)) : '') +
+    emvField(ID.country, 'BR') +
+    emvField(ID.merchantName, toEmvText(data.merchantName, 25)) +
+    emvField(ID.merchantCity, toEmvText(data.merchantCity, 15)) +
+    emvField(ID.additionalData, emvField(SUB_ID.txid, txid)) +
+    `${ID.crc}04`;
+
+  return payload + crc16(payload);
+}
+
+/**
+ * Keys go into the code exactly as registered: masked CPF/CNPJ lose their
+ * punctuation, e-mails and random keys are lowercased, phones keep the +55.
+ */
+export function normalizePixKey(key: string): string {
+  const trimmed = key.trim();
+  if (trimmed.includes('@')) return trimmed.toLowerCase();
+  if (trimmed.startsWith('+')) return `+${onlyDigits(trimmed)}`;
+  if (/^[\d.\-/\s]+$/.test(trimmed)) return onlyDigits(trimmed);
+  return trimmed.toLowerCase();
+}
+
+export function isValidPixKey(key: string): boolean {
+  const normalized = normalizePixKey(key);
+  return (
+    /^\d{11}$|^\d{14}$/.test(normalized) || // CPF or CNPJ
+    /^\+55\d{10,11}$/.test(normalized) || // Phone
+    /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalized) || // E-mail
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/.test(normalized) // Random key
+  );
+}
+
+// Splits "IDLLvalue..." into a map; null when a length runs past the end
+function parseTLV(text: string): Map<string, string> | null {
+  const fields = new Map<string, string>();
+  let position = 0;
+  while (position < text.length) {
+    const id = text.slice(position, position + 2);
+    const length = Number(text.slice(position + 2, position + 4));
+    if (!/^\d{2}$/.test(id) || !Number.isInteger(length) || position + 4 + length > text.length) return null;
+    fields.set(id, text.slice(position + 4, position + 4 + length));
+    position += 4 + length;
+  }
+  return fields;
+}
+
+function emvField(id: string, value: string): string {
+  return id + String(value.length).padStart(2, '0') + value;
+}
+
+// Banks reject accents and symbols in name and city
+export function toEmvText(text: string, maxLength: number): string {
+  if (maxLength <= 0) return '';
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9 .,\-/]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, maxLength)
+    .trim();
+}
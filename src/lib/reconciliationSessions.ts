@@ -0,0 +1,15 @@
+import { ReconciliationSession } from '@/types/finance';
+
+export interface LockedPeriod {
+  start: string;
+  end: string;
+}
+
+// Closed sessions lock every transaction dated inside their period
+export function isDateLocked(periods: LockedPeriod[], date: string): boolean {
+  return periods.some(p => date >= p.start && date <= p.end);
+}
+
+export function hasOverlap(sessions: ReconciliationSession[], start: string, end: string, ignoreId?: string): boolean {
+  return sessions.some(s => s.id !== ignoreId && s.periodStart <= end && s.periodEnd >= start);
+}
@@ -0,0 +1,108 @@
+import { addDays, addMonths, addWeeks, addYears, format, isWeekend, parseISO } from 'date-fns';
+import { Transaction, RecurringTransaction, BusinessDayAdjustment } from '@/types/finance';
+
+// How far ahead pending occurrences are materialized
+export const RECURRING_HORIZON_DAYS = 60;
+
+// Fixed-date national holidays (MM-dd). Movable ones (Carnaval, Sexta-feira Santa,
+// Corpus Christi) are not considered.
+const NATIONAL_HOLIDAYS = new Set([
+  '01-01', '04-21', '05-01', '09-07', '10-12', '11-02', '11-15', '11-20', '12-25',
+]);
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export function isBusinessDay(date: Date): boolean {
+  return !isWeekend(date) && !NATIONAL_HOLIDAYS.has(format(date, 'MM-dd'));
+}
+
+export function adjustToBusinessDay(date: string, adjustment: BusinessDayAdjustment): string {
+  if (adjustment === 'none') return date;
+
+  let current = parseISO(date);
+  const step = adjustment === 'next' ? 1 : -1;
+  while (!isBusinessDay(current)) {
+    current = addDays(current, step);
+  }
+  return toDateString(current);
+}
+
+// Nth nominal occurrence, always computed from the start date so month-end dates don't drift
+function nthOccurrence(template: Pick<RecurringTransaction, 'frequency' | 'intervalDays'>, start: Date, n: number): Date {
+  switch (template.frequency) {
+    case 'weekly':
+      return addWeeks(start, n);
+    case 'yearly':
+      return addYears(start, n);
+    case 'custom_days':
+      return addDays(start, n * Math.max(1, template.intervalDays || 1));
+    default:
+      return addMonths(start, n);
+  }
+}
+
+/**
+ * Nominal occurrence dates (before business-day adjustment) strictly after
+ * `after` (or from the start date) up to and including `until`.
+ */
+export function getOccurrences(
+  template: Pick<RecurringTransaction, 'frequency' | 'intervalDays' | 'startDate' | 'endDate'>,
+  until: string,
+  after: string | null = null
+): string[] {
+  const start = parseISO(template.startDate);
+  const limit = template.endDate && template.endDate < until ? template.endDate : until;
+  const dates: string[] = [];
+
+  for (let n = 0; ; n++) {
+    const date = toDateString(nthOccurrence(template, start, n));
+    if (date > limit) break;
+    if (!after || date > after) dates.push(date);
+  }
+
+  return dates;
+}
+
+export function getNextOccurrence(template: RecurringTransaction, from: string): string | null {
+  const [next] = getOccurrences(template, toDateString(addYears(parseISO(from), 2)), from);
+  return next ? adjustToBusinessDay(next, template.businessDayAdjustment) : null;
+}
+
+/**
+ * Pending transactions still to be created for a template up to the horizon,
+ * plus the nominal date of the last one (to store as lastGeneratedDate).
+ */
+export function materializeOccurrences(
+  template: RecurringTransaction,
+  today: Date = new Date(),
+  horizonDays: number = RECURRING_HORIZON_DAYS
+): { transactions: Omit<Transaction, 'id' | 'createdAt'>[]; lastGeneratedDate: string | null } {
+  if (!template.isActive) return { transactions: [], lastGeneratedDate: template.lastGeneratedDate };
+
+  const until = toDateString(addDays(today, horizonDays));
+  // A new template with a past start date only produces occurrences from today on
+  const after = template.lastGeneratedDate ?? toDateString(addDays(today, -1));
+  const dates = getOccurrences(template, until, after);
+
+  const transactions = dates.map(nominal => {
+    const dueDate = adjustToBusinessDay(nominal, template.businessDayAdjustment);
+    return {
+      date: dueDate,
+      dueDate,
+      description: template.description,
+      category: template.category,
+      value: template.value,
+      type: template.type,
+      status: 'pending' as const,
+      paymentMethod: template.paymentMethod,
+      recurringId: template.id,
+      isImported: false,
+      isReconciled: false,
+    };
+  });
+
+  return {
+    transactions,
+    lastGeneratedDate: dates.length > 0 ? dates[dates.length - 1] : template.lastGeneratedDate,
+  };
+}
@@ -0,0 +1,23 @@
+import { Transaction } from '@/types/finance';
+
+export type ReportingRegime = 'cash' | 'accrual';
+
+export const REPORTING_REGIMES: { value: ReportingRegime; label: string }[] = [
+  { value: 'cash', label: 'Caixa' },
+  { value: 'accrual', label: 'Competência' },
+];
+
+// Date a transaction is reported on: its own date on a cash basis, the
+// competence date (when set) on an accrual basis
+export function getReportDate(
+  transaction: Pick<Transaction, 'date' | 'competenceDate'>,
+  regime: ReportingRegime
+): string {
+  return regime === 'accrual' ? transaction.competenceDate || transaction.date : transaction.date;
+}
+
+// Cash reports only count what was paid or received; accrual reports also
+// count pending entries, in the period of their competence
+export function isReported(transaction: Pick<Transaction, 'status'>, regime: ReportingRegime): boolean {
+  return regime === 'accrual' || transaction.status === 'completed';
+}
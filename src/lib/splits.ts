@@ -0,0 +1,37 @@
+import { Transaction, TransactionSplit } from '@/types/finance';
+
+// Differences below half a cent come from rounding and are ignored
+const SPLIT_TOLERANCE = 0.005;
+
+export function isSplit(transaction: Pick<Transaction, 'splits'>): boolean {
+  return (transaction.splits?.length ?? 0) > 0;
+}
+
+export function getSplitTotal(splits: TransactionSplit[]): number {
+  return splits.reduce((sum, s) => sum + s.value, 0);
+}
+
+// Amount still to be allocated; negative when the lines exceed the total
+export function getSplitRemainder(splits: TransactionSplit[], total: number): number {
+  const remainder = total - getSplitTotal(splits);
+  return Math.abs(remainder) < SPLIT_TOLERANCE ? 0 : remainder;
+}
+
+export function isSplitBalanced(splits: TransactionSplit[], total: number): boolean {
+  return splits.length >= 2 && splits.every(s => s.value > 0) && getSplitRemainder(splits, total) === 0;
+}
+
+// The largest line's category is stored on the transaction itself, so views
+// that don't read the lines still show a sensible category
+export function getPrimarySplitCategory(splits: TransactionSplit[]): string | null {
+  if (splits.length === 0) return null;
+  return splits.reduce((largest, s) => (s.value > largest.value ? s : largest)).category;
+}
+
+// One entry per split line (or the transaction itself when it isn't split),
+// for reports that aggregate values by category
+export function expandSplits<T extends Pick<Transaction, 'category' | 'value' | 'splits'>>(transactions: T[]): T[] {
+  return transactions.flatMap(t =>
+    isSplit(t) ? t.splits!.map(s => ({ ...t, category: s.category, value: s.value })) : [t]
+  );
+}
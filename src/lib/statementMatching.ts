@@ -0,0 +1,104 @@
+import { Transaction, TransactionType } from '@/types/finance';
+import { descriptionSimilarity } from '@/lib/duplicateDetection';
+
+export interface StatementLine {
+  id: string;
+  date: string;
+  description: string;
+  value: number;
+  type: TransactionType;
+  fitId?: string;
+}
+
+export interface StatementMatch {
+  lineId: string;
+  transactionId: string;
+  score: number; // 0..1, 1 = same bank identifier or manual match
+  manual?: boolean;
+}
+
+const DEFAULT_DAY_WINDOW = 3;
+
+// Weight of description similarity against date proximity in the score
+const DESCRIPTION_WEIGHT = 0.6;
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) / 86400000;
+}
+
+export function toStatementLines(
+  rows: { date: string; description: string; value: number; type: TransactionType; fitId?: string }[]
+): StatementLine[] {
+  return rows.map((row, index) => ({ ...row, id: row.fitId ? `fit:${row.fitId}` : `line:${index}` }));
+}
+
+// Period covered by the statement, widened by the matching window
+export function getStatementRange(lines: StatementLine[], dayWindow: number = DEFAULT_DAY_WINDOW) {
+  if (lines.length === 0) return null;
+  const dates = lines.map(l => l.date).sort();
+  const shift = (date: string, days: number) =>
+    new Date(new Date(date).getTime() + days * 86400000).toISOString().slice(0, 10);
+  return { start: shift(dates[0], -dayWindow), end: shift(dates[dates.length - 1], dayWindow) };
+}
+
+/**
+ * Pairs statement lines with transactions of the same type and value within
+ * the date window. Bank identifiers (FITID) win outright; the remaining
+ * candidates are scored by description similarity and date proximity and
+ * assigned best-first, so each side is used at most once.
+ */
+export function matchStatement(
+  lines: StatementLine[],
+  transactions: Transaction[],
+  dayWindow: number = DEFAULT_DAY_WINDOW
+): StatementMatch[] {
+  const matches: StatementMatch[] = [];
+  const usedLines = new Set<string>();
+  const usedTransactions = new Set<string>();
+
+  const byExternalId = new Map<string, Transaction>();
+  transactions.forEach(t => {
+    if (t.externalId) byExternalId.set(t.externalId, t);
+  });
+
+  lines.forEach(line => {
+    const match = line.fitId ? byExternalId.get(line.fitId) : undefined;
+    if (match && !usedTransactions.has(match.id)) {
+      matches.push({ lineId: line.id, transactionId: match.id, score: 1 });
+      usedLines.add(line.id);
+      usedTransactions.add(match.id);
+    }
+  });
+
+  const candidates: StatementMatch[] = [];
+  lines.forEach(line => {
+    if (usedLines.has(line.id)) return;
+    transactions.forEach(t => {
+      if (usedTransactions.has(t.id)) return;
+      if (t.type !== line.type) return;
+      if (Math.abs(t.value - line.value) >= 0.005) return;
+
+      const days = daysBetween(t.date, line.date);
+      if (days > dayWindow) return;
+
+      const similarity = descriptionSimilarity(t.description, line.description);
+      const proximity = 1 - days / (dayWindow + 1);
+      candidates.push({
+        lineId: line.id,
+        transactionId: t.id,
+        score: similarity * DESCRIPTION_WEIGHT + proximity * (1 - DESCRIPTION_WEIGHT),
+      });
+    });
+  });
+
+  candidates
+    .sort((a, b) => b.score - a.score)
+    .forEach(candidate => {
+      if (usedLines.has(candidate.lineId) || usedTransactions.has(candidate.transactionId)) return;
+      matches.push(candidate);
+      usedLines.add(candidate.lineId);
+      usedTransactions.add(candidate.transactionId);
+    });
+
+  return matches;
+}
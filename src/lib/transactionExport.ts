@@ -0,0 +1,205 @@
+import { format, parseISO } from 'date-fns';
+import type { Cell, Row, SheetData } from 'write-excel-file/browser';
+import { Category, PAYMENT_METHODS, Transaction } from '@/types/finance';
+import { getCategoryLabel } from '@/lib/categoryTree';
+import { getReportDate, ReportingRegime } from '@/lib/reporting';
+
+export type ExportColumn =
+  | 'date'
+  | 'competenceDate'
+  | 'dueDate'
+  | 'description'
+  | 'category'
+  | 'type'
+  | 'status'
+  | 'paymentMethod'
+  | 'value';
+
+export type CsvDelimiter = ';' | ',' | '\t';
+
+export type CsvEncoding = 'utf-8' | 'utf-8-bom' | 'windows-1252';
+
+export const EXPORT_COLUMNS: { value: ExportColumn; label: string; width: number }[] = [
+  { value: 'date', label: 'Data', width: 12 },
+  { value: 'competenceDate', label: 'Competência', width: 12 },
+  { value: 'dueDate', label: 'Vencimento', width: 12 },
+  { value: 'description', label: 'Descrição', width: 40 },
+  { value: 'category', label: 'Categoria', width: 24 },
+  { value: 'type', label: 'Tipo', width: 10 },
+  { value: 'status', label: 'Status', width: 12 },
+  { value: 'paymentMethod', label: 'Forma de pagamento', width: 18 },
+  { value: 'value', label: 'Valor', width: 16 },
+];
+
+export const CSV_DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ';', label: 'Ponto e vírgula (;)' },
+  { value: ',', label: 'Vírgula (,)' },
+  { value: '\t', label: 'Tabulação' },
+];
+
+export const CSV_ENCODINGS: { value: CsvEncoding; label: string }[] = [
+  { value: 'utf-8-bom', label: 'UTF-8 com BOM (Excel)' },
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Windows-1252 (ANSI)' },
+];
+
+const CURRENCY_FORMAT = '"R$" #,##0.00;[Red]-"R$" #,##0.00';
+
+// Expenses are exported as negative values so the column sums to the balance
+const signedValue = (t: Transaction) => (t.type === 'income' ? t.value : -t.value);
+
+function getTextValue(t: Transaction, column: ExportColumn, categories: Category[]): string {
+  switch (column) {
+    case 'description':
+      return t.description;
+    case 'category':
+      return t.category ? getCategoryLabel(categories, t.category) : '';
+    case 'type':
+      return t.type === 'income' ? 'Entrada' : 'Saída';
+    case 'status':
+      return t.status === 'completed' ? 'Realizado' : 'Pendente';
+    case 'paymentMethod':
+      return PAYMENT_METHODS.find(m => m.value === t.paymentMethod)?.label || '';
+    default:
+      return '';
+  }
+}
+
+function getDateValue(t: Transaction, column: ExportColumn): string | null {
+  if (column === 'date') return t.date;
+  if (column === 'competenceDate') return t.competenceDate || t.date;
+  if (column === 'dueDate') return t.dueDate || null;
+  return null;
+}
+
+const isDateColumn = (column: ExportColumn) =>
+  column === 'date' || column === 'competenceDate' || column === 'dueDate';
+
+// Rows follow the date that drives the reports in the selected regime
+export function sortForExport(transactions: Transaction[], regime: ReportingRegime): Transaction[] {
+  return [...transactions].sort((a, b) => getReportDate(a, regime).localeCompare(getReportDate(b, regime)));
+}
+
+export function getExportTotals(transactions: Transaction[]) {
+  const income = transactions.filter(t => t.type === 'income').reduce((sum, t) => sum + t.value, 0);
+  const expense = transactions.filter(t => t.type === 'expense').reduce((sum, t) => sum + t.value, 0);
+  return { income, expense, balance: income - expense };
+}
+
+/**
+ * Sheet with typed cells: dates are real dates and values are numbers in
+ * BRL format, followed by income, expense and balance totals.
+ */
+export function buildXlsxSheet(
+  transactions: Transaction[],
+  columns: ExportColumn[],
+  categories: Category[]
+): SheetData {
+  const header: Row = columns.map(column => ({
+    value: EXPORT_COLUMNS.find(c => c.value === column)?.label,
+    fontWeight: 'bold',
+  }));
+
+  const rows: Row[] = transactions.map(t =>
+    columns.map((column): Cell => {
+      if (isDateColumn(column)) {
+        const date = getDateValue(t, column);
+        // Dates are written as UTC midnight, which Excel reads as the plain day
+        return date ? { value: new Date(date), type: Date, format: 'dd/mm/yyyy' } : null;
+      }
+      if (column === 'value') {
+        return { value: signedValue(t), type: Number, format: CURRENCY_FORMAT };
+      }
+      return { value: getTextValue(t, column, categories), type: String };
+    })
+  );
+
+  const valueIndex = columns.indexOf('value');
+  if (valueIndex === -1) return [header, ...rows];
+
+  // Totals go under the value column, labelled in the column before it
+  const { income, expense, balance } = getExportTotals(transactions);
+  const totalRow = (label: string, value: number): Row =>
+    columns.map((_, index): Cell => {
+      if (index === valueIndex) return { value, type: Number, format: CURRENCY_FORMAT, fontWeight: 'bold' };
+      if (index === valueIndex - 1) return { value: label, fontWeight: 'bold' };
+      return null;
+    });
+
+  return [
+    header,
+    ...rows,
+    [],
+    totalRow('Total de entradas', income),
+    totalRow('Total de saídas', -expense),
+    totalRow('Saldo', balance),
+  ];
+}
+
+function escapeCsv(value: string, delimiter: CsvDelimiter): string {
+  return /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * CSV text. With ';' or tab the decimal separator is a comma, as Brazilian
+ * spreadsheets expect; with ',' it's a dot so values stay in one column.
+ */
+export function buildCsv(
+  transactions: Transaction[],
+  columns: ExportColumn[],
+  categories: Category[],
+  delimiter: CsvDelimiter
+): string {
+  const formatNumber = (value: number) =>
+    delimiter === ',' ? value.toFixed(2) : value.toFixed(2).replace('.', ',');
+
+  const header = columns.map(column => EXPORT_COLUMNS.find(c => c.value === column)?.label || column);
+  const rows = transactions.map(t =>
+    columns.map(column => {
+      if (isDateColumn(column)) {
+        const date = getDateValue(t, column);
+        return date ? format(parseISO(date), 'dd/MM/yyyy') : '';
+      }
+      if (column === 'value') return formatNumber(signedValue(t));
+      return escapeCsv(getTextValue(t, column, categories), delimiter);
+    })
+  );
+
+  return [header, ...rows].map(row => row.join(delimiter)).join('\r\n');
+}
+
+// Windows-1252 characters outside Latin-1 (0x80–0x9F range)
+const WINDOWS_1252_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+// TextEncoder only writes UTF-8, so the legacy encoding is done by hand
+function encodeWindows1252(content: string): Uint8Array {
+  const bytes = new Uint8Array(content.length);
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    const code = char.charCodeAt(0);
+    bytes[i] = code < 0x80 || (code >= 0xa0 && code <= 0xff) ? code : WINDOWS_1252_EXTRAS[char] ?? 0x3f;
+  }
+  return bytes;
+}
+
+export function encodeCsv(content: string, encoding: CsvEncoding): Blob {
+  if (encoding === 'windows-1252') {
+    return new Blob([encodeWindows1252(content)], { type: 'text/csv;charset=windows-1252' });
+  }
+  const prefix = encoding === 'utf-8-bom' ? '\uFEFF' : '';
+  return new Blob([prefix + content], { type: 'text/csv;charset=utf-8' });
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,10 @@
+import { Transaction } from '@/types/finance';
+
+// Transfer legs move balances between accounts but are neither income nor expense
+export function isTransfer(transaction: Pick<Transaction, 'transferId'>): boolean {
+  return !!transaction.transferId;
+}
+
+export function excludeTransfers<T extends Pick<Transaction, 'transferId'>>(transactions: T[]): T[] {
+  return transactions.filter(t => !isTransfer(t));
+}
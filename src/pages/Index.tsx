@@ -11,21 +11,50 @@ import {
   Settings,
   Info,
   ArrowUpDown,
+  History,
+  Repeat,
+  ArrowLeftRight,
+  Target,
+  Download,
 } from 'lucide-react';
 import { useTransactions } from '@/hooks/useTransactions';
+import { useCategorizationRules } from '@/hooks/useCategorizationRules';
+import { useRecurringTransactions } from '@/hooks/useRecurringTransactions';
+import { useBudgets } from '@/hooks/useBudgets';
+import { useDreMappings } from '@/hooks/useDreMappings';
+import { useReconciliationSessions } from '@/hooks/useReconciliationSessions';
+import { applyRules } from '@/lib/categorizationRules';
+import { getCategorySuggestions } from '@/lib/categorySuggestions';
+import { excludeTransfers, isTransfer } from '@/lib/transfers';
+import { isSplit } from '@/lib/splits';
+import { isMissingReceipt } from '@/lib/attachments';
+import { getBudgetProgress, toBudgetMonth } from '@/lib/budgets';
+import { getReportDate, isReported } from '@/lib/reporting';
 import { Header } from '@/components/Header';
 import { StatCard } from '@/components/StatCard';
 import { TransactionList } from '@/components/TransactionList';
 import { TransactionForm } from '@/components/TransactionForm';
 import { EditTransactionForm } from '@/components/EditTransactionForm';
-import { ImportDialog } from '@/components/ImportDialog';
+import { ImportDialog, ImportSummary } from '@/components/ImportDialog';
 import { Charts } from '@/components/Charts';
 import { AdvancedCharts } from '@/components/AdvancedCharts';
 import { Filters, FilterState } from '@/components/Filters';
 import { ReconciliationTool } from '@/components/ReconciliationTool';
 import { CategoryManager } from '@/components/CategoryManager';
+import { ImportHistory } from '@/components/ImportHistory';
+import { RecurringManager } from '@/components/RecurringManager';
+import { InstallmentGroupDialog } from '@/components/InstallmentGroupDialog';
+import { TransferForm } from '@/components/TransferForm';
+import { ConsolidatedDashboard } from '@/components/ConsolidatedDashboard';
+import { BudgetPanel } from '@/components/BudgetPanel';
+import { DREReport } from '@/components/DREReport';
+import { MonthlyReportPanel } from '@/components/MonthlyReportPanel';
+import { AccountingExportPanel } from '@/components/AccountingExportPanel';
+import { ExportDialog } from '@/components/ExportDialog';
+import { useAccounts } from '@/contexts/AccountContext';
+import { useReporting } from '@/contexts/ReportingContext';
 import { useToast } from '@/hooks/use-toast';
-import { Transaction } from '@/types/finance';
+import { Transaction, TransactionAttachment } from '@/types/finance';
 import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
 import { Input } from '@/components/ui/input';
@@ -68,15 +97,46 @@ const Index = () => {
     updateCategory,
     deleteCategory,
     addTransaction,
+    addTransactions,
     updateTransaction,
     deleteTransaction,
+    createTransfer,
+    addAttachments,
+    deleteAttachment,
+    getAttachmentUrl,
+    updateInstallmentGroup,
+    cancelInstallments,
     importTransactions,
+    importBatches,
+    deleteImportBatch,
     updateInitialBalance,
     stats,
     uncategorizedCount,
     isLoaded,
+    refreshTransactions,
+    isPeriodLocked,
+    refreshLockedPeriods,
   } = useTransactions();
 
+  const { rules, addRule, updateRule, deleteRule } = useCategorizationRules(categories);
+  const {
+    templates: recurringTemplates,
+    addTemplate: addRecurringTemplate,
+    updateTemplate: updateRecurringTemplate,
+    deleteTemplate: deleteRecurringTemplate,
+  } = useRecurringTransactions(categories, isLoaded, addTransactions, refreshTransactions);
+  const { budgets, setBudget, deleteBudget, copyFromPreviousMonth } = useBudgets(categories);
+  const { mappings: dreMappings, setMapping: setDreMapping } = useDreMappings(categories);
+  const {
+    sessions: reconciliationSessions,
+    createSession: createReconciliationSession,
+    updateBankBalance: updateSessionBankBalance,
+    setVerified: setSessionVerified,
+    closeSession: closeReconciliationSession,
+    reopenSession: reopenReconciliationSession,
+    deleteSession: deleteReconciliationSession,
+  } = useReconciliationSessions();
+
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState('dashboard');
   const [showTransactionForm, setShowTransactionForm] = useState(false);
@@ -89,6 +149,7 @@ const Index = () => {
     status: 'all',
     category: 'all',
     onlyUncategorized: false,
+    missingReceiptAbove: null,
   });
 
   // Dashboard period state
@@ -100,6 +161,13 @@ const Index = () => {
   const [showReconciliation, setShowReconciliation] = useState(false);
   const [customEndDate, setCustomEndDate] = useState<Date | undefined>(undefined);
   const [showCategoryManager, setShowCategoryManager] = useState(false);
+  const [showImportHistory, setShowImportHistory] = useState(false);
+  const [showRecurringManager, setShowRecurringManager] = useState(false);
+  const [installmentGroupId, setInstallmentGroupId] = useState<string | null>(null);
+  const [showTransferForm, setShowTransferForm] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const { accounts } = useAccounts();
+  const { regime } = useReporting();
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
@@ -133,18 +201,20 @@ const Index = () => {
     const { start, end } = dashboardDateRange;
     
     const filteredTx = transactions.filter((t) => {
-      if (start && new Date(t.date) < start) return false;
-      if (end && new Date(t.date) > end) return false;
+      const reportDate = new Date(getReportDate(t, regime));
+      if (start && reportDate < start) return false;
+      if (end && reportDate > end) return false;
       return true;
     });
 
-    const completed = filteredTx.filter((t) => t.status === 'completed');
+    // Transfers only move money between accounts; they stay in the balance below
+    const reported = excludeTransfers(filteredTx).filter((t) => isReported(t, regime));
 
-    const totalIncome = completed
+    const totalIncome = reported
       .filter((t) => t.type === 'income')
       .reduce((sum, t) => sum + t.value, 0);
 
-    const totalExpense = completed
+    const totalExpense = reported
       .filter((t) => t.type === 'expense')
       .reduce((sum, t) => sum + t.value, 0);
 
@@ -176,7 +246,7 @@ const Index = () => {
       toPay,
       projectedBalance: initialBalance + allTimeIncome - allTimeExpense + toReceive - toPay,
     };
-  }, [transactions, dashboardDateRange, initialBalance]);
+  }, [transactions, dashboardDateRange, initialBalance, regime]);
 
   const filteredTransactions = useMemo(() => {
     return transactions.filter((t) => {
@@ -185,7 +255,8 @@ const Index = () => {
       if (filters.type !== 'all' && t.type !== filters.type) return false;
       if (filters.status !== 'all' && t.status !== filters.status) return false;
       if (filters.category !== 'all' && t.category !== filters.category) return false;
-      if (filters.onlyUncategorized && t.category) return false;
+      if (filters.onlyUncategorized && (t.category || isTransfer(t) || isSplit(t))) return false;
+      if (filters.missingReceiptAbove !== null && !isMissingReceipt(t, filters.missingReceiptAbove)) return false;
       return true;
     });
   }, [transactions, filters]);
@@ -194,54 +265,263 @@ const Index = () => {
   const dashboardTransactions = useMemo(() => {
     const { start, end } = dashboardDateRange;
     return transactions.filter((t) => {
-      if (start && new Date(t.date) < start) return false;
-      if (end && new Date(t.date) > end) return false;
+      const reportDate = new Date(getReportDate(t, regime));
+      if (start && reportDate < start) return false;
+      if (end && reportDate > end) return false;
       return true;
     });
-  }, [transactions, dashboardDateRange]);
+  }, [transactions, dashboardDateRange, regime]);
 
-  const handleImport = async (imported: Parameters<typeof importTransactions>[0]) => {
-    const count = await importTransactions(imported);
+  const handleImport = async (imported: Parameters<typeof importTransactions>[0], summary: ImportSummary) => {
+    const count = await importTransactions(imported, { fileName: summary.fileName, format: summary.format });
+    const duplicatesNote = summary.duplicatesFound === 0
+      ? ''
+      : summary.duplicatesSkipped
+        ? ` ${summary.duplicatesFound} possível(is) duplicata(s) ignorada(s).`
+        : ` ${summary.duplicatesFound} possível(is) duplicata(s) importada(s) mesmo assim.`;
     toast({
       title: 'Importação concluída!',
-      description: `${count} lançamentos foram importados. Categorize os itens pendentes.`,
+      description: `${count} lançamentos foram importados.${duplicatesNote} Categorize os itens pendentes.`,
     });
     return count;
   };
 
+  // Re-run the rules over existing rows that are still uncategorized
+  const handleApplyRules = async () => {
+    const uncategorized = excludeTransfers(transactions).filter((t) => !t.category && !isSplit(t));
+    const updated = applyRules(uncategorized, rules);
+    const changed = updated.filter((t, i) =>
+      t.category !== uncategorized[i].category ||
+      t.paymentMethod !== uncategorized[i].paymentMethod ||
+      t.type !== uncategorized[i].type
+    );
+
+    await Promise.all(changed.map((t) => updateTransaction(t.id, {
+      category: t.category,
+      paymentMethod: t.paymentMethod,
+      type: t.type,
+    })));
+    toast({
+      title: 'Regras aplicadas',
+      description: `${changed.length} lançamento(s) foram atualizados pelas regras.`,
+    });
+    return changed.length;
+  };
+
+  const categorySuggestions = useMemo(() => getCategorySuggestions(transactions), [transactions]);
+
+  // Current month categories at or above the warning threshold
+  const budgetAlerts = useMemo(
+    () => getBudgetProgress(budgets, transactions, toBudgetMonth(new Date()), regime).filter((p) => p.status !== 'ok'),
+    [budgets, transactions, regime]
+  );
+  const overBudget = budgetAlerts.filter((p) => p.status === 'over');
+  const nearBudget = budgetAlerts.filter((p) => p.status === 'warning');
+
+  const handleAcceptSuggestions = async (items: { id: string; category: string }[]) => {
+    await Promise.all(items.map(({ id, category }) => updateTransaction(id, { category })));
+    toast({
+      title: 'Sugestões aceitas!',
+      description: `${items.length} lançamento(s) foram categorizados.`,
+    });
+  };
+
+  const handleDeleteCategory = async (id: string, childStrategy: Parameters<typeof deleteCategory>[1]) => {
+    const success = await deleteCategory(id, childStrategy);
+    if (!success) {
+      const category = categories.find((c) => c.id === id);
+      const locked = transactions.some((t) => t.category === category?.name && isPeriodLocked(t.date));
+      toast({
+        title: 'Erro ao excluir categoria',
+        description: locked
+          ? 'A categoria é usada em um período de conciliação fechado. Reabra o período para excluí-la.'
+          : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+    return success;
+  };
+
+  const handleDeleteImportBatch = async (id: string) => {
+    const success = await deleteImportBatch(id);
+    const locked = transactions.some((t) => t.importBatchId === id && isPeriodLocked(t.date));
+    toast({
+      title: success ? 'Importação desfeita' : 'Erro ao desfazer importação',
+      description: success
+        ? 'Os lançamentos da importação foram removidos.'
+        : locked
+          ? 'A importação tem lançamentos em um período de conciliação fechado. Reabra o período para desfazê-la.'
+          : 'Não foi possível remover os lançamentos. Tente novamente.',
+      variant: success ? 'default' : 'destructive',
+    });
+    return success;
+  };
+
+  const handleCreateTransfer = async (transfer: Parameters<typeof createTransfer>[0]) => {
+    const success = await createTransfer(transfer);
+    toast({
+      title: success ? 'Transferência registrada!' : 'Erro ao registrar transferência',
+      description: success
+        ? 'A saída e a entrada foram lançadas nas duas contas.'
+        : 'Nenhum lançamento foi criado. Tente novamente.',
+      variant: success ? 'default' : 'destructive',
+    });
+    return success;
+  };
+
+  const lockedInstallmentsDescription = 'Há parcelas pendentes em um período de conciliação fechado. Reabra o período para alterá-las.';
+  const groupTouchesLockedPeriod = (groupId: string) =>
+    transactions.some((t) => t.installmentGroupId === groupId && t.status === 'pending' && isPeriodLocked(t.date));
+
+  const handleUpdateInstallmentGroup = async (
+    groupId: string,
+    updates: Parameters<typeof updateInstallmentGroup>[1]
+  ) => {
+    const success = await updateInstallmentGroup(groupId, updates);
+    toast({
+      title: success ? 'Parcelas atualizadas!' : 'Erro ao atualizar parcelas',
+      description: success
+        ? 'As parcelas pendentes foram alteradas.'
+        : groupTouchesLockedPeriod(groupId) ? lockedInstallmentsDescription : 'Não foi possível salvar as alterações. Tente novamente.',
+      variant: success ? 'default' : 'destructive',
+    });
+    return success;
+  };
+
+  const handleCancelInstallments = async (groupId: string) => {
+    const success = await cancelInstallments(groupId);
+    toast({
+      title: success ? 'Parcelas canceladas' : 'Erro ao cancelar parcelas',
+      description: success
+        ? 'As parcelas pendentes foram removidas.'
+        : groupTouchesLockedPeriod(groupId) ? lockedInstallmentsDescription : 'Não foi possível remover as parcelas. Tente novamente.',
+      variant: success ? 'default' : 'destructive',
+    });
+    return success;
+  };
+
+  // Transactions in a closed reconciliation period can't change until it is reopened
+  const lockedDescription = 'O lançamento está em um período de conciliação fechado. Reabra o período para alterá-lo.';
+  const touchesLockedPeriod = (id: string, date?: string) => {
+    const transaction = transactions.find((t) => t.id === id);
+    return (!!transaction && isPeriodLocked(transaction.date)) || (!!date && isPeriodLocked(date));
+  };
+
+  const handleUpdate = async (id: string, updates: Partial<Transaction>) => {
+    const success = await updateTransaction(id, updates);
+    if (!success) {
+      toast({
+        title: 'Erro ao atualizar lançamento',
+        description: touchesLockedPeriod(id, updates.date) ? lockedDescription : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const uploadAttachments = async (transactionId: string, files: File[]) => {
+    if (files.length === 0) return;
+    const added = await addAttachments(transactionId, files);
+    if (added.length < files.length) {
+      toast({
+        title: 'Erro ao anexar comprovantes',
+        description: `${files.length - added.length} arquivo(s) não foram enviados. Tente novamente.`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDeleteAttachment = async (attachment: TransactionAttachment) => {
+    const success = await deleteAttachment(attachment);
+    if (!success) {
+      toast({
+        title: 'Erro ao excluir comprovante',
+        description: 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleDelete = async (id: string) => {
-    await deleteTransaction(id);
+    const success = await deleteTransaction(id);
     toast({
-      title: 'Lançamento excluído',
-      description: 'O lançamento foi removido com sucesso.',
+      title: success ? 'Lançamento excluído' : 'Erro ao excluir lançamento',
+      description: success
+        ? 'O lançamento foi removido com sucesso.'
+        : touchesLockedPeriod(id) ? lockedDescription : 'Tente novamente.',
+      variant: success ? 'default' : 'destructive',
     });
   };
 
   const handleBulkUpdate = async (ids: string[], updates: Partial<Transaction>) => {
-    await Promise.all(ids.map((id) => updateTransaction(id, updates)));
+    const results = await Promise.all(ids.map((id) => updateTransaction(id, updates)));
+    const failed = results.filter((success) => !success).length;
     toast({
       title: 'Lançamentos atualizados!',
-      description: `${ids.length} lançamento(s) foram atualizados.`,
+      description: failed === 0
+        ? `${ids.length} lançamento(s) foram atualizados.`
+        : `${ids.length - failed} lançamento(s) foram atualizados; ${failed} não puderam ser alterados (período fechado ou erro).`,
+      variant: failed === 0 ? 'default' : 'destructive',
     });
   };
 
   const handleBulkDelete = async (ids: string[]) => {
-    await Promise.all(ids.map((id) => deleteTransaction(id)));
+    const results = await Promise.all(ids.map((id) => deleteTransaction(id)));
+    const failed = results.filter((success) => !success).length;
     toast({
       title: 'Lançamentos excluídos',
-      description: `${ids.length} lançamento(s) foram removidos.`,
+      description: failed === 0
+        ? `${ids.length} lançamento(s) foram removidos.`
+        : `${ids.length - failed} lançamento(s) foram removidos; ${failed} não puderam ser excluídos (período fechado ou erro).`,
+      variant: failed === 0 ? 'default' : 'destructive',
     });
   };
 
+  // Closing marks the verified transactions as reconciled, so both lists are reloaded
+  const handleCloseReconciliation = async (id: string) => {
+    const success = await closeReconciliationSession(id);
+    if (success) await Promise.all([refreshTransactions(), refreshLockedPeriods()]);
+    toast({
+      title: success ? 'Período fechado' : 'Erro ao fechar período',
+      description: success
+        ? 'Os lançamentos do período foram travados.'
+        : 'Verifique se o período não se sobrepõe a outro já fechado e tente novamente.',
+      variant: success ? 'default' : 'destructive',
+    });
+    return success;
+  };
+
+  const handleReopenReconciliation = async (id: string) => {
+    const success = await reopenReconciliationSession(id);
+    if (success) await refreshLockedPeriods();
+    toast({
+      title: success ? 'Período reaberto' : 'Erro ao reabrir período',
+      description: success
+        ? 'Os lançamentos do período podem ser alterados novamente.'
+        : 'Tente novamente.',
+      variant: success ? 'default' : 'destructive',
+    });
+    return success;
+  };
+
   const handleEdit = (transaction: Transaction) => {
     setEditingTransaction(transaction);
   };
 
-  const handleEditSubmit = async (id: string, updates: Partial<Transaction>) => {
-    await updateTransaction(id, updates);
+  const handleEditSubmit = async (
+    id: string,
+    updates: Partial<Transaction>,
+    attachments: { added: File[]; removed: TransactionAttachment[] }
+  ) => {
+    const success = await updateTransaction(id, updates);
+    // Receipts don't change values, so they're saved even when the period is closed
+    await Promise.all(attachments.removed.map(handleDeleteAttachment));
+    await uploadAttachments(id, attachments.added);
     toast({
-      title: 'Lançamento atualizado!',
-      description: 'As alterações foram salvas com sucesso.',
+      title: success ? 'Lançamento atualizado!' : 'Erro ao atualizar lançamento',
+      description: success
+        ? 'As alterações foram salvas com sucesso.'
+        : touchesLockedPeriod(id, updates.date) ? lockedDescription : 'Tente novamente.',
+      variant: success ? 'default' : 'destructive',
     });
   };
 
@@ -378,6 +658,32 @@ const Index = () => {
               </div>
             )}
 
+            {/* Alert for budgets */}
+            {budgetAlerts.length > 0 && (
+              <div
+                className={cn(
+                  'flex items-start gap-2 p-3 sm:p-4 rounded-xl border animate-fade-in',
+                  overBudget.length > 0 ? 'bg-expense-muted border-expense/30' : 'bg-warning-muted border-warning/30'
+                )}
+              >
+                <Target className={cn('h-4 w-4 sm:h-5 sm:w-5 flex-shrink-0 mt-0.5', overBudget.length > 0 ? 'text-expense' : 'text-warning')} />
+                <div className="min-w-0 space-y-0.5 text-xs sm:text-sm">
+                  {overBudget.length > 0 && (
+                    <p>
+                      <span className="font-medium">Orçamento estourado:</span>{' '}
+                      {overBudget.map((p) => `${p.budget.category} (${Math.round(p.ratio * 100)}%)`).join(', ')}
+                    </p>
+                  )}
+                  {nearBudget.length > 0 && (
+                    <p>
+                      <span className="font-medium">Acima de 80% do orçamento:</span>{' '}
+                      {nearBudget.map((p) => `${p.budget.category} (${Math.round(p.ratio * 100)}%)`).join(', ')}
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Stats Cards */}
             <div className="grid grid-cols-2 gap-2 sm:gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6">
               <div className="relative">
@@ -483,6 +789,16 @@ const Index = () => {
             {/* Quick Charts */}
             <Charts transactions={dashboardTransactions} categories={categories} />
 
+            {/* Budgets */}
+            <BudgetPanel
+              budgets={budgets}
+              categories={categories}
+              transactions={transactions}
+              onSetBudget={setBudget}
+              onDeleteBudget={deleteBudget}
+              onCopyFromPreviousMonth={copyFromPreviousMonth}
+            />
+
             {/* Recent Transactions */}
             <div className="bg-card rounded-xl p-5 shadow-card">
               <div className="flex items-center justify-between mb-4">
@@ -497,11 +813,16 @@ const Index = () => {
               <TransactionList
                 transactions={transactions.slice(0, 5)}
                 categories={categories}
-                onUpdate={updateTransaction}
+                onUpdate={handleUpdate}
                 onDelete={handleDelete}
                 onEdit={handleEdit}
+                onViewInstallments={setInstallmentGroupId}
                 onBulkUpdate={handleBulkUpdate}
                 onBulkDelete={handleBulkDelete}
+                onGetAttachmentUrl={getAttachmentUrl}
+                onDeleteAttachment={handleDeleteAttachment}
+                suggestions={categorySuggestions}
+                onAcceptSuggestions={handleAcceptSuggestions}
               />
             </div>
           </>
@@ -512,6 +833,26 @@ const Index = () => {
           <>
             <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
               <h2 className="text-xl font-bold">Lançamentos</h2>
+              <div className="flex items-center gap-2">
+                {accounts.length > 1 && (
+                  <Button variant="outline" size="sm" onClick={() => setShowTransferForm(true)}>
+                    <ArrowLeftRight className="h-4 w-4 mr-2" />
+                    Transferência
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={() => setShowRecurringManager(true)}>
+                  <Repeat className="h-4 w-4 mr-2" />
+                  Recorrentes
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setShowImportHistory(true)}>
+                  <History className="h-4 w-4 mr-2" />
+                  Histórico de importações
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setShowExportDialog(true)}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Exportar
+                </Button>
+              </div>
             </div>
             
             <Filters
@@ -525,11 +866,16 @@ const Index = () => {
               <TransactionList
                 transactions={filteredTransactions}
                 categories={categories}
-                onUpdate={updateTransaction}
+                onUpdate={handleUpdate}
                 onDelete={handleDelete}
                 onEdit={handleEdit}
+                onViewInstallments={setInstallmentGroupId}
                 onBulkUpdate={handleBulkUpdate}
                 onBulkDelete={handleBulkDelete}
+                onGetAttachmentUrl={getAttachmentUrl}
+                onDeleteAttachment={handleDeleteAttachment}
+                suggestions={categorySuggestions}
+                onAcceptSuggestions={handleAcceptSuggestions}
               />
             </div>
           </>
@@ -539,30 +885,88 @@ const Index = () => {
         {activeTab === 'analytics' && (
           <>
             <h2 className="text-xl font-bold">Análise Financeira</h2>
-            <AdvancedCharts transactions={transactions} categories={categories} />
+            <AdvancedCharts
+              transactions={transactions}
+              categories={categories}
+              initialBalance={initialBalance}
+            />
           </>
         )}
+
+        {/* Reports Tab */}
+        {activeTab === 'reports' && (
+          <>
+            <h2 className="text-xl font-bold">Relatórios</h2>
+            <MonthlyReportPanel transactions={transactions} categories={categories} initialBalance={initialBalance} />
+            <DREReport
+              transactions={transactions}
+              categories={categories}
+              mappings={dreMappings}
+              onSetMapping={setDreMapping}
+            />
+            <AccountingExportPanel
+              transactions={transactions}
+              categories={categories}
+              onUpdateCategory={updateCategory}
+            />
+          </>
+        )}
+
+        {/* Consolidated Tab */}
+        {activeTab === 'consolidated' && <ConsolidatedDashboard />}
       </main>
 
       {/* Modals */}
       <TransactionForm
         open={showTransactionForm}
         onOpenChange={setShowTransactionForm}
-        onSubmit={async (transaction) => {
-          await addTransaction(transaction);
+        onSubmit={async (transaction, attachments) => {
+          const added = await addTransaction(transaction);
+          if (!added) {
+            toast({
+              title: 'Erro ao adicionar lançamento',
+              description: transaction.barcode
+                ? 'Verifique se este boleto já não foi lançado.'
+                : 'Não foi possível registrar o lançamento.',
+              variant: 'destructive',
+            });
+            return false;
+          }
+          await uploadAttachments(added.id, attachments);
           toast({
             title: 'Lançamento adicionado!',
             description: 'O lançamento foi registrado com sucesso.',
           });
+          return true;
+        }}
+        onSubmitInstallments={async (installments) => {
+          const added = await addTransactions(installments);
+          if (added.length === 0) {
+            toast({
+              title: 'Erro ao adicionar parcelas',
+              description: 'Não foi possível registrar as parcelas.',
+              variant: 'destructive',
+            });
+            return false;
+          }
+          toast({
+            title: 'Parcelas adicionadas!',
+            description: `${added.length} parcela(s) foram registradas.`,
+          });
+          return true;
         }}
         categories={categories}
         onAddCategory={addCategory}
+        existingTransactions={transactions}
       />
 
       <ImportDialog
         open={showImportDialog}
         onOpenChange={setShowImportDialog}
         onImport={handleImport}
+        currentBalance={dashboardStats.currentBalance}
+        existingTransactions={transactions}
+        rules={rules}
       />
 
       <EditTransactionForm
@@ -627,7 +1031,14 @@ const Index = () => {
         transactions={transactions}
         categories={categories}
         initialBalance={initialBalance}
-        onUpdateTransaction={updateTransaction}
+        onUpdateTransaction={handleUpdate}
+        sessions={reconciliationSessions}
+        onCreateSession={createReconciliationSession}
+        onUpdateBankBalance={updateSessionBankBalance}
+        onSetVerified={setSessionVerified}
+        onCloseSession={handleCloseReconciliation}
+        onReopenSession={handleReopenReconciliation}
+        onDeleteSession={deleteReconciliationSession}
       />
 
       {/* Category Manager */}
@@ -637,7 +1048,53 @@ const Index = () => {
         categories={categories}
         onAddCategory={addCategory}
         onUpdateCategory={updateCategory}
-        onDeleteCategory={deleteCategory}
+        onDeleteCategory={handleDeleteCategory}
+        rules={rules}
+        transactions={transactions}
+        onAddRule={addRule}
+        onUpdateRule={updateRule}
+        onDeleteRule={deleteRule}
+        onApplyRules={handleApplyRules}
+      />
+
+      <ImportHistory
+        open={showImportHistory}
+        onOpenChange={setShowImportHistory}
+        batches={importBatches}
+        transactions={transactions}
+        onDeleteBatch={handleDeleteImportBatch}
+      />
+
+      <ExportDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        transactions={filteredTransactions}
+        categories={categories}
+      />
+
+      <TransferForm
+        open={showTransferForm}
+        onOpenChange={setShowTransferForm}
+        onSubmit={handleCreateTransfer}
+      />
+
+      <InstallmentGroupDialog
+        open={!!installmentGroupId}
+        onOpenChange={(open) => !open && setInstallmentGroupId(null)}
+        installments={transactions.filter((t) => t.installmentGroupId === installmentGroupId)}
+        categories={categories}
+        onUpdateGroup={handleUpdateInstallmentGroup}
+        onCancelRemaining={handleCancelInstallments}
+      />
+
+      <RecurringManager
+        open={showRecurringManager}
+        onOpenChange={setShowRecurringManager}
+        templates={recurringTemplates}
+        categories={categories}
+        onAddTemplate={addRecurringTemplate}
+        onUpdateTemplate={updateRecurringTemplate}
+        onDeleteTemplate={deleteRecurringTemplate}
       />
     </div>
   );
@@ -4,28 +4,178 @@ export type TransactionStatus = 'completed' | 'pending';
 
 export type PaymentMethod = 'pix' | 'credit_card' | 'debit_card' | 'cash' | 'transfer' | 'boleto';
 
+export type ImportFormat = 'csv' | 'pdf' | 'ofx' | 'nfe';
+
 export interface Transaction {
   id: string;
   date: string;
   dueDate?: string; // Data de vencimento para pendentes
+  competenceDate?: string | null; // Mês do fato gerador (regime de competência)
   description: string;
   category: string | null;
   value: number;
   type: TransactionType;
   status: TransactionStatus;
   paymentMethod: PaymentMethod | null;
+  externalId?: string; // Identificador do banco (FITID do OFX)
+  importBatchId?: string;
+  recurringId?: string; // Modelo recorrente que gerou o lançamento
+  installmentGroupId?: string; // Parcelas da mesma compra compartilham o grupo
+  installmentNumber?: number;
+  installmentTotal?: number;
+  transferId?: string; // As duas pernas de uma transferência compartilham o id
+  counterpartAccountId?: string;
+  nfeAccessKey?: string; // Chave de acesso da NF-e que originou o lançamento
+  barcode?: string; // Código de barras do boleto (44 dígitos)
+  pixKey?: string; // Chave do recebedor, quando lançado a partir de um PIX copia e cola
+  pixTxid?: string;
+  splits?: TransactionSplit[]; // Linhas de rateio entre categorias; somam o valor total
+  attachments?: TransactionAttachment[]; // Comprovantes e notas fiscais
   isImported: boolean;
   isReconciled: boolean;
   createdAt: string;
 }
 
+export interface TransactionSplit {
+  category: string | null;
+  value: number;
+  memo?: string;
+}
+
+export interface TransactionAttachment {
+  id: string;
+  transactionId: string;
+  storagePath: string;
+  fileName: string;
+  mimeType: string | null;
+  sizeBytes: number;
+  createdAt: string;
+}
+
+export type InstallmentRounding = 'first' | 'last';
+
+export interface ImportBatch {
+  id: string;
+  fileName: string;
+  format: ImportFormat;
+  rowCount: number;
+  startDate: string | null;
+  endDate: string | null;
+  createdAt: string;
+}
+
+export type RecurrenceFrequency = 'weekly' | 'monthly' | 'yearly' | 'custom_days';
+
+export type BusinessDayAdjustment = 'none' | 'next' | 'previous';
+
+export interface RecurringTransaction {
+  id: string;
+  description: string;
+  category: string | null;
+  value: number;
+  type: TransactionType;
+  paymentMethod: PaymentMethod | null;
+  frequency: RecurrenceFrequency;
+  intervalDays: number | null; // Usado quando frequency = 'custom_days'
+  startDate: string;
+  endDate: string | null;
+  businessDayAdjustment: BusinessDayAdjustment;
+  isActive: boolean;
+  lastGeneratedDate: string | null;
+}
+
+export const RECURRENCE_FREQUENCIES: { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Semanal' },
+  { value: 'monthly', label: 'Mensal' },
+  { value: 'yearly', label: 'Anual' },
+  { value: 'custom_days', label: 'A cada N dias' },
+];
+
+export const BUSINESS_DAY_ADJUSTMENTS: { value: BusinessDayAdjustment; label: string }[] = [
+  { value: 'none', label: 'Não ajustar' },
+  { value: 'next', label: 'Próximo dia útil' },
+  { value: 'previous', label: 'Dia útil anterior' },
+];
+
+export interface Budget {
+  id: string;
+  category: string; // Nome da categoria
+  month: string; // Primeiro dia do mês (yyyy-MM-01)
+  amount: number;
+}
+
+export type DreLine =
+  | 'gross_revenue'
+  | 'deductions'
+  | 'costs'
+  | 'operating_expenses'
+  | 'financial_result'
+  | 'excluded';
+
+export interface DreMapping {
+  id: string;
+  category: string; // Nome da categoria
+  line: DreLine;
+}
+
+export const DRE_LINES: { value: DreLine; label: string }[] = [
+  { value: 'gross_revenue', label: 'Receita Bruta' },
+  { value: 'deductions', label: 'Deduções da Receita' },
+  { value: 'costs', label: 'Custos' },
+  { value: 'operating_expenses', label: 'Despesas Operacionais' },
+  { value: 'financial_result', label: 'Resultado Financeiro' },
+  { value: 'excluded', label: 'Fora da DRE' },
+];
+
+export type ReconciliationStatus = 'open' | 'closed';
+
+export interface ReconciliationSession {
+  id: string;
+  periodStart: string;
+  periodEnd: string;
+  bankBalance: number | null; // Saldo final informado pelo banco
+  status: ReconciliationStatus;
+  closedAt: string | null;
+  closedBy: string | null;
+  verifiedIds: string[]; // Lançamentos conferidos na sessão
+}
+
+export type RuleOperator = 'contains' | 'starts_with' | 'equals' | 'regex';
+
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  priority: number; // Menor número = maior prioridade
+  descriptionOperator: RuleOperator | null;
+  descriptionPattern: string | null;
+  minValue: number | null;
+  maxValue: number | null;
+  matchType: TransactionType | null;
+  setCategory: string | null; // Nome da categoria, como em Transaction.category
+  setPaymentMethod: PaymentMethod | null;
+  setType: TransactionType | null;
+  isActive: boolean;
+}
+
+export const RULE_OPERATORS: { value: RuleOperator; label: string }[] = [
+  { value: 'contains', label: 'Contém' },
+  { value: 'starts_with', label: 'Começa com' },
+  { value: 'equals', label: 'É igual a' },
+  { value: 'regex', label: 'Expressão regular' },
+];
+
 export interface Category {
   id: string;
   name: string;
   type: TransactionType;
   color: string;
+  parentId?: string | null;
+  ledgerCode?: string | null; // Conta do plano de contas da contabilidade
 }
 
+// What happens to subcategories when their parent is deleted
+export type CategoryChildStrategy = 'reparent' | 'uncategorize';
+
 export const DEFAULT_CATEGORIES: Category[] = [
   { id: '1', name: 'Vendas', type: 'income', color: '#10B981' },
   { id: '2', name: 'Serviços', type: 'income', color: '#06B6D4' },
@@ -0,0 +1,6 @@
+-- Identificador do lançamento no banco (FITID do OFX)
+ALTER TABLE public.transactions ADD COLUMN external_id TEXT;
+
+CREATE INDEX idx_transactions_account_external_id
+  ON public.transactions (account_id, external_id)
+  WHERE external_id IS NOT NULL;
@@ -0,0 +1,36 @@
+-- Perfis de mapeamento de importação (CSV) por conta
+CREATE TABLE public.import_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  format TEXT NOT NULL DEFAULT 'csv' CHECK (format IN ('csv')),
+  mapping JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (account_id, name)
+);
+
+ALTER TABLE public.import_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view import profiles of own accounts" ON public.import_profiles
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = import_profiles.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can create import profiles in own accounts" ON public.import_profiles
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = import_profiles.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update import profiles in own accounts" ON public.import_profiles
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = import_profiles.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete import profiles in own accounts" ON public.import_profiles
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = import_profiles.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE TRIGGER update_import_profiles_updated_at BEFORE UPDATE ON public.import_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
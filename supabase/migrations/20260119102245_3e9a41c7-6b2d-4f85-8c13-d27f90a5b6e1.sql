@@ -0,0 +1,39 @@
+-- Lotes de importação: permitem listar e desfazer uma importação inteira
+CREATE TABLE public.import_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('csv', 'pdf', 'ofx')),
+  row_count INTEGER NOT NULL DEFAULT 0,
+  start_date DATE,
+  end_date DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view import batches of own accounts" ON public.import_batches
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = import_batches.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can create import batches in own accounts" ON public.import_batches
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid() AND
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = import_batches.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete import batches in own accounts" ON public.import_batches
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = import_batches.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE INDEX idx_import_batches_account_id ON public.import_batches(account_id, created_at DESC);
+
+-- Excluir o lote remove os lançamentos dele no mesmo comando (desfazer atômico)
+ALTER TABLE public.transactions
+  ADD COLUMN import_batch_id UUID REFERENCES public.import_batches(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_transactions_import_batch_id ON public.transactions(import_batch_id)
+  WHERE import_batch_id IS NOT NULL;
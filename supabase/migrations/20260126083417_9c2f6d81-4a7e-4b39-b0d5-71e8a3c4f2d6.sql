@@ -0,0 +1,43 @@
+-- Regras de categorização automática por conta
+CREATE TABLE public.categorization_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 0,
+  description_operator TEXT CHECK (description_operator IN ('contains', 'starts_with', 'equals', 'regex')),
+  description_pattern TEXT,
+  min_value DECIMAL(15,2),
+  max_value DECIMAL(15,2),
+  match_type TEXT CHECK (match_type IN ('income', 'expense')),
+  set_category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  set_payment_method TEXT CHECK (set_payment_method IN ('pix', 'credit_card', 'debit_card', 'cash', 'transfer', 'boleto')),
+  set_type TEXT CHECK (set_type IN ('income', 'expense')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.categorization_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view rules of own accounts" ON public.categorization_rules
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = categorization_rules.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can create rules in own accounts" ON public.categorization_rules
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = categorization_rules.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update rules in own accounts" ON public.categorization_rules
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = categorization_rules.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete rules in own accounts" ON public.categorization_rules
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = categorization_rules.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE TRIGGER update_categorization_rules_updated_at BEFORE UPDATE ON public.categorization_rules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,53 @@
+-- Modelos de lançamentos recorrentes (aluguel, salários, utilidades...)
+CREATE TABLE public.recurring_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  value DECIMAL(15,2) NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('income', 'expense')),
+  payment_method TEXT CHECK (payment_method IN ('pix', 'credit_card', 'debit_card', 'cash', 'transfer', 'boleto')),
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'monthly', 'yearly', 'custom_days')),
+  interval_days INTEGER CHECK (interval_days IS NULL OR interval_days > 0),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  business_day_adjustment TEXT NOT NULL DEFAULT 'none' CHECK (business_day_adjustment IN ('none', 'next', 'previous')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  -- Data nominal (antes do ajuste de dia útil) da última ocorrência gerada
+  last_generated_date DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (frequency <> 'custom_days' OR interval_days IS NOT NULL)
+);
+
+ALTER TABLE public.recurring_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view recurring transactions of own accounts" ON public.recurring_transactions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = recurring_transactions.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can create recurring transactions in own accounts" ON public.recurring_transactions
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = recurring_transactions.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update recurring transactions in own accounts" ON public.recurring_transactions
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = recurring_transactions.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete recurring transactions in own accounts" ON public.recurring_transactions
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = recurring_transactions.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE TRIGGER update_recurring_transactions_updated_at BEFORE UPDATE ON public.recurring_transactions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Ocorrências geradas apontam para o modelo
+ALTER TABLE public.transactions
+  ADD COLUMN recurring_id UUID REFERENCES public.recurring_transactions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_transactions_recurring_id ON public.transactions(recurring_id)
+  WHERE recurring_id IS NOT NULL;
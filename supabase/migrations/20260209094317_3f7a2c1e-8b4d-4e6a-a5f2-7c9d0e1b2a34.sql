@@ -0,0 +1,12 @@
+-- Compras parceladas: as parcelas de uma mesma compra compartilham o grupo
+ALTER TABLE public.transactions
+  ADD COLUMN installment_group_id UUID,
+  ADD COLUMN installment_number INTEGER,
+  ADD COLUMN installment_total INTEGER,
+  ADD CONSTRAINT transactions_installment_check CHECK (
+    (installment_group_id IS NULL AND installment_number IS NULL AND installment_total IS NULL)
+    OR (installment_total > 1 AND installment_number BETWEEN 1 AND installment_total)
+  );
+
+CREATE INDEX idx_transactions_installment_group_id ON public.transactions(installment_group_id)
+  WHERE installment_group_id IS NOT NULL;
@@ -0,0 +1,46 @@
+-- Transferências entre contas: duas pernas ligadas pelo mesmo transfer_id
+ALTER TABLE public.transactions
+  ADD COLUMN transfer_id UUID,
+  ADD COLUMN counterpart_account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_transactions_transfer_id ON public.transactions(transfer_id)
+  WHERE transfer_id IS NOT NULL;
+
+-- Cria as duas pernas na mesma transação; as políticas de RLS continuam valendo
+CREATE OR REPLACE FUNCTION public.create_transfer(
+  from_account_id UUID,
+  to_account_id UUID,
+  transfer_date DATE,
+  transfer_value DECIMAL,
+  from_description TEXT,
+  to_description TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  new_transfer_id UUID := gen_random_uuid();
+BEGIN
+  IF from_account_id = to_account_id THEN
+    RAISE EXCEPTION 'Transfer accounts must be different';
+  END IF;
+
+  IF transfer_value IS NULL OR transfer_value <= 0 THEN
+    RAISE EXCEPTION 'Transfer value must be positive';
+  END IF;
+
+  IF (SELECT count(*) FROM public.accounts
+      WHERE id IN (from_account_id, to_account_id) AND user_id = auth.uid()) <> 2 THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+
+  INSERT INTO public.transactions
+    (account_id, date, description, value, type, status, payment_method, is_imported, is_reconciled, transfer_id, counterpart_account_id)
+  VALUES
+    (from_account_id, transfer_date, from_description, transfer_value, 'expense', 'completed', 'transfer', false, true, new_transfer_id, to_account_id),
+    (to_account_id, transfer_date, to_description, transfer_value, 'income', 'completed', 'transfer', false, true, new_transfer_id, from_account_id);
+
+  RETURN new_transfer_id;
+END;
+$$;
@@ -0,0 +1,38 @@
+-- Orçamento mensal por categoria (month = primeiro dia do mês)
+CREATE TABLE public.budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  category_id UUID NOT NULL REFERENCES public.categories(id) ON DELETE CASCADE,
+  month DATE NOT NULL CHECK (EXTRACT(DAY FROM month) = 1),
+  amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (category_id, month)
+);
+
+CREATE INDEX idx_budgets_account_month ON public.budgets(account_id, month);
+
+ALTER TABLE public.budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view budgets of own accounts" ON public.budgets
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = budgets.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can create budgets in own accounts" ON public.budgets
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = budgets.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update budgets in own accounts" ON public.budgets
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = budgets.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete budgets in own accounts" ON public.budgets
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = budgets.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE TRIGGER update_budgets_updated_at BEFORE UPDATE ON public.budgets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,8 @@
+-- Subcategorias: uma categoria pode ter uma categoria pai do mesmo tipo
+ALTER TABLE public.categories
+  ADD COLUMN parent_id UUID REFERENCES public.categories(id) ON DELETE SET NULL;
+
+ALTER TABLE public.categories
+  ADD CONSTRAINT categories_parent_not_self CHECK (parent_id IS NULL OR parent_id <> id);
+
+CREATE INDEX idx_categories_parent_id ON public.categories(parent_id);
@@ -0,0 +1,35 @@
+-- DRE: linha da Demonstração do Resultado para cada categoria
+CREATE TABLE public.dre_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  category_id UUID NOT NULL UNIQUE REFERENCES public.categories(id) ON DELETE CASCADE,
+  line TEXT NOT NULL CHECK (line IN ('gross_revenue', 'deductions', 'costs', 'operating_expenses', 'financial_result', 'excluded')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_dre_mappings_account_id ON public.dre_mappings(account_id);
+
+ALTER TABLE public.dre_mappings ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view DRE mappings of own accounts" ON public.dre_mappings
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = dre_mappings.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can create DRE mappings in own accounts" ON public.dre_mappings
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = dre_mappings.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update DRE mappings in own accounts" ON public.dre_mappings
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = dre_mappings.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete DRE mappings in own accounts" ON public.dre_mappings
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = dre_mappings.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE TRIGGER update_dre_mappings_updated_at BEFORE UPDATE ON public.dre_mappings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
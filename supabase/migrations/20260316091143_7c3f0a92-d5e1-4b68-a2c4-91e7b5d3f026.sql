@@ -0,0 +1,6 @@
+-- Data de competência (regime de competência); quando nula vale a data do lançamento
+ALTER TABLE public.transactions
+  ADD COLUMN competence_date DATE;
+
+CREATE INDEX idx_transactions_competence_date ON public.transactions(account_id, competence_date)
+  WHERE competence_date IS NOT NULL;
@@ -0,0 +1,6 @@
+-- Códigos do plano de contas da contabilidade para a exportação de lançamentos contábeis
+ALTER TABLE public.categories
+  ADD COLUMN ledger_code TEXT;
+
+ALTER TABLE public.accounts
+  ADD COLUMN ledger_code TEXT;
@@ -0,0 +1,164 @@
+-- Sessões de conciliação: período conferido contra o extrato, com saldo informado pelo banco
+CREATE TABLE public.reconciliation_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  bank_balance DECIMAL(15,2),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  closed_at TIMESTAMP WITH TIME ZONE,
+  closed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (period_start <= period_end)
+);
+
+CREATE INDEX idx_reconciliation_sessions_account_id ON public.reconciliation_sessions(account_id, period_start);
+
+ALTER TABLE public.reconciliation_sessions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view reconciliation sessions of own accounts" ON public.reconciliation_sessions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = reconciliation_sessions.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can create reconciliation sessions in own accounts" ON public.reconciliation_sessions
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = reconciliation_sessions.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update reconciliation sessions in own accounts" ON public.reconciliation_sessions
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = reconciliation_sessions.account_id AND accounts.user_id = auth.uid())
+  );
+
+-- Sessões fechadas precisam ser reabertas antes de serem excluídas
+CREATE POLICY "Users can delete open reconciliation sessions in own accounts" ON public.reconciliation_sessions
+  FOR DELETE USING (
+    status = 'open' AND
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = reconciliation_sessions.account_id AND accounts.user_id = auth.uid())
+  );
+
+CREATE TRIGGER update_reconciliation_sessions_updated_at BEFORE UPDATE ON public.reconciliation_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Lançamentos conferidos em cada sessão
+CREATE TABLE public.reconciliation_session_transactions (
+  session_id UUID NOT NULL REFERENCES public.reconciliation_sessions(id) ON DELETE CASCADE,
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (session_id, transaction_id)
+);
+
+CREATE INDEX idx_reconciliation_session_transactions_transaction_id
+  ON public.reconciliation_session_transactions(transaction_id);
+
+ALTER TABLE public.reconciliation_session_transactions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view verified transactions of own sessions" ON public.reconciliation_session_transactions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.reconciliation_sessions s
+      JOIN public.accounts a ON a.id = s.account_id
+      WHERE s.id = reconciliation_session_transactions.session_id AND a.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can verify transactions in own open sessions" ON public.reconciliation_session_transactions
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.reconciliation_sessions s
+      JOIN public.accounts a ON a.id = s.account_id
+      WHERE s.id = reconciliation_session_transactions.session_id AND s.status = 'open' AND a.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can unverify transactions in own open sessions" ON public.reconciliation_session_transactions
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.reconciliation_sessions s
+      JOIN public.accounts a ON a.id = s.account_id
+      WHERE s.id = reconciliation_session_transactions.session_id AND s.status = 'open' AND a.user_id = auth.uid()
+    )
+  );
+
+-- Um período fechado trava os lançamentos da conta com data dentro dele
+CREATE OR REPLACE FUNCTION public.is_period_locked(target_account_id UUID, target_date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.reconciliation_sessions
+    WHERE account_id = target_account_id
+      AND status = 'closed'
+      AND target_date BETWEEN period_start AND period_end
+  );
+$$;
+
+DROP POLICY "Users can create transactions in own accounts" ON public.transactions;
+DROP POLICY "Users can update transactions in own accounts" ON public.transactions;
+DROP POLICY "Users can delete transactions in own accounts" ON public.transactions;
+
+CREATE POLICY "Users can create transactions in open periods of own accounts" ON public.transactions
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = transactions.account_id AND accounts.user_id = auth.uid())
+    AND NOT public.is_period_locked(transactions.account_id, transactions.date)
+  );
+
+-- USING protege a linha atual; WITH CHECK impede mover um lançamento para dentro de um período fechado
+CREATE POLICY "Users can update transactions in open periods of own accounts" ON public.transactions
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = transactions.account_id AND accounts.user_id = auth.uid())
+    AND NOT public.is_period_locked(transactions.account_id, transactions.date)
+  ) WITH CHECK (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = transactions.account_id AND accounts.user_id = auth.uid())
+    AND NOT public.is_period_locked(transactions.account_id, transactions.date)
+  );
+
+CREATE POLICY "Users can delete transactions in open periods of own accounts" ON public.transactions
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id = transactions.account_id AND accounts.user_id = auth.uid())
+    AND NOT public.is_period_locked(transactions.account_id, transactions.date)
+  );
+
+-- Fecha a sessão: marca os conferidos como conciliados e só então trava o período
+CREATE OR REPLACE FUNCTION public.close_reconciliation_session(session_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  target public.reconciliation_sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO target FROM public.reconciliation_sessions WHERE id = session_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reconciliation session not found';
+  END IF;
+
+  IF target.status = 'closed' THEN
+    RAISE EXCEPTION 'Reconciliation session is already closed';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.reconciliation_sessions
+    WHERE account_id = target.account_id
+      AND status = 'closed'
+      AND period_start <= target.period_end
+      AND period_end >= target.period_start
+  ) THEN
+    RAISE EXCEPTION 'Period overlaps a closed reconciliation session';
+  END IF;
+
+  UPDATE public.transactions
+  SET is_reconciled = true
+  WHERE id IN (
+    SELECT transaction_id FROM public.reconciliation_session_transactions
+    WHERE reconciliation_session_transactions.session_id = close_reconciliation_session.session_id
+  );
+
+  UPDATE public.reconciliation_sessions
+  SET status = 'closed', closed_at = now(), closed_by = auth.uid()
+  WHERE id = session_id;
+END;
+$$;
@@ -0,0 +1,95 @@
+-- Rateio de um lançamento entre várias categorias; as linhas somam o valor do lançamento
+CREATE TABLE public.transaction_splits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  value DECIMAL(15,2) NOT NULL CHECK (value > 0),
+  memo TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_transaction_splits_transaction_id ON public.transaction_splits(transaction_id, position);
+CREATE INDEX idx_transaction_splits_category_id ON public.transaction_splits(category_id);
+
+ALTER TABLE public.transaction_splits ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view splits of own transactions" ON public.transaction_splits
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.transactions t
+      JOIN public.accounts a ON a.id = t.account_id
+      WHERE t.id = transaction_splits.transaction_id AND a.user_id = auth.uid()
+    )
+  );
+
+-- As linhas seguem a trava de período do lançamento
+CREATE POLICY "Users can create splits of own transactions in open periods" ON public.transaction_splits
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.transactions t
+      JOIN public.accounts a ON a.id = t.account_id
+      WHERE t.id = transaction_splits.transaction_id AND a.user_id = auth.uid()
+        AND NOT public.is_period_locked(t.account_id, t.date)
+    )
+  );
+
+CREATE POLICY "Users can update splits of own transactions in open periods" ON public.transaction_splits
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.transactions t
+      JOIN public.accounts a ON a.id = t.account_id
+      WHERE t.id = transaction_splits.transaction_id AND a.user_id = auth.uid()
+        AND NOT public.is_period_locked(t.account_id, t.date)
+    )
+  );
+
+CREATE POLICY "Users can delete splits of own transactions in open periods" ON public.transaction_splits
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.transactions t
+      JOIN public.accounts a ON a.id = t.account_id
+      WHERE t.id = transaction_splits.transaction_id AND a.user_id = auth.uid()
+        AND NOT public.is_period_locked(t.account_id, t.date)
+    )
+  );
+
+-- Substitui todas as linhas de uma vez; uma lista vazia desfaz o rateio
+CREATE OR REPLACE FUNCTION public.set_transaction_splits(target_transaction_id UUID, splits JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  transaction_value DECIMAL(15,2);
+  split_total DECIMAL(15,2);
+BEGIN
+  SELECT value INTO transaction_value FROM public.transactions WHERE id = target_transaction_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  IF jsonb_array_length(splits) = 1 THEN
+    RAISE EXCEPTION 'A split needs at least two lines';
+  END IF;
+
+  IF jsonb_array_length(splits) > 0 THEN
+    SELECT sum((line->>'value')::DECIMAL(15,2)) INTO split_total FROM jsonb_array_elements(splits) AS line;
+
+    IF split_total <> transaction_value THEN
+      RAISE EXCEPTION 'Split lines must sum to the transaction value';
+    END IF;
+  END IF;
+
+  DELETE FROM public.transaction_splits WHERE transaction_id = target_transaction_id;
+
+  INSERT INTO public.transaction_splits (transaction_id, category_id, value, memo, position)
+  SELECT
+    target_transaction_id,
+    NULLIF(line->>'category_id', '')::UUID,
+    (line->>'value')::DECIMAL(15,2),
+    NULLIF(line->>'memo', ''),
+    (ordinality - 1)::INTEGER
+  FROM jsonb_array_elements(splits) WITH ORDINALITY AS lines(line, ordinality);
+END;
+$$;
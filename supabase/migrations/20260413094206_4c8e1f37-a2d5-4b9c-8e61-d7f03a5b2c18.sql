@@ -0,0 +1,64 @@
+-- Comprovantes e notas fiscais anexados aos lançamentos, guardados no Storage
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('receipts', 'receipts', false, 10485760, ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE public.transaction_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  mime_type TEXT,
+  size_bytes BIGINT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_transaction_attachments_transaction_id ON public.transaction_attachments(transaction_id);
+
+ALTER TABLE public.transaction_attachments ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view attachments of own transactions" ON public.transaction_attachments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.transactions t
+      JOIN public.accounts a ON a.id = t.account_id
+      WHERE t.id = transaction_attachments.transaction_id AND a.user_id = auth.uid()
+    )
+  );
+
+-- Anexar um comprovante não altera valores, então períodos fechados também aceitam
+CREATE POLICY "Users can attach files to own transactions" ON public.transaction_attachments
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.transactions t
+      JOIN public.accounts a ON a.id = t.account_id
+      WHERE t.id = transaction_attachments.transaction_id AND a.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can remove attachments of own transactions" ON public.transaction_attachments
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.transactions t
+      JOIN public.accounts a ON a.id = t.account_id
+      WHERE t.id = transaction_attachments.transaction_id AND a.user_id = auth.uid()
+    )
+  );
+
+-- Os arquivos ficam em receipts/<account_id>/<transaction_id>/; a primeira pasta define o dono
+CREATE POLICY "Users can view receipts of own accounts" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'receipts' AND
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id::text = (storage.foldername(name))[1] AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can upload receipts to own accounts" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'receipts' AND
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id::text = (storage.foldername(name))[1] AND accounts.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete receipts of own accounts" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'receipts' AND
+    EXISTS (SELECT 1 FROM public.accounts WHERE accounts.id::text = (storage.foldername(name))[1] AND accounts.user_id = auth.uid())
+  );
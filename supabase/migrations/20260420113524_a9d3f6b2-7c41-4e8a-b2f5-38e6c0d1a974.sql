@@ -0,0 +1,12 @@
+-- CNPJ da empresa dona da conta: decide se uma NF-e importada é venda (a receber) ou compra (a pagar)
+ALTER TABLE public.accounts ADD COLUMN cnpj TEXT CHECK (cnpj ~ '^[0-9]{14}$');
+
+-- Chave de acesso da NF-e que originou o lançamento; todas as duplicatas da nota compartilham a chave
+ALTER TABLE public.transactions ADD COLUMN nfe_access_key TEXT CHECK (nfe_access_key ~ '^[0-9]{44}$');
+
+CREATE INDEX idx_transactions_nfe_access_key ON public.transactions(account_id, nfe_access_key)
+  WHERE nfe_access_key IS NOT NULL;
+
+ALTER TABLE public.import_batches DROP CONSTRAINT import_batches_format_check;
+ALTER TABLE public.import_batches ADD CONSTRAINT import_batches_format_check
+  CHECK (format IN ('csv', 'pdf', 'ofx', 'nfe'));
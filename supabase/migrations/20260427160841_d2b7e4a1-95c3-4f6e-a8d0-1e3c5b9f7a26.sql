@@ -0,0 +1,6 @@
+-- Código de barras (44 dígitos) do boleto que originou o lançamento
+ALTER TABLE public.transactions ADD COLUMN barcode TEXT CHECK (barcode ~ '^[0-9]{44}$');
+
+-- O mesmo boleto não pode ser lançado duas vezes na conta
+CREATE UNIQUE INDEX idx_transactions_account_barcode ON public.transactions(account_id, barcode)
+  WHERE barcode IS NOT NULL;
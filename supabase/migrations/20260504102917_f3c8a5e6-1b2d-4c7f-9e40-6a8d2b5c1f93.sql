@@ -0,0 +1,10 @@
+-- Chave PIX e cidade da conta, usadas para gerar o BR Code de cobrança dos recebíveis
+ALTER TABLE public.accounts ADD COLUMN pix_key TEXT;
+ALTER TABLE public.accounts ADD COLUMN pix_city TEXT CHECK (char_length(pix_city) <= 60);
+
+-- Chave do recebedor e identificador (txid) do PIX copia e cola que originou o lançamento
+ALTER TABLE public.transactions ADD COLUMN pix_key TEXT;
+ALTER TABLE public.transactions ADD COLUMN pix_txid TEXT CHECK (char_length(pix_txid) <= 35);
+
+CREATE INDEX idx_transactions_pix_txid ON public.transactions(account_id, pix_txid)
+  WHERE pix_txid IS NOT NULL;
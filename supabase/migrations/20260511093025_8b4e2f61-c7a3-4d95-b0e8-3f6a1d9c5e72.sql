@@ -0,0 +1,94 @@
+-- Ações de chave estrangeira (ON DELETE CASCADE / SET NULL) não passam pelas políticas de RLS:
+-- desfazer uma importação ou excluir uma categoria alteraria lançamentos de períodos fechados.
+-- O gatilho aplica a trava a toda alteração, inclusive às feitas em cascata
+CREATE OR REPLACE FUNCTION public.enforce_transaction_period_lock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    -- Excluir a conta leva junto todos os seus lançamentos
+    IF NOT EXISTS (SELECT 1 FROM public.accounts WHERE id = OLD.account_id) THEN
+      RETURN OLD;
+    END IF;
+  ELSIF OLD.counterpart_account_id IS NOT NULL AND NEW.counterpart_account_id IS NULL
+    AND NOT EXISTS (SELECT 1 FROM public.accounts WHERE id = OLD.counterpart_account_id)
+    AND to_jsonb(NEW) - 'counterpart_account_id' = to_jsonb(OLD) - 'counterpart_account_id' THEN
+    -- Excluir a conta de destino só desvincula a perna que fica na outra conta
+    RETURN NEW;
+  ELSIF public.is_period_locked(NEW.account_id, NEW.date) THEN
+    RAISE EXCEPTION 'Transaction date is in a closed reconciliation period';
+  END IF;
+
+  IF public.is_period_locked(OLD.account_id, OLD.date) THEN
+    RAISE EXCEPTION 'Transaction is in a closed reconciliation period';
+  END IF;
+
+  -- As duas pernas de uma transferência mudam juntas, então a outra também não pode estar travada
+  IF OLD.transfer_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.transactions
+    WHERE transfer_id = OLD.transfer_id AND id <> OLD.id AND public.is_period_locked(account_id, date)
+  ) THEN
+    IF TG_OP = 'DELETE' THEN
+      RAISE EXCEPTION 'The other leg of the transfer is in a closed reconciliation period';
+    ELSIF (NEW.date, NEW.value, NEW.status) IS DISTINCT FROM (OLD.date, OLD.value, OLD.status) THEN
+      RAISE EXCEPTION 'The other leg of the transfer is in a closed reconciliation period';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_transactions_period_lock BEFORE UPDATE OR DELETE ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_transaction_period_lock();
+
+-- Linhas de rateio: excluir uma categoria anula category_id sem passar pelo RLS
+CREATE OR REPLACE FUNCTION public.enforce_transaction_split_period_lock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.transactions
+    WHERE id = OLD.transaction_id AND public.is_period_locked(account_id, date)
+  ) THEN
+    RAISE EXCEPTION 'Transaction is in a closed reconciliation period';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_transaction_splits_period_lock BEFORE UPDATE OR DELETE ON public.transaction_splits
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_transaction_split_period_lock();
+
+-- Data, valor e status de uma perna são copiados para a outra na mesma transação,
+-- em vez de uma segunda chamada do cliente que o RLS poderia ignorar sem erro
+CREATE OR REPLACE FUNCTION public.sync_transfer_legs()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.transactions
+  SET date = NEW.date, value = NEW.value, status = NEW.status
+  WHERE transfer_id = NEW.transfer_id
+    AND id <> NEW.id
+    AND (date, value, status) IS DISTINCT FROM (NEW.date, NEW.value, NEW.status);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_transactions_transfer_legs AFTER UPDATE OF date, value, status ON public.transactions
+  FOR EACH ROW
+  WHEN (NEW.transfer_id IS NOT NULL AND (NEW.date, NEW.value, NEW.status) IS DISTINCT FROM (OLD.date, OLD.value, OLD.status))
+  EXECUTE FUNCTION public.sync_transfer_legs();
@@ -0,0 +1,72 @@
+-- O valor do lançamento e as linhas de rateio mudam juntos: gravar o lançamento e depois
+-- as linhas em duas chamadas podia deixar um novo valor sem linhas que somassem a ele
+DROP FUNCTION IF EXISTS public.set_transaction_splits(UUID, JSONB);
+
+-- Aplica as alterações do lançamento (colunas em changes) e substitui as linhas na mesma transação;
+-- uma lista vazia desfaz o rateio
+CREATE OR REPLACE FUNCTION public.set_transaction_splits(
+  target_transaction_id UUID,
+  splits JSONB,
+  changes JSONB DEFAULT '{}'::JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  current_row public.transactions;
+  updated_row public.transactions;
+  split_total DECIMAL(15,2);
+BEGIN
+  SELECT * INTO current_row FROM public.transactions WHERE id = target_transaction_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  updated_row := jsonb_populate_record(current_row, changes);
+
+  IF jsonb_array_length(splits) = 1 THEN
+    RAISE EXCEPTION 'A split needs at least two lines';
+  END IF;
+
+  IF jsonb_array_length(splits) > 0 THEN
+    SELECT sum((line->>'value')::DECIMAL(15,2)) INTO split_total FROM jsonb_array_elements(splits) AS line;
+
+    IF split_total <> updated_row.value THEN
+      RAISE EXCEPTION 'Split lines must sum to the transaction value';
+    END IF;
+  END IF;
+
+  UPDATE public.transactions
+  SET
+    date = updated_row.date,
+    due_date = updated_row.due_date,
+    competence_date = updated_row.competence_date,
+    description = updated_row.description,
+    category_id = updated_row.category_id,
+    value = updated_row.value,
+    type = updated_row.type,
+    status = updated_row.status,
+    payment_method = updated_row.payment_method,
+    is_imported = updated_row.is_imported,
+    is_reconciled = updated_row.is_reconciled
+  WHERE id = target_transaction_id;
+
+  -- O RLS ignora a linha em vez de falhar
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction could not be updated';
+  END IF;
+
+  DELETE FROM public.transaction_splits WHERE transaction_id = target_transaction_id;
+
+  INSERT INTO public.transaction_splits (transaction_id, category_id, value, memo, position)
+  SELECT
+    target_transaction_id,
+    NULLIF(line->>'category_id', '')::UUID,
+    (line->>'value')::DECIMAL(15,2),
+    NULLIF(line->>'memo', ''),
+    (ordinality - 1)::INTEGER
+  FROM jsonb_array_elements(splits) WITH ORDINALITY AS lines(line, ordinality);
+END;
+$$;